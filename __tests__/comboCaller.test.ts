@@ -0,0 +1,77 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import {
+  DEFAULT_COMBO_SETTINGS,
+  comboPool,
+  comboToSpeech,
+  nextComboIndex,
+  parseCombo,
+} from '../lib/comboCaller';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('parseCombo', () => {
+  it('reads numbers with any separator', () => {
+    expect(parseCombo('1-2-3')).toEqual(['1', '2', '3']);
+    expect(parseCombo(' 1, 2 / 3 ')).toEqual(['1', '2', '3']);
+    expect(parseCombo('1 2 slip 2')).toEqual(['1', '2', 'slip', '2']);
+  });
+
+  it('reads named punches and moves separated by punctuation', () => {
+    expect(parseCombo('Jab, slip, cross, hook')).toEqual(['1', 'slip', '2', '3']);
+  });
+
+  it('reads named moves separated by spaces only', () => {
+    expect(parseCombo('jab slip cross')).toEqual(['1', 'slip', '2']);
+    expect(parseCombo('jab cross roll cross')).toEqual(['1', '2', 'roll', '2']);
+  });
+
+  it('prefers two-word names over their single words', () => {
+    expect(parseCombo('jab rear hook step back lead uppercut')).toEqual(['1', '4', 'step back', '5']);
+    expect(parseCombo('1 hook')).toEqual(['1', '3']);
+  });
+
+  it('rejects anything unrecognised', () => {
+    expect(parseCombo('')).toBeNull();
+    expect(parseCombo('   ')).toBeNull();
+    expect(parseCombo('jab spin cross')).toBeNull();
+    expect(parseCombo('1-7')).toBeNull();
+  });
+});
+
+describe('comboToSpeech', () => {
+  it('names punches for the stance', () => {
+    const combo = ['1', '2', '3', 'slip'];
+    expect(comboToSpeech(combo, { style: 'numbers', stance: 'orthodox' })).toBe('1, 2, 3, slip');
+    expect(comboToSpeech(combo, { style: 'names', stance: 'orthodox' })).toBe('jab, cross, left hook, slip');
+    expect(comboToSpeech(combo, { style: 'names', stance: 'southpaw' })).toBe('jab, cross, right hook, slip');
+  });
+});
+
+describe('comboPool', () => {
+  it('uses only custom combos when asked and there are valid ones', () => {
+    const settings = { ...DEFAULT_COMBO_SETTINGS, customOnly: true, custom: ['jab slip cross', 'nonsense'] };
+    expect(comboPool(settings)).toEqual([['1', 'slip', '2']]);
+  });
+
+  it('falls back to the built-in list when no custom combo parses', () => {
+    const settings = { ...DEFAULT_COMBO_SETTINGS, customOnly: true, custom: ['nonsense'] };
+    expect(comboPool(settings).length).toBeGreaterThan(0);
+  });
+});
+
+describe('nextComboIndex', () => {
+  it('cycles in sequence mode', () => {
+    expect(nextComboIndex(3, 2, 'sequence')).toBe(0);
+    expect(nextComboIndex(3, -1, 'sequence')).toBe(0);
+  });
+
+  it('never repeats the previous call in random mode', () => {
+    for (let i = 0; i < 20; i++) expect(nextComboIndex(2, 1, 'random')).toBe(0);
+    expect(nextComboIndex(0, -1, 'random')).toBe(-1);
+  });
+});
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+
+import {
+  LOCAL_GUEST_MAX,
+  LocalParty,
+  addGuest,
+  attachLocalParty,
+  emptyLocalParty,
+  loadLocalParty,
+  localPartyText,
+  recordResult,
+  removeGuest,
+  saveLocalParty,
+} from '../lib/localParty';
+
+// Batched writes land here once committed
+const mockCommitted: [string, any][] = [];
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({
+  collection: (_db: unknown, ...path: string[]) => path.join('/'),
+  doc: (col: string, id: string) => `${col}/${id}`,
+  serverTimestamp: () => 'now',
+  writeBatch: () => {
+    const pending: [string, any][] = [];
+    return {
+      set: (ref: string, data: any) => pending.push([ref, data]),
+      commit: async () => {
+        mockCommitted.push(...pending);
+      },
+    };
+  },
+}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const AsyncStorage: typeof AsyncStorageStatic = require('@react-native-async-storage/async-storage'); // the jest mock has no default export
+
+function withGuests(...names: string[]): LocalParty {
+  return names.reduce(addGuest, emptyLocalParty());
+}
+
+beforeEach(async () => {
+  mockCommitted.length = 0;
+  await AsyncStorage.clear();
+});
+
+describe('guests and results', () => {
+  it('adds named guests up to the limit', () => {
+    const party = withGuests(' Ann ', '', 'Bob');
+    expect(party.guests.map((g) => g.name)).toEqual(['Ann', 'Bob']);
+    const full = withGuests(...Array.from({ length: LOCAL_GUEST_MAX + 5 }, (_, i) => `G${i}`));
+    expect(full.guests).toHaveLength(LOCAL_GUEST_MAX);
+  });
+
+  it('tallies per round, never below zero, and drops results with the guest', () => {
+    let party = withGuests('Ann');
+    const ann = party.guests[0].id;
+    party = recordResult(party, ann, 1, 10);
+    party = recordResult(party, ann, 1, 5);
+    party = recordResult(party, ann, 2, -3);
+    expect(party.results[ann]).toEqual({ 1: 15, 2: 0 });
+    expect(removeGuest(party, ann)).toMatchObject({ guests: [], results: {} });
+  });
+
+  it('shares the board with per-round tallies', () => {
+    let party = withGuests('Ann', 'Bob', 'Cat');
+    const [ann, bob] = party.guests.map((g) => g.id);
+    party = recordResult(recordResult(party, ann, 1, 10), ann, 2, 8);
+    party = recordResult(party, bob, 2, 20);
+    expect(localPartyText(party)).toBe(
+      [
+        '🎉 POUNDRR pass & play · 3 × 3 min',
+        '🏆 Reps',
+        '1. Bob — 20 (R1 0 · R2 20)',
+        '2. Ann — 18 (R1 10 · R2 8)',
+      ].join('\n')
+    );
+  });
+});
+
+describe('local storage', () => {
+  it('round-trips a party', async () => {
+    const party = recordResult(withGuests('Ann'), 'x', 1, 4);
+    await saveLocalParty({ ...party, metric: 'punches' });
+    await expect(loadLocalParty()).resolves.toEqual({ ...party, metric: 'punches' });
+  });
+
+  it('starts fresh from missing or damaged data', async () => {
+    await expect(loadLocalParty()).resolves.toMatchObject({ guests: [], results: {}, metric: 'reps' });
+    await AsyncStorage.setItem('local_party', JSON.stringify({ guests: [{ id: 1 }], metric: 'kicks', session: 'x' }));
+    const party = await loadLocalParty();
+    expect(party).toMatchObject({ guests: [], results: {}, metric: 'reps' });
+    expect(party.session.startedAt).toBeNull();
+  });
+});
+
+describe('attachLocalParty', () => {
+  it('writes guests with results onto the cloud board, marked as guests', async () => {
+    let party = withGuests('Ann', 'Bob');
+    const ann = party.guests[0].id;
+    party = recordResult(party, ann, 1, 12);
+
+    await expect(attachLocalParty('ABC234', 42, party)).resolves.toBe(1);
+    expect(mockCommitted).toEqual([
+      [
+        `parties/ABC234/scores/42_guest-${ann}`,
+        { uid: `guest-${ann}`, name: 'Ann (guest)', runId: 42, byRound: { 1: 12 }, total: 12, guest: true, updatedAt: 'now' },
+      ],
+    ]);
+  });
+
+  it('writes nothing when nobody has results', async () => {
+    await expect(attachLocalParty('ABC234', 42, withGuests('Ann'))).resolves.toBe(0);
+    expect(mockCommitted).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { PARTY_CODE_LENGTH, generatePartyCode, isPartyExpired, isValidPartyCode, normalizePartyCode } from '../lib/party';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const at = (ms: number) => ({ toMillis: () => ms }) as any;
+
+describe('party codes', () => {
+  it('normalises typed codes', () => {
+    expect(normalizePartyCode(' abc-234 ')).toBe('ABC234');
+    expect(normalizePartyCode(undefined as any)).toBe('');
+  });
+
+  it('only accepts six characters from the read-aloud alphabet', () => {
+    expect(isValidPartyCode('ABC234')).toBe(true);
+    expect(isValidPartyCode('ABC23')).toBe(false);
+    expect(isValidPartyCode('ABC2345')).toBe(false);
+    expect(isValidPartyCode('ABCD0O')).toBe(false); // 0 and O are left out
+    expect(isValidPartyCode('ABC1IL')).toBe(false); // so are 1, I and L
+  });
+
+  it('generates valid codes', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generatePartyCode();
+      expect(code).toHaveLength(PARTY_CODE_LENGTH);
+      expect(isValidPartyCode(code)).toBe(true);
+    }
+  });
+});
+
+describe('isPartyExpired', () => {
+  it('expires a room at its expiry time, or with none set', () => {
+    expect(isPartyExpired({ expiresAt: at(1000) }, 999)).toBe(false);
+    expect(isPartyExpired({ expiresAt: at(1000) }, 1000)).toBe(true);
+    expect(isPartyExpired({ expiresAt: null as any }, 0)).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { partyCodeFromText, partyRouteFromUrl } from '../lib/partyLinks';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('partyCodeFromText', () => {
+  it('reads a bare code, however it was typed', () => {
+    expect(partyCodeFromText(' abc234 ')).toBe('ABC234');
+    expect(partyCodeFromText('abc 234')).toBe('ABC234');
+    expect(partyCodeFromText('ABC23')).toBeNull();
+  });
+
+  it('reads invite links by path or query', () => {
+    expect(partyCodeFromText('poundrr://party/join/abc234')).toBe('ABC234');
+    expect(partyCodeFromText('exp://192.168.1.2:8081/--/party/join/ABC234')).toBe('ABC234');
+    expect(partyCodeFromText('poundrr://party?code=abc234')).toBe('ABC234');
+  });
+
+  it('rejects links that are not invites or hold a bad code', () => {
+    expect(partyCodeFromText('poundrr://timer/start?code=ABC234')).toBeNull();
+    expect(partyCodeFromText('poundrr://party/join/ABC0O1')).toBeNull();
+    expect(partyCodeFromText('https://example.com/')).toBeNull();
+  });
+});
+
+describe('partyRouteFromUrl', () => {
+  it('sends invite links to the party tab', () => {
+    const route = partyRouteFromUrl('poundrr://party/join/abc234');
+    expect(route).toMatch(/^\/party\?/);
+    expect(new URLSearchParams(route!.split('?')[1]).get('join')).toBe('ABC234');
+    expect(partyRouteFromUrl('poundrr://party')).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { PartyRun, backfillPartyHistory, partyRecapText, recordPartyRun } from '../lib/partyRecap';
+import { PartyScore } from '../lib/partyScores';
+import { createSession, startSession } from '../lib/timerEngine';
+
+// In-memory Firestore: documents by path; queries support equality and array-contains filters
+const mockStore = new Map<string, any>();
+type MockFilter = { field: string; op: string; value: unknown };
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => {
+  const snap = (path: string) => ({
+    id: path.split('/').pop(),
+    exists: () => mockStore.has(path),
+    data: () => mockStore.get(path),
+  });
+  const matches = (data: any, f: MockFilter) =>
+    f.op === 'array-contains' ? (data[f.field] ?? []).includes(f.value) : data[f.field] === f.value;
+  return {
+    Timestamp: { fromMillis: (ms: number) => ({ toMillis: () => ms }) },
+    serverTimestamp: () => 'now',
+    collection: (_db: unknown, ...path: string[]) => path.join('/'),
+    doc: (col: string, id: string) => `${col}/${id}`,
+    where: (field: string, op: string, value: unknown) => ({ field, op, value }),
+    query: (col: string, ...filters: MockFilter[]) => ({ col, filters }),
+    getDoc: async (ref: string) => snap(ref),
+    getDocs: async ({ col, filters }: { col: string; filters: MockFilter[] }) => ({
+      docs: [...mockStore.keys()]
+        .filter((path) => path.startsWith(`${col}/`) && !path.slice(col.length + 1).includes('/'))
+        .filter((path) => filters.every((f) => matches(mockStore.get(path), f)))
+        .map(snap),
+    }),
+    runTransaction: async (_db: unknown, fn: (tx: any) => Promise<unknown>) =>
+      fn({
+        get: async (ref: string) => snap(ref),
+        set: (ref: string, data: any) => mockStore.set(ref, data),
+        update: (ref: string, data: any) => mockStore.set(ref, { ...mockStore.get(ref), ...data }),
+      }),
+  };
+});
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const CODE = 'ABC234';
+const T0 = 1_000_000;
+const ANN = { uid: 'ann', name: 'Ann' };
+const BOB = { uid: 'bob', name: 'Bob' };
+const CAT = { uid: 'cat', name: 'Cat' };
+
+// 2 × 60s work with a 30s rest: 150s in all
+const session = startSession(createSession({ mode: 'rounds', roundsTotal: 2, roundLengthSec: 60, restLengthSec: 30 }), T0);
+
+function run(present: { uid: string; name: string }[], now = T0 + 200_000): PartyRun {
+  return { code: CODE, session, status: 'completed', now, hostUid: 'ann', hostName: 'Ann', present, metric: 'reps' };
+}
+
+function score(who: { uid: string; name: string }, byRound: Record<string, number>) {
+  const total = Object.values(byRound).reduce((sum, n) => sum + n, 0);
+  const data: PartyScore = { ...who, runId: T0, byRound, total };
+  mockStore.set(`parties/${CODE}/scores/${T0}_${who.uid}`, data);
+}
+
+const workouts = (uid: string) => [...mockStore.keys()].filter((path) => path.startsWith(`users/${uid}/workouts/`));
+
+beforeEach(() => {
+  mockStore.clear();
+  score(ANN, { 1: 10, 2: 12 });
+  score(BOB, { 1: 14, 2: 12 });
+});
+
+describe('recordPartyRun', () => {
+  it('writes the shared recap and logs the run to my history', async () => {
+    const id = await recordPartyRun(run([ANN, BOB]), ANN);
+    expect(id).toBe(`${CODE}_${T0}`);
+
+    const recap = mockStore.get(`partyRecaps/${id}`);
+    expect(recap).toMatchObject({
+      programName: '2 × 1 min',
+      roundsCompleted: 2,
+      totalSec: 150,
+      workSec: 120,
+      attendeeUids: ['ann', 'bob'],
+      roundWinners: [
+        { round: 1, names: ['Bob'] },
+        { round: 2, names: ['Ann', 'Bob'] },
+      ],
+    });
+    expect(recap.standings.map((s: any) => [s.name, s.value, s.rank])).toEqual([
+      ['Bob', 26, 1],
+      ['Ann', 22, 2],
+    ]);
+    expect(recap.endedAt.toMillis()).toBe(T0 + 150_000);
+
+    expect(mockStore.get(`users/ann/workouts/party_${id}`)).toMatchObject({
+      kind: 'party',
+      workSec: 120,
+      reps: 22,
+      party: { recapId: id, attendees: 2, rank: 2, value: 22 },
+    });
+  });
+
+  it('tops up the recap for a later phone and keeps the first summary', async () => {
+    const id = await recordPartyRun(run([ANN]), ANN);
+    await recordPartyRun(run([CAT], T0 + 100_000), CAT);
+
+    expect(mockStore.get(`partyRecaps/${id}`)).toMatchObject({ attendeeUids: ['ann', 'bob', 'cat'], totalSec: 150 });
+    expect(mockStore.get(`users/cat/workouts/party_${id}`)).toMatchObject({ totalSec: 150, party: { attendees: 3 } });
+  });
+});
+
+describe('backfillPartyHistory', () => {
+  it('logs recaps I attended but missed, once', async () => {
+    const id = await recordPartyRun(run([ANN, BOB]), ANN);
+    expect(workouts('bob')).toEqual([]);
+
+    await backfillPartyHistory(CODE, 'bob');
+    await backfillPartyHistory(CODE, 'bob');
+    expect(workouts('bob')).toEqual([`users/bob/workouts/party_${id}`]);
+    expect(mockStore.get(`users/bob/workouts/party_${id}`)).toMatchObject({ reps: 26, party: { rank: 1 } });
+
+    await backfillPartyHistory(CODE, 'cat');
+    await backfillPartyHistory('XYZ789', 'ann');
+    expect(workouts('cat')).toEqual([]);
+    expect(workouts('ann')).toHaveLength(1);
+  });
+});
+
+describe('partyRecapText', () => {
+  it('lists who was there and the top of the board', async () => {
+    const id = await recordPartyRun(run([ANN, BOB]), ANN);
+    expect(partyRecapText(mockStore.get(`partyRecaps/${id}`))).toBe(
+      [
+        '🎉 POUNDRR party · 2 × 1 min',
+        '2/2 rounds · 3 min · hosted by Ann',
+        '2 people: Ann, Bob',
+        '',
+        '🏆 Reps',
+        '1. Bob — 26',
+        '2. Ann — 22',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { PartyScore, rankScores } from '../lib/partyScores';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function score(uid: string, byRound: Record<string, number>): PartyScore {
+  const total = Object.values(byRound).reduce((sum, n) => sum + n, 0);
+  return { uid, name: uid[0].toUpperCase() + uid.slice(1), runId: 1, byRound, total };
+}
+
+const SCORES = [score('cat', { 1: 20, 2: 5 }), score('ann', { 1: 10, 2: 15 }), score('bob', { 2: 25 }), score('dan', {})];
+
+describe('rankScores', () => {
+  it('ranks the whole run, with ties sharing a rank and sorted by name', () => {
+    expect(rankScores(SCORES, null)).toEqual([
+      { uid: 'ann', name: 'Ann', value: 25, rank: 1 },
+      { uid: 'bob', name: 'Bob', value: 25, rank: 1 },
+      { uid: 'cat', name: 'Cat', value: 25, rank: 1 },
+    ]);
+  });
+
+  it('ranks one round and leaves out people with nothing logged', () => {
+    expect(rankScores(SCORES, 1).map((s) => [s.uid, s.value, s.rank])).toEqual([
+      ['cat', 20, 1],
+      ['ann', 10, 2],
+    ]);
+    expect(rankScores(SCORES, 2).map((s) => [s.uid, s.rank])).toEqual([
+      ['bob', 1],
+      ['ann', 2],
+      ['cat', 3],
+    ]);
+    expect(rankScores(SCORES, 3)).toEqual([]);
+  });
+
+  it('skips ranks after a tie', () => {
+    const scores = [score('ann', { 1: 5 }), score('bob', { 1: 5 }), score('cat', { 1: 3 })];
+    expect(rankScores(scores, 1).map((s) => s.rank)).toEqual([1, 1, 3]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { EMPTY_CALL, RoundScore, decide, judgeTotals, scoreRound } from '../lib/scorecard';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const NAMES = { red: 'Ali', blue: 'Frazier' };
+const RED = { red: 30, blue: 27 };
+const BLUE = { red: 28, blue: 29 };
+const EVEN = { red: 29, blue: 29 };
+
+describe('scoreRound', () => {
+  it('scores 10-9, or 10-8 when dominant', () => {
+    expect(scoreRound({ ...EMPTY_CALL, winner: 'red' })).toEqual({ red: 10, blue: 9 });
+    expect(scoreRound({ ...EMPTY_CALL, winner: 'blue', dominant: true })).toEqual({ red: 8, blue: 10 });
+    expect(scoreRound(EMPTY_CALL)).toEqual({ red: 10, blue: 10 });
+  });
+
+  it('takes a point per knockdown, down to six', () => {
+    expect(scoreRound({ ...EMPTY_CALL, winner: 'red', blueKd: 2 })).toEqual({ red: 10, blue: 7 });
+    expect(scoreRound({ ...EMPTY_CALL, winner: 'red', dominant: true, blueKd: 4 })).toEqual({ red: 10, blue: 6 });
+    expect(scoreRound({ ...EMPTY_CALL, redKd: 1 })).toEqual({ red: 9, blue: 10 });
+  });
+
+  it('applies deductions after the must', () => {
+    expect(scoreRound({ ...EMPTY_CALL, winner: 'red', redDed: 1 })).toEqual({ red: 9, blue: 9 });
+    expect(scoreRound({ ...EMPTY_CALL, winner: 'red', blueKd: 4, blueDed: 2 })).toEqual({ red: 10, blue: 4 });
+  });
+});
+
+describe('judgeTotals', () => {
+  it('sums each judge separately', () => {
+    const score = (judge: number, round: number, red: number, blue: number): RoundScore => ({
+      ...EMPTY_CALL,
+      judge,
+      round,
+      red,
+      blue,
+    });
+    const scores = [score(0, 1, 10, 9), score(0, 2, 9, 10), score(1, 1, 10, 8)];
+    expect(judgeTotals(scores, 3)).toEqual([
+      { red: 19, blue: 19 },
+      { red: 10, blue: 8 },
+      { red: 0, blue: 0 },
+    ]);
+  });
+});
+
+describe('decide', () => {
+  it('names unanimous, split and majority decisions', () => {
+    expect(decide([RED, RED, RED], NAMES)).toEqual({ result: 'UD', winner: 'red', label: 'Ali wins by unanimous decision' });
+    expect(decide([BLUE, RED, BLUE], NAMES)).toEqual({ result: 'SD', winner: 'blue', label: 'Frazier wins by split decision' });
+    expect(decide([RED, EVEN, RED], NAMES)).toMatchObject({ result: 'MD', winner: 'red' });
+  });
+
+  it('calls level and mostly-even cards a draw', () => {
+    expect(decide([RED, BLUE, EVEN], NAMES)).toEqual({ result: 'draw', winner: null, label: 'Split draw' });
+    expect(decide([EVEN, RED, EVEN], NAMES)).toEqual({ result: 'draw', winner: null, label: 'Majority draw' });
+    expect(decide([EVEN, EVEN, EVEN], NAMES).label).toBe('Unanimous draw');
+  });
+
+  it('keeps the label plain for a single judge', () => {
+    expect(decide([BLUE], NAMES)).toEqual({ result: 'UD', winner: 'blue', label: 'Frazier wins on points' });
+    expect(decide([EVEN], NAMES).label).toBe('Draw');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { DEFAULT_SPARRING_SETTINGS, Fighter, Pairing, planRotation } from '../lib/sparring';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function roster(n: number, bands: (number | null)[] = []): Fighter[] {
+  return Array.from({ length: n }, (_, i) => ({ id: `f${i}`, name: `Fighter ${i}`, band: bands[i] ?? null }));
+}
+
+function plan(fighters: Fighter[], rounds: number, extra = {}) {
+  return planRotation({ ...DEFAULT_SPARRING_SETTINGS, enabled: true, roster: fighters, ...extra }, rounds);
+}
+
+const key = (p: Pairing) => [p.a.id, p.b?.id ?? 'bye'].sort().join('|');
+
+describe('planRotation', () => {
+  it('pairs everyone once per round without repeats until all have met', () => {
+    const rounds = plan(roster(6), 5);
+    expect(rounds).toHaveLength(5);
+    for (const round of rounds) {
+      const ids = round.flatMap((p) => [p.a.id, p.b!.id]);
+      expect(new Set(ids).size).toBe(6);
+    }
+    const pairs = rounds.flat().map(key);
+    expect(new Set(pairs).size).toBe(15);
+  });
+
+  it('spreads byes over an odd roster and lists them last', () => {
+    const rounds = plan(roster(5), 5);
+    const sitting = rounds.map((round) => {
+      expect(round[round.length - 1].b).toBeNull();
+      return round[round.length - 1].a.id;
+    });
+    expect(new Set(sitting).size).toBe(5);
+  });
+
+  it('keeps pairs within one weight band when it can', () => {
+    const fighters = roster(4, [0, 0, 3, 3]);
+    for (const round of plan(fighters, 3, { useBands: true })) {
+      for (const p of round) expect(Math.abs(p.a.band! - p.b!.band!)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('gives the same rotation for the same seed', () => {
+    const fighters = roster(6);
+    const ids = (seed: number) => plan(fighters, 3, { seed }).map((round) => round.map(key));
+    expect(ids(7)).toEqual(ids(7));
+  });
+
+  it('needs two named fighters', () => {
+    expect(plan(roster(1), 3)).toEqual([]);
+    expect(plan([...roster(1), { id: 'x', name: '', band: null }], 3)).toEqual([]);
+    expect(plan(roster(4), 0)).toEqual([]);
+  });
+});
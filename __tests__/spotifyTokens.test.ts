@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+import type { refreshAsync } from 'expo-auth-session';
+
+import type * as Tokens from '../app/(tabs)/spotify/spotifyTokens';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-auth-session', () => ({ refreshAsync: jest.fn() }));
+
+const KEY = 'spotify_tokens';
+
+let tokens: typeof Tokens;
+let AsyncStorage: typeof AsyncStorageStatic;
+let refreshMock: jest.MockedFunction<typeof refreshAsync>;
+
+// The token store caches in module state; load fresh copies (and mocks) per test
+beforeEach(() => {
+  jest.resetModules();
+  AsyncStorage = require('@react-native-async-storage/async-storage'); // the jest mock has no default export
+  refreshMock = require('expo-auth-session').refreshAsync;
+  tokens = require('../app/(tabs)/spotify/spotifyTokens');
+});
+
+async function seed(expiresAt: number) {
+  await AsyncStorage.setItem(KEY, JSON.stringify({ accessToken: 'old-access', refreshToken: 'old-refresh', expiresAt }));
+}
+
+async function stored() {
+  const raw = await AsyncStorage.getItem(KEY);
+  return raw ? JSON.parse(raw) : null;
+}
+
+function refreshed(refreshToken?: string) {
+  return { accessToken: 'new-access', refreshToken, expiresIn: 3600, issuedAt: Math.floor(Date.now() / 1000) } as any;
+}
+
+// A refresh that stays pending until the test settles it
+function refreshInFlight() {
+  const settle = { resolve: (_res: any) => {}, reject: (_e: any) => {} };
+  const started = new Promise<void>((begin) => {
+    refreshMock.mockImplementation(() => {
+      begin();
+      return new Promise((resolve, reject) => Object.assign(settle, { resolve, reject }));
+    });
+  });
+  return { started, settle };
+}
+
+describe('getValidAccessToken', () => {
+  it('throws when nothing is stored', async () => {
+    await expect(tokens.getValidAccessToken()).rejects.toMatchObject({ reason: 'missing' });
+  });
+
+  it('returns a fresh token without refreshing', async () => {
+    await seed(Date.now() + 30 * 60 * 1000);
+    await expect(tokens.getValidAccessToken()).resolves.toBe('old-access');
+    expect(refreshMock).not.toHaveBeenCalled();
+  });
+
+  it('refreshes near expiry with the stored refresh token and keeps it when none comes back', async () => {
+    await seed(Date.now() + 30 * 1000);
+    refreshMock.mockResolvedValue(refreshed());
+    const onChange = jest.fn();
+    tokens.onSpotifyAuthChange(onChange);
+
+    await expect(tokens.getValidAccessToken()).resolves.toBe('new-access');
+    expect(refreshMock).toHaveBeenCalledWith(
+      expect.objectContaining({ clientId: tokens.SPOTIFY_CLIENT_ID, refreshToken: 'old-refresh' }),
+      tokens.SPOTIFY_DISCOVERY
+    );
+    expect(await stored()).toMatchObject({ accessToken: 'new-access', refreshToken: 'old-refresh' });
+    expect(onChange).toHaveBeenCalledWith('connected');
+  });
+
+  it('stores a rotated refresh token', async () => {
+    await seed(Date.now() - 1000);
+    refreshMock.mockResolvedValue(refreshed('rotated-refresh'));
+    await tokens.getValidAccessToken();
+    expect(await stored()).toMatchObject({ refreshToken: 'rotated-refresh' });
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    await seed(Date.now() - 1000);
+    refreshMock.mockResolvedValue(refreshed());
+    const all = await Promise.all([tokens.getValidAccessToken(), tokens.getValidAccessToken(true)]);
+    expect(all).toEqual(['new-access', 'new-access']);
+    expect(refreshMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('forces a refresh of a token that looked fresh', async () => {
+    await seed(Date.now() + 30 * 60 * 1000);
+    refreshMock.mockResolvedValue(refreshed());
+    await expect(tokens.getValidAccessToken(true)).resolves.toBe('new-access');
+  });
+
+  it('keeps the session when the refresh fails for another reason', async () => {
+    await seed(Date.now() - 1000);
+    refreshMock.mockRejectedValue(new Error('Network request failed'));
+    await expect(tokens.getValidAccessToken()).rejects.toThrow('Network request failed');
+    expect(await stored()).toMatchObject({ refreshToken: 'old-refresh' });
+  });
+});
+
+describe('revoked access', () => {
+  it('drops the session and reports it when Spotify answers invalid_grant', async () => {
+    await seed(Date.now() - 1000);
+    refreshMock.mockRejectedValue(Object.assign(new Error('Refresh token revoked'), { code: 'invalid_grant' }));
+    const onChange = jest.fn();
+    tokens.onSpotifyAuthChange(onChange);
+
+    await expect(tokens.getValidAccessToken()).rejects.toMatchObject({ reason: 'revoked' });
+    expect(await stored()).toBeNull();
+    expect(onChange).toHaveBeenCalledWith('revoked');
+    await expect(tokens.hasSpotifySession()).resolves.toBe(false);
+  });
+});
+
+describe('disconnectSpotify', () => {
+  it('forgets the session', async () => {
+    await seed(Date.now() + 30 * 60 * 1000);
+    const onChange = jest.fn();
+    tokens.onSpotifyAuthChange(onChange);
+    await tokens.disconnectSpotify();
+    expect(await stored()).toBeNull();
+    expect(onChange).toHaveBeenCalledWith('disconnected');
+    await expect(tokens.getValidAccessToken()).rejects.toMatchObject({ reason: 'missing' });
+  });
+
+  it('wins over a refresh that was already in flight', async () => {
+    await seed(Date.now() - 1000);
+    const { started, settle } = refreshInFlight();
+    const onChange = jest.fn();
+    tokens.onSpotifyAuthChange(onChange);
+
+    const pending = tokens.getValidAccessToken();
+    await started;
+    await tokens.disconnectSpotify();
+    settle.resolve(refreshed('rotated-refresh'));
+
+    await expect(pending).rejects.toMatchObject({ reason: 'missing' });
+    expect(await stored()).toBeNull();
+    expect(onChange).not.toHaveBeenCalledWith('connected');
+  });
+
+  it('does not report a revoke for a session already disconnected', async () => {
+    await seed(Date.now() - 1000);
+    const { started, settle } = refreshInFlight();
+    const onChange = jest.fn();
+    tokens.onSpotifyAuthChange(onChange);
+
+    const pending = tokens.getValidAccessToken();
+    await started;
+    await tokens.disconnectSpotify();
+    settle.reject(Object.assign(new Error('Refresh token revoked'), { code: 'invalid_grant' }));
+
+    await expect(pending).rejects.toMatchObject({ reason: 'missing' });
+    expect(onChange).not.toHaveBeenCalledWith('revoked');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import {
+  TimerSession,
+  addReps,
+  addTime,
+  buildSchedule,
+  createSession,
+  deriveTimerState,
+  isSessionRunning,
+  jumpToRound,
+  pauseSession,
+  restartStep,
+  resumeSession,
+  skipStep,
+  startSession,
+  summarizeSession,
+  totalLengthSec,
+  undoEdit,
+} from '../lib/timerEngine';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const T0 = 1_000_000;
+const SEC = 1000;
+
+// 3 × 60s work with 30s rests between: W1 0–60, R 60–90, W2 90–150, R 150–180, W3 180–240
+function running(): TimerSession {
+  const session = createSession({ mode: 'rounds', roundsTotal: 3, roundLengthSec: 60, restLengthSec: 30 });
+  return startSession(session, T0);
+}
+
+const at = (sec: number) => T0 + sec * SEC;
+
+describe('deriveTimerState', () => {
+  it('is idle before the start, showing the first step', () => {
+    const state = deriveTimerState(createSession({ roundsTotal: 3, roundLengthSec: 60, restLengthSec: 30 }), T0);
+    expect(state).toMatchObject({ phase: 'idle', stepIndex: -1, remaining: 60, roundsTotal: 3, countdown: 0 });
+  });
+
+  it('counts the lead-in down before round one', () => {
+    const session = startSession(running(), T0, 10 * SEC);
+    expect(deriveTimerState(session, T0 + 2500)).toMatchObject({ phase: 'idle', countdown: 8 });
+    expect(deriveTimerState(session, T0 + 11 * SEC)).toMatchObject({ phase: 'work', currentRound: 1, remaining: 59 });
+  });
+
+  it('walks work and rest from the wall clock', () => {
+    const session = running();
+    expect(deriveTimerState(session, at(75))).toMatchObject({
+      phase: 'rest',
+      currentRound: 1,
+      remaining: 15,
+      stepIndex: 1,
+      next: { kind: 'work', round: 2 },
+    });
+    expect(deriveTimerState(session, at(200))).toMatchObject({ phase: 'work', currentRound: 3, remaining: 40 });
+  });
+
+  it('finishes once the schedule runs out', () => {
+    const state = deriveTimerState(running(), at(240));
+    expect(state).toMatchObject({ phase: 'done', currentRound: 3, stepIndex: 5, remaining: 0, next: null });
+  });
+});
+
+describe('pause and resume', () => {
+  it('freezes the clock while paused', () => {
+    const paused = pauseSession(running(), at(30));
+    expect(isSessionRunning(paused, at(100))).toBe(false);
+    expect(deriveTimerState(paused, at(100))).toMatchObject({ phase: 'work', remaining: 30 });
+  });
+
+  it('picks up where it stopped, with the pause left out', () => {
+    const resumed = resumeSession(pauseSession(running(), at(30)), at(100));
+    expect(resumed.pausedAt).toBeNull();
+    expect(resumed.pausedMs).toBe(70 * SEC);
+    expect(deriveTimerState(resumed, at(130))).toMatchObject({ phase: 'rest', currentRound: 1, remaining: 30 });
+  });
+
+  it('ignores pause during the lead-in and resume while running', () => {
+    const leadIn = startSession(running(), T0, 10 * SEC);
+    expect(pauseSession(leadIn, T0 + SEC)).toBe(leadIn);
+    const session = running();
+    expect(resumeSession(session, at(10))).toBe(session);
+  });
+});
+
+describe('edits replay', () => {
+  it('skip ends the current step and undo brings it back', () => {
+    const skipped = skipStep(running(), at(70));
+    expect(buildSchedule(skipped)[1]).toMatchObject({ kind: 'rest', lengthSec: 10, cut: true });
+    expect(deriveTimerState(skipped, at(71))).toMatchObject({ phase: 'work', currentRound: 2, remaining: 59 });
+    expect(deriveTimerState(undoEdit(skipped), at(71))).toMatchObject({ phase: 'rest', remaining: 19 });
+  });
+
+  it('adds time to the current step, keeping at least a second when taking it off', () => {
+    const longer = addTime(running(), at(20), 30);
+    expect(deriveTimerState(longer, at(80))).toMatchObject({ phase: 'work', currentRound: 1, remaining: 10 });
+    expect(totalLengthSec(longer)).toBe(270);
+
+    const shorter = addTime(running(), at(20), -100);
+    expect(buildSchedule(shorter)[0].lengthSec).toBe(21);
+    expect(deriveTimerState(shorter, at(21))).toMatchObject({ phase: 'rest' });
+  });
+
+  it('restart runs the step again from the top', () => {
+    const again = restartStep(running(), at(30));
+    expect(deriveTimerState(again, at(40))).toMatchObject({ phase: 'work', currentRound: 1, remaining: 50, stepIndex: 1 });
+    expect(totalLengthSec(again)).toBe(270);
+  });
+
+  it('jump continues from the chosen round', () => {
+    const jumped = jumpToRound(running(), at(10), 3);
+    expect(deriveTimerState(jumped, at(11))).toMatchObject({ phase: 'work', currentRound: 3, remaining: 59 });
+    expect(totalLengthSec(jumped)).toBe(70);
+    expect(jumpToRound(running(), at(10), 9).edits).toHaveLength(0);
+  });
+
+  it('replays edits in order against a paused clock', () => {
+    const session = resumeSession(pauseSession(running(), at(30)), at(100));
+    const skipped = skipStep(session, at(100));
+    expect(skipped.edits).toEqual([{ type: 'skip', at: 30 * SEC }]);
+    expect(deriveTimerState(skipped, at(101))).toMatchObject({ phase: 'rest', remaining: 29 });
+  });
+
+  it('refuses edits before the start and after the end', () => {
+    const idle = createSession({ roundsTotal: 3, roundLengthSec: 60, restLengthSec: 30 });
+    expect(skipStep(idle, T0)).toBe(idle);
+    const session = running();
+    expect(skipStep(session, at(300))).toBe(session);
+  });
+});
+
+describe('summarizeSession', () => {
+  it('sums a full run', () => {
+    expect(summarizeSession(running(), at(400))).toEqual({
+      roundsCompleted: 3,
+      roundsTotal: 3,
+      workSec: 180,
+      restSec: 60,
+      totalSec: 240,
+      reps: 0,
+    });
+  });
+
+  it('counts only rounds that ran to the end', () => {
+    expect(summarizeSession(addReps(running(), 12), at(100))).toEqual({
+      roundsCompleted: 1,
+      roundsTotal: 3,
+      workSec: 70,
+      restSec: 30,
+      totalSec: 100,
+      reps: 12,
+    });
+  });
+
+  it('leaves out a skipped round and counts a restarted one once', () => {
+    const skipped = skipStep(running(), at(100));
+    expect(summarizeSession(skipped, at(400))).toMatchObject({ roundsCompleted: 2, workSec: 130, totalSec: 190 });
+
+    const restarted = restartStep(running(), at(30));
+    expect(summarizeSession(restarted, at(400))).toMatchObject({ roundsCompleted: 3, workSec: 210, totalSec: 270 });
+  });
+});
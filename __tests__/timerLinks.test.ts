@@ -0,0 +1,108 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { packProgram, parseTimerLinkParams, timerRouteFromUrl, unpackProgram } from '../lib/timerLinks';
+import { TimerPreset } from '../lib/timerPresets';
+import { MODE_DEFAULTS, exampleProgram, expandProgram } from '../lib/timerProgram';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const SAVED: TimerPreset = {
+  id: 'p1',
+  name: 'Sparring Night',
+  settings: { mode: 'rounds', roundsTotal: 6, roundLengthSec: 120, restLengthSec: 45 },
+  program: null,
+  order: 0,
+  rev: 1,
+  editedAt: 0,
+  dirty: false,
+  deleted: false,
+};
+
+function setup(params: Record<string, string>, saved: TimerPreset[] = []) {
+  const res = parseTimerLinkParams(params, saved);
+  if (!res.ok) throw new Error(res.error);
+  return res.link;
+}
+
+function error(params: Record<string, string>) {
+  const res = parseTimerLinkParams(params, []);
+  return res.ok ? null : res.error;
+}
+
+describe('parseTimerLinkParams', () => {
+  it('keeps the current setup when the link has no setup', () => {
+    expect(setup({})).toEqual({ action: 'open', setup: null });
+    expect(setup({ link: 'pause' })).toEqual({ action: 'pause', setup: null });
+  });
+
+  it('loads explicit settings over the mode defaults', () => {
+    expect(setup({ link: 'load', mode: 'tabata', rounds: '6', work: '40' }).setup).toEqual({
+      settings: { ...MODE_DEFAULTS.tabata, roundsTotal: 6, roundLengthSec: 40 },
+      program: null,
+    });
+  });
+
+  it('finds built-in presets by id and saved presets by name', () => {
+    expect(setup({ link: 'start', preset: 'MMA' }).setup?.settings).toMatchObject({ roundsTotal: 5, roundLengthSec: 300 });
+    expect(setup({ preset: ' sparring night ' }, [SAVED]).setup?.settings).toBe(SAVED.settings);
+    expect(error({ preset: 'Sparring Night' })).toBe('No preset called "Sparring Night".');
+  });
+
+  it('rejects values out of bounds', () => {
+    expect(error({ rounds: '0' })).toMatch(/^Rounds/);
+    expect(error({ rounds: '61' })).toMatch(/^Rounds/);
+    expect(error({ work: '4' })).toMatch(/^Work/);
+    expect(error({ work: '90.5' })).toMatch(/^Work/);
+    expect(error({ rest: '601' })).toMatch(/^Rest/);
+    expect(error({ mode: 'emom', reps: 'lots' })).toMatch(/^Reps/);
+  });
+
+  it('rejects unknown actions and modes, and setups on pause links', () => {
+    expect(error({ link: 'stop' })).toBe('Unknown timer action "stop".');
+    expect(error({ mode: 'hiit' })).toBe('Unknown mode "hiit".');
+    expect(error({ link: 'pause', preset: 'boxing' })).toBe('A pause link cannot change the timer setup.');
+  });
+});
+
+describe('program packing', () => {
+  it('round-trips a program', () => {
+    const program = exampleProgram();
+    const unpacked = unpackProgram(packProgram(program));
+    expect(unpacked?.name).toBe(program.name);
+    expect(expandProgram(unpacked!)).toEqual(expandProgram(program));
+  });
+
+  it('reads a packed program from a link', () => {
+    const link = setup({ link: 'start', program: packProgram(exampleProgram()) });
+    expect(link.setup?.program?.name).toBe('Gym Session');
+  });
+
+  it('rejects damaged or oversized programs', () => {
+    expect(unpackProgram('not json')).toBeNull();
+    expect(unpackProgram('["x",[]]')).toBeNull();
+    expect(unpackProgram('["x",[["sprint","Go",60]]]')).toBeNull();
+    expect(unpackProgram('["x",[[51,1,"Bag",[["work","Bag",60]]]]]')).toBeNull();
+    expect(unpackProgram('["x",[[50,1,"Bag",[["work","Bag",14400]]]]]')).toBeNull(); // over six hours
+    expect(unpackProgram('["x",[["rest","Rest",0]]]')).toBeNull();
+    expect(error({ program: '["x"' })).toBe('The program in this link is damaged or too long.');
+  });
+});
+
+describe('timerRouteFromUrl', () => {
+  it('maps timer links onto the timer tab', () => {
+    const route = timerRouteFromUrl('poundrr://timer/start?preset=mma');
+    expect(route).toMatch(/^\/timer\?/);
+    const params = new URLSearchParams(route!.split('?')[1]);
+    expect(params.get('link')).toBe('start');
+    expect(params.get('preset')).toBe('mma');
+  });
+
+  it('ignores other links and the bare tab', () => {
+    expect(timerRouteFromUrl('poundrr://party/ABC123')).toBeNull();
+    expect(timerRouteFromUrl('poundrr://timer')).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import {
+  TimerPreset,
+  createPreset,
+  deletePreset,
+  movePreset,
+  syncPresets,
+  updatePreset,
+  visiblePresets,
+} from '../lib/timerPresets';
+import { Settings } from '../lib/timerProgram';
+
+// In-memory Firestore: documents by path, with an optional failure for the next write
+const mockStore = new Map<string, any>();
+const mockFail = { write: null as Error | null };
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => {
+  const take = () => {
+    const e = mockFail.write;
+    mockFail.write = null;
+    if (e) throw e;
+  };
+  return {
+    collection: (_db: unknown, ...path: string[]) => path.join('/'),
+    doc: (col: string, id: string) => `${col}/${id}`,
+    serverTimestamp: () => 'now',
+    setDoc: async (ref: string, data: any) => {
+      take();
+      mockStore.set(ref, data);
+    },
+    getDocs: async (col: string) => ({
+      docs: [...mockStore.entries()]
+        .filter(([path]) => path.startsWith(`${col}/`))
+        .map(([path, data]) => ({ id: path.slice(col.length + 1), data: () => data })),
+    }),
+    runTransaction: async (_db: unknown, fn: (tx: any) => Promise<unknown>) => {
+      take();
+      return fn({
+        get: async (ref: string) => ({ exists: () => mockStore.has(ref), data: () => mockStore.get(ref) }),
+        set: (ref: string, data: any) => mockStore.set(ref, data),
+        delete: (ref: string) => mockStore.delete(ref),
+      });
+    },
+  };
+});
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const UID = 'u1';
+const COL = `users/${UID}/timerPresets`;
+const BOXING: Settings = { mode: 'rounds', roundsTotal: 3, roundLengthSec: 180, restLengthSec: 60 };
+
+function synced(id: string, name: string, rev: number, order = 0): TimerPreset {
+  return { id, name, settings: BOXING, program: null, order, rev, editedAt: 1, dirty: false, deleted: false };
+}
+
+function cloud(p: TimerPreset) {
+  const { id, dirty, deleted, ...rest } = p;
+  mockStore.set(`${COL}/${id}`, rest);
+}
+
+beforeEach(() => {
+  mockStore.clear();
+  mockFail.write = null;
+  jest.restoreAllMocks();
+});
+
+describe('local edits', () => {
+  it('drops a deleted preset that never reached the cloud and keeps a tombstone otherwise', () => {
+    const created = createPreset([synced('a', 'Boxing', 1)], 'New', BOXING, null);
+    const fresh = created[1];
+    expect(fresh).toMatchObject({ rev: 0, dirty: true, order: 1 });
+    expect(deletePreset(created, fresh.id).map((p) => p.id)).toEqual(['a']);
+    expect(deletePreset(created, 'a')[0]).toMatchObject({ deleted: true, dirty: true });
+  });
+
+  it('reorders visible presets and marks only the moved ones dirty', () => {
+    const presets = [synced('a', 'A', 1, 0), synced('b', 'B', 1, 1), synced('c', 'C', 1, 2)];
+    const moved = movePreset(presets, 'c', -1);
+    expect(visiblePresets(moved).map((p) => p.id)).toEqual(['a', 'c', 'b']);
+    expect(moved.filter((p) => p.dirty).map((p) => p.id).sort()).toEqual(['b', 'c']);
+    expect(movePreset(presets, 'a', -1)).toBe(presets);
+  });
+});
+
+describe('syncPresets', () => {
+  it('pushes local edits and bumps the revision', async () => {
+    const local = updatePreset([synced('a', 'Boxing', 1)], 'a', { name: 'Boxing 5' });
+    cloud(synced('a', 'Boxing', 1));
+
+    const res = await syncPresets(UID, local);
+    expect(res).toMatchObject({ conflicts: [], outcomes: { a: 'pushed' }, error: null });
+    expect(res.presets).toEqual([expect.objectContaining({ id: 'a', name: 'Boxing 5', rev: 2, dirty: false })]);
+    expect(mockStore.get(`${COL}/a`)).toMatchObject({ name: 'Boxing 5', rev: 2 });
+  });
+
+  it('keeps the cloud edit and saves the local one as a conflict copy', async () => {
+    const local = updatePreset([synced('a', 'Boxing', 1)], 'a', { name: 'Mine' });
+    cloud(synced('a', 'Theirs', 2));
+
+    const res = await syncPresets(UID, local);
+    expect(res.conflicts).toEqual(['Mine']);
+    expect(res.outcomes.a).toBe('conflict');
+    expect(res.error).toBeNull();
+
+    const names = res.presets.map((p) => p.name).sort();
+    expect(names).toEqual(['Mine (conflict)', 'Theirs']);
+    const copy = res.presets.find((p) => p.name === 'Mine (conflict)')!;
+    expect(copy).toMatchObject({ rev: 1, dirty: false });
+    expect(res.outcomes[copy.id]).toBe('pushed');
+    expect(mockStore.get(`${COL}/a`)).toMatchObject({ name: 'Theirs', rev: 2 });
+  });
+
+  it('keeps a preset deleted here but edited elsewhere', async () => {
+    const local = deletePreset([synced('a', 'Boxing', 1)], 'a');
+    cloud(synced('a', 'Edited', 2));
+
+    const res = await syncPresets(UID, local);
+    expect(res.conflicts).toEqual([]);
+    expect(res.presets).toEqual([expect.objectContaining({ id: 'a', name: 'Edited', deleted: false })]);
+  });
+
+  it('removes a pushed delete from the cloud', async () => {
+    cloud(synced('a', 'Boxing', 1));
+    const res = await syncPresets(UID, deletePreset([synced('a', 'Boxing', 1)], 'a'));
+    expect(res.outcomes.a).toBe('pushed');
+    expect(res.presets).toEqual([]);
+    expect(mockStore.has(`${COL}/a`)).toBe(false);
+  });
+
+  it('leaves a failed push queued over the pulled copy', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const local = updatePreset([synced('a', 'Boxing', 1)], 'a', { name: 'Offline edit' });
+    cloud(synced('a', 'Boxing', 1));
+    const offline = new Error('unavailable');
+    mockFail.write = offline;
+
+    const res = await syncPresets(UID, local);
+    expect(res.outcomes.a).toBe('failed');
+    expect(res.error).toBe(offline);
+    expect(res.presets).toEqual([expect.objectContaining({ id: 'a', name: 'Offline edit', rev: 1, dirty: true })]);
+  });
+});
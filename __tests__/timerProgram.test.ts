@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  Program,
+  countRounds,
+  exampleProgram,
+  expandProgram,
+  isProgram,
+  makeRepeat,
+  makeSegment,
+  programFromSettings,
+  programLengthSec,
+} from '../lib/timerProgram';
+
+describe('expandProgram', () => {
+  it('repeats blocks and numbers rounds by work steps', () => {
+    const program: Program = {
+      name: 'Test',
+      items: [
+        makeSegment('warmup', 60),
+        makeRepeat('Bag', 2, [makeSegment('work', 30, 'Bag'), makeSegment('rest', 10)]),
+        makeSegment('cooldown', 60),
+      ],
+    };
+    expect(expandProgram(program)).toEqual([
+      { kind: 'warmup', label: 'Warm-up', round: 1, lengthSec: 60 },
+      { kind: 'work', label: 'Bag', round: 1, lengthSec: 30 },
+      { kind: 'rest', label: 'Rest', round: 1, lengthSec: 10 },
+      { kind: 'work', label: 'Bag', round: 2, lengthSec: 30 },
+      { kind: 'cooldown', label: 'Cool-down', round: 2, lengthSec: 60 },
+    ]);
+  });
+
+  it('keeps the last rest when the block asks for it and drops empty segments', () => {
+    const block = { ...makeRepeat('Rounds', 2, [makeSegment('work', 30), makeSegment('rest', 10)]), skipLastRest: false };
+    const steps = expandProgram({ name: 'Test', items: [block, makeSegment('rest', 0)] });
+    expect(steps.map((s) => s.kind)).toEqual(['work', 'rest', 'work', 'rest']);
+  });
+
+  it('matches the quick settings it was built from', () => {
+    const program = programFromSettings({ mode: 'rounds', roundsTotal: 3, roundLengthSec: 180, restLengthSec: 60 });
+    expect(countRounds(program)).toBe(3);
+    expect(programLengthSec(program)).toBe(3 * 180 + 2 * 60);
+    expect(countRounds(exampleProgram())).toBe(9);
+  });
+});
+
+describe('isProgram', () => {
+  it('accepts a built program', () => {
+    expect(isProgram(exampleProgram())).toBe(true);
+    expect(isProgram(JSON.parse(JSON.stringify(exampleProgram())))).toBe(true);
+  });
+
+  it('rejects malformed input', () => {
+    expect(isProgram(null)).toBe(false);
+    expect(isProgram({ name: 'x' })).toBe(false);
+    expect(isProgram({ name: 'x', items: [{ ...makeSegment('work', 30), kind: 'sprint' }] })).toBe(false);
+    expect(isProgram({ name: 'x', items: [{ ...makeSegment('work', 30), durationSec: -1 }] })).toBe(false);
+    expect(isProgram({ name: 'x', items: [{ ...makeRepeat('Bag', 2, []), times: 0 }] })).toBe(false);
+    expect(isProgram({ name: 'x', items: [{ ...makeRepeat('Bag', 2, []), skipLastRest: 'yes' }] })).toBe(false);
+  });
+});
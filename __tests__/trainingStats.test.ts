@@ -0,0 +1,71 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { StatsEntry, computeTrainingStats, toStatsEntries } from '../lib/trainingStats';
+
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({}));
+
+// Wednesday 14 Oct 2026, local time
+const NOW = new Date(2026, 9, 14, 12);
+
+function on(day: number, rounds = 3, workSec = 540, month = 9): StatsEntry {
+  return { at: new Date(2026, month, day, 18).getTime(), rounds, workSec };
+}
+
+describe('toStatsEntries', () => {
+  it('leaves out runs with no work time', () => {
+    const row = (workSec: number) => ({ workSec, roundsCompleted: 2, startedAt: { toMillis: () => 5 } });
+    expect(toStatsEntries([row(0), row(120)] as any)).toEqual([{ at: 5, rounds: 2, workSec: 120 }]);
+  });
+});
+
+describe('computeTrainingStats', () => {
+  it('buckets sessions into Monday weeks and calendar months', () => {
+    const stats = computeTrainingStats([on(11), on(12), on(13, 5, 600), on(20, 1, 60, 8)], NOW, { weeks: 2, months: 2 });
+    expect(stats.weekly).toEqual([
+      { key: '2026-10-05', label: '5/10', sessions: 1, rounds: 3, workMin: 9 },
+      { key: '2026-10-12', label: '12/10', sessions: 2, rounds: 8, workMin: 19 },
+    ]);
+    expect(stats.monthly.map((m) => [m.label, m.sessions])).toEqual([
+      ['Sep', 1],
+      ['Oct', 3],
+    ]);
+  });
+
+  it('counts the current streak only up to yesterday', () => {
+    const earlier = [on(1), on(2), on(3), on(4), on(5)];
+    expect(computeTrainingStats([...earlier, on(12), on(13)], NOW)).toMatchObject({ currentStreak: 2, longestStreak: 5 });
+    expect(computeTrainingStats([...earlier, on(12)], NOW).currentStreak).toBe(0);
+    expect(computeTrainingStats([on(13), on(14), on(14)], NOW).currentStreak).toBe(2);
+  });
+
+  it('counts sessions per day within the heatmap window', () => {
+    const stats = computeTrainingStats([on(14), on(14), on(10), on(1, 3, 540, 8)], NOW, { heatmapDays: 30 });
+    expect(stats.heatmap).toEqual(
+      expect.arrayContaining([
+        { date: '2026-10-14', count: 2 },
+        { date: '2026-10-10', count: 1 },
+      ])
+    );
+    expect(stats.heatmap).toHaveLength(2);
+  });
+
+  it('keeps all-time bests', () => {
+    const stats = computeTrainingStats([on(1, 12, 2400, 0), on(2, 4, 600, 0), on(13)], NOW);
+    expect(stats.bests).toEqual({
+      mostRounds: 12,
+      longestWorkMin: 40,
+      bestWeekWorkMin: 50,
+      bestWeekSessions: 2,
+      longestStreak: 2,
+    });
+    expect(stats.totalSessions).toBe(3);
+  });
+
+  it('is empty with no sessions', () => {
+    const stats = computeTrainingStats([], NOW);
+    expect(stats).toMatchObject({ currentStreak: 0, longestStreak: 0, heatmap: [], totalSessions: 0 });
+    expect(stats.bests.bestWeekSessions).toBe(0);
+    expect(stats.weekly).toHaveLength(8);
+  });
+});
@@ -0,0 +1,200 @@
+// File: app/(tabs)/party/LocalParty.tsx
+
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, Share, Text, TextInput, View } from "react-native";
+import { useLocalParty } from "../../../hooks/useLocalParty";
+import { PartyMember } from "../../../hooks/usePartyRoom";
+import {
+  LOCAL_GUEST_MAX,
+  addGuest,
+  localPartyText,
+  localScores,
+  recordResult,
+  removeGuest,
+} from "../../../lib/localParty";
+import { METRIC_LABELS, METRIC_STEPS, SCORE_METRICS, rankScores } from "../../../lib/partyScores";
+import PartyParticipantList from "./PartyParticipantList";
+import styles from "./partyStyles";
+import PartyTimer from "./PartyTimer";
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+/** Single-phone party: guests without accounts, results tapped in by the host. */
+export default function LocalParty({ onExit }: { onExit: () => void }) {
+  const { ready, party, change, timer, clearResults } = useLocalParty();
+  const [draft, setDraft] = useState("");
+  const [turn, setTurn] = useState(0); // whose results are on screen
+  const { state } = timer;
+
+  // Results go on the round in progress; rest still counts for the round just finished
+  const round = Math.max(1, state.currentRound);
+  const scores = useMemo(() => localScores(party), [party]);
+  const standings = useMemo(() => rankScores(scores, null), [scores]);
+  const steps = METRIC_STEPS[party.metric];
+
+  // Guests shown through the shared participant list; everyone is "here" on this phone
+  const members: PartyMember[] = party.guests.map((g) => ({
+    uid: g.id,
+    name: g.name,
+    photoURL: null,
+    status: "online",
+  }));
+
+  const guest = party.guests[Math.min(turn, party.guests.length - 1)];
+  const count = guest ? party.results[guest.id]?.[String(round)] ?? 0 : 0;
+
+  const onAdd = () => {
+    if (party.guests.length >= LOCAL_GUEST_MAX) {
+      Alert.alert("Roster full", `Pass & play holds up to ${LOCAL_GUEST_MAX} guests.`);
+      return;
+    }
+    change((p) => addGuest(p, draft));
+    setDraft("");
+  };
+
+  const step = (delta: number) => {
+    const n = party.guests.length;
+    if (n > 0) setTurn((t) => (Math.min(t, n - 1) + delta + n) % n);
+  };
+
+  const onExport = async () => {
+    try {
+      await Share.share({ message: localPartyText(party), title: "Party results" });
+    } catch (error) {
+      console.warn("[local-party] share error:", error);
+    }
+  };
+
+  const onClear = () =>
+    Alert.alert("Clear results?", "Everyone's numbers are wiped; the roster stays.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Clear", style: "destructive", onPress: clearResults },
+    ]);
+
+  if (!ready) {
+    return (
+      <View style={[styles.root, styles.center]}>
+        <ActivityIndicator color="#fff" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+      <Text style={styles.title}>🎲 Pass & Play</Text>
+      <Text style={[styles.syncText, { marginBottom: 12 }]}>One phone, no accounts · saved on this device</Text>
+
+      <PartyTimer timer={timer} isHost local />
+
+      {/* Roster tapper */}
+      <View style={styles.participantBox}>
+        <Text style={styles.subTitle}>
+          ✍️ Round {round} · {METRIC_LABELS[party.metric]}
+        </Text>
+        {guest ? (
+          <>
+            <Text style={styles.phaseText}>{guest.name}</Text>
+            <Text style={styles.logCount}>{count}</Text>
+            <View style={styles.logRow}>
+              <Pressable
+                style={[styles.logBtn, styles.logBtnMinus]}
+                onPress={() => change((p) => recordResult(p, guest.id, round, -steps[0]))}
+                disabled={count === 0}
+              >
+                <Text style={styles.addBtnTxt}>−{steps[0]}</Text>
+              </Pressable>
+              {steps.map((n) => (
+                <Pressable
+                  key={n}
+                  style={styles.logBtn}
+                  onPress={() => change((p) => recordResult(p, guest.id, round, n))}
+                >
+                  <Text style={styles.addBtnTxt}>+{n}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={styles.logRow}>
+              <Pressable style={[styles.logBtn, styles.logBtnMinus]} onPress={() => step(-1)}>
+                <Text style={styles.addBtnTxt}>‹ Prev</Text>
+              </Pressable>
+              <Pressable style={[styles.logBtn, styles.logBtnMinus]} onPress={() => step(1)}>
+                <Text style={styles.addBtnTxt}>Next ›</Text>
+              </Pressable>
+            </View>
+          </>
+        ) : (
+          <Text style={styles.syncText}>Add guests below to start recording</Text>
+        )}
+
+        <View style={styles.chipRow}>
+          {SCORE_METRICS.map((m) => (
+            <Pressable
+              key={m}
+              style={[styles.chip, m === party.metric && styles.chipActive]}
+              onPress={() => change((p) => ({ ...p, metric: m }))}
+            >
+              <Text style={styles.chipTxt}>{METRIC_LABELS[m]}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {/* Standings */}
+      {standings.length > 0 && (
+        <View style={styles.participantBox}>
+          <Text style={styles.subTitle}>🏆 Standings</Text>
+          {standings.map((s) => (
+            <View key={s.uid} style={styles.memberRow}>
+              <Text style={styles.rankText}>{MEDALS[s.rank - 1] ?? s.rank}</Text>
+              <Text style={[styles.participantItem, { flex: 1 }]} numberOfLines={1}>
+                {s.name}
+              </Text>
+              <Text style={styles.rankValue}>{s.value}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Roster */}
+      <View style={styles.joinBox}>
+        <Text style={styles.subTitle}>Add a guest</Text>
+        <TextInput
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Name"
+          placeholderTextColor="#666"
+          style={[styles.codeInput, { fontSize: 18, letterSpacing: 0 }]}
+          onSubmitEditing={onAdd}
+        />
+        <Pressable
+          style={[styles.joinBtn, !draft.trim() && { opacity: 0.5 }]}
+          onPress={onAdd}
+          disabled={!draft.trim()}
+        >
+          <Text style={styles.addBtnTxt}>＋ Add</Text>
+        </Pressable>
+      </View>
+
+      <PartyParticipantList
+        members={members}
+        hostUid={null}
+        myUid=""
+        isHost
+        onKick={(member) => change((p) => removeGuest(p, member.uid))}
+      />
+
+      <Pressable style={styles.addBtn} onPress={onExport} disabled={standings.length === 0}>
+        <Text style={styles.addBtnTxt}>Export Results</Text>
+      </Pressable>
+      <Text style={styles.syncText}>Host a cloud party later and attach these results from the room.</Text>
+
+      <Pressable style={styles.backBtn} onPress={onClear}>
+        <Text style={styles.backBtnTxt}>Clear Results</Text>
+      </Pressable>
+
+      <Pressable style={styles.backBtn} onPress={onExit}>
+        <Text style={styles.backBtnTxt}>← Back to Party Mode</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,44 @@
+// File: app/(tabs)/party/PartyInviteSheet.tsx
+
+import { Pressable, Share, Text, View } from "react-native";
+import QRCode from "react-native-qrcode-svg";
+import { createPartyLink } from "../../../lib/partyLinks";
+import styles from "./partyStyles";
+
+type Props = {
+  code: string;
+  onClose: () => void;
+};
+
+/** QR + link for a room; scanning with any camera opens the party tab and joins. */
+export default function PartyInviteSheet({ code, onClose }: Props) {
+  const link = createPartyLink(code);
+
+  const shareLink = async () => {
+    try {
+      await Share.share({ message: `Join my POUNDRR party (code ${code}): ${link}`, url: link });
+    } catch (error) {
+      console.warn("[party] share error:", error);
+    }
+  };
+
+  return (
+    <View style={styles.sheetBackdrop}>
+      <View style={styles.sheet}>
+        <Text style={styles.subTitle}>Invite to party</Text>
+        <View style={styles.qrBox}>
+          <QRCode value={link} size={220} backgroundColor="#fff" color="#000" />
+        </View>
+        <Text style={styles.codeText}>{code}</Text>
+        <Text style={styles.syncText}>Scan with a phone camera, or enter the code under Join.</Text>
+
+        <Pressable style={styles.addBtn} onPress={shareLink}>
+          <Text style={styles.addBtnTxt}>Share Invite Link</Text>
+        </Pressable>
+        <Pressable style={styles.backBtn} onPress={onClose}>
+          <Text style={styles.backBtnTxt}>Done</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,149 @@
+// File: app/(tabs)/party/PartyLeaderboard.tsx
+
+import { useEffect, useMemo, useState } from "react";
+import { Alert, Pressable, Text, View } from "react-native";
+import { usePartyLeaderboard } from "../../../hooks/usePartyLeaderboard";
+import { UsePartyTimer } from "../../../hooks/usePartyTimer";
+import {
+  METRIC_LABELS,
+  METRIC_STEPS,
+  SCORE_METRICS,
+  ScoreMetric,
+  logScore,
+  rankScores,
+  setScoreMetric,
+} from "../../../lib/partyScores";
+import styles from "./partyStyles";
+
+type Props = {
+  code: string;
+  timer: UsePartyTimer;
+  me: { uid: string; name: string };
+  isHost: boolean;
+  metric: ScoreMetric;
+};
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+export default function PartyLeaderboard({ code, timer, me, isHost, metric }: Props) {
+  const { session, state } = timer;
+
+  // Keep the last run's board after a reset so final standings stay up until the next start
+  const [runId, setRunId] = useState<number | null>(session.startedAt);
+  useEffect(() => {
+    if (session.startedAt != null) setRunId(session.startedAt);
+  }, [session.startedAt]);
+
+  const scores = usePartyLeaderboard(code, runId);
+  const [view, setView] = useState<number | "total">("total");
+
+  const live = session.startedAt != null && state.phase !== "idle" && state.phase !== "done";
+  const finished = runId != null && !live;
+  const round = state.currentRound;
+
+  // Follow the live round; once the run is over, default to the overall result
+  useEffect(() => {
+    setView(live ? round : "total");
+  }, [live, round]);
+
+  const rounds = useMemo(() => {
+    const seen = new Set<number>();
+    scores.forEach((s) => Object.keys(s.byRound ?? {}).forEach((r) => seen.add(Number(r))));
+    if (live) seen.add(round);
+    return [...seen].sort((a, b) => a - b);
+  }, [scores, live, round]);
+
+  const standings = useMemo(() => rankScores(scores, view === "total" ? null : view), [scores, view]);
+  const mine = scores.find((s) => s.uid === me.uid)?.byRound?.[String(round)] ?? 0;
+  const steps = METRIC_STEPS[metric];
+
+  const log = async (delta: number) => {
+    if (runId == null) return;
+    try {
+      await logScore(code, runId, me, round, delta);
+    } catch (error) {
+      console.warn("[party] log score error:", error);
+      Alert.alert("Error", "Could not log that. Check your connection.");
+    }
+  };
+
+  const pickMetric = async (next: ScoreMetric) => {
+    try {
+      await setScoreMetric(code, me.uid, next);
+    } catch (error: any) {
+      console.warn("[party] metric error:", error);
+      Alert.alert("Error", error?.message ?? "Could not change what's counted.");
+    }
+  };
+
+  return (
+    <View style={styles.participantBox}>
+      <Text style={styles.subTitle}>
+        🏆 {finished ? "Final standings" : "Leaderboard"} · {METRIC_LABELS[metric]}
+      </Text>
+
+      {isHost && !live && (
+        <View style={styles.chipRow}>
+          {SCORE_METRICS.map((m) => (
+            <Pressable key={m} style={[styles.chip, m === metric && styles.chipActive]} onPress={() => pickMetric(m)}>
+              <Text style={styles.chipTxt}>{METRIC_LABELS[m]}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {live ? (
+        <>
+          <Text style={styles.syncText}>Your {METRIC_LABELS[metric].toLowerCase()} this round</Text>
+          <Text style={styles.logCount}>{mine}</Text>
+          <View style={styles.logRow}>
+            <Pressable
+              style={[styles.logBtn, styles.logBtnMinus]}
+              onPress={() => log(-steps[0])}
+              disabled={mine < steps[0]}
+            >
+              <Text style={styles.addBtnTxt}>−{steps[0]}</Text>
+            </Pressable>
+            {steps.map((n) => (
+              <Pressable key={n} style={styles.logBtn} onPress={() => log(n)}>
+                <Text style={styles.addBtnTxt}>+{n}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : (
+        <Text style={styles.syncText}>
+          {finished ? "Start the timer again for a fresh board" : "Log from your phone once the timer starts"}
+        </Text>
+      )}
+
+      {rounds.length > 0 && (
+        <View style={styles.chipRow}>
+          {rounds.map((r) => (
+            <Pressable key={r} style={[styles.chip, view === r && styles.chipActive]} onPress={() => setView(r)}>
+              <Text style={styles.chipTxt}>R{r}</Text>
+            </Pressable>
+          ))}
+          <Pressable style={[styles.chip, view === "total" && styles.chipActive]} onPress={() => setView("total")}>
+            <Text style={styles.chipTxt}>Total</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {standings.length === 0 ? (
+        <Text style={styles.syncText}>Nothing logged yet</Text>
+      ) : (
+        standings.map((s) => (
+          <View key={s.uid} style={styles.memberRow}>
+            <Text style={styles.rankText}>{MEDALS[s.rank - 1] ?? s.rank}</Text>
+            <Text style={[styles.participantItem, { flex: 1 }]} numberOfLines={1}>
+              {s.name}
+              {s.uid === me.uid ? " (you)" : ""}
+            </Text>
+            <Text style={styles.rankValue}>{s.value}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
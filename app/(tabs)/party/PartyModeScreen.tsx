@@ -1,69 +1,327 @@
 // File: app/(tabs)/party/PartyModeScreen.tsx
 
 import { useNavigation } from "@react-navigation/native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import { useAuthUid } from "../../../hooks/useAuthUid";
+import { usePartyRecap } from "../../../hooks/usePartyRecap";
+import { PartyMember, usePartyRoom } from "../../../hooks/usePartyRoom";
+import { usePartyTimer } from "../../../hooks/usePartyTimer";
+import { attachLocalParty, loadLocalParty } from "../../../lib/localParty";
 import {
-    addDoc,
-    collection,
-    onSnapshot,
-    query,
-    serverTimestamp,
-} from "firebase/firestore";
-import { useEffect, useState } from "react";
-import { Alert, Pressable, Text, View } from "react-native";
-// Update the import path below to the correct relative path for your project structure.
-// For example, if firebase.ts is in the root directory:
-import { db } from "../../../firebase";
+  PARTY_CODE_LENGTH,
+  createParty,
+  joinParty,
+  loadLastPartyCode,
+  normalizePartyCode,
+  saveLastPartyCode,
+} from "../../../lib/party";
+import { claimHost, kickParticipant, leaveParty, transferHost } from "../../../lib/partyPresence";
+import LocalParty from "./LocalParty";
+import PartyInviteSheet from "./PartyInviteSheet";
+import PartyLeaderboard from "./PartyLeaderboard";
 import PartyParticipantList from "./PartyParticipantList";
+import PartyScanner from "./PartyScanner";
 import styles from "./partyStyles";
 import PartyTimer from "./PartyTimer";
 
 export default function PartyModeScreen() {
   const navigation = useNavigation();
-  const [participants, setParticipants] = useState<string[]>([]);
+  const router = useRouter();
+  const params = useLocalSearchParams<{ join?: string; nonce?: string }>();
+  const { uid } = useAuthUid();
+  const [code, setCode] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [scanning, setScanning] = useState(false);
+  const [local, setLocal] = useState(false);
+  const handledLinkRef = useRef<string | null>(null);
 
-  // Subscribe to Firestore participants collection
+  // Rejoin the last room if it's still alive
   useEffect(() => {
-    const q = query(collection(db, "partyParticipants"));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      setParticipants(snapshot.docs.map((doc) => doc.data().name as string));
-    });
+    if (!uid) return;
+    (async () => {
+      const last = await loadLastPartyCode();
+      if (last) {
+        try {
+          setCode(await joinParty(last, uid));
+        } catch {
+          await saveLastPartyCode(null);
+        }
+      }
+      setRestoring(false);
+    })();
+  }, [uid]);
+
+  const enter = useCallback(async (next: string) => {
+    setCode(next);
+    setDraft("");
+    await saveLastPartyCode(next);
+  }, []);
 
-    return () => unsubscribe();
+  const exit = useCallback(async () => {
+    setCode(null);
+    await saveLastPartyCode(null);
   }, []);
 
-  // Add a new participant
-  const addParticipant = async () => {
+  const onCreate = async () => {
+    if (!uid) return;
+    setBusy(true);
     try {
-      const name = `Guest${participants.length + 1}`;
-      await addDoc(collection(db, "partyParticipants"), {
-        name,
-        joinedAt: serverTimestamp(),
-      });
+      await enter(await createParty(uid));
     } catch (error) {
-      console.error("Error adding participant:", error);
-      Alert.alert("Error", "Could not add participant.");
+      console.warn("[party] create error:", error);
+      Alert.alert("Error", "Could not create a party.");
+    } finally {
+      setBusy(false);
     }
   };
 
+  // Typed, scanned and linked codes all end up here; expired / full rooms explain themselves
+  const joinCode = useCallback(
+    async (next: string) => {
+      if (!uid) return;
+      setBusy(true);
+      try {
+        await enter(await joinParty(next, uid));
+      } catch (error: any) {
+        Alert.alert("Can't join", error?.message ?? "Could not join that party.");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [uid, enter]
+  );
+
+  const onJoin = () => joinCode(draft);
+
+  const onScanned = (next: string) => {
+    setScanning(false);
+    void joinCode(next);
+  };
+
+  // Invite links arrive as /party?join=CODE&nonce=… (see app/+native-intent.tsx)
+  useEffect(() => {
+    const target = params.join;
+    if (!uid || restoring || !target || !params.nonce || handledLinkRef.current === params.nonce) return;
+    handledLinkRef.current = params.nonce;
+    router.setParams({ join: undefined, nonce: undefined });
+    if (target === code) return;
+    if (!code) {
+      void joinCode(target);
+      return;
+    }
+    const current = code;
+    Alert.alert("Switch parties?", `Leave party ${current} and join ${target}?`, [
+      { text: "Stay", style: "cancel" },
+      {
+        text: "Switch",
+        onPress: async () => {
+          try {
+            await leaveParty(current, uid, Date.now()); // no room clock out here; local time is close enough
+          } catch (error) {
+            console.warn("[party] leave error:", error);
+          }
+          await joinCode(target);
+        },
+      },
+    ]);
+  }, [params.join, params.nonce, uid, restoring, code, joinCode, router]);
+
+  if (local) return <LocalParty onExit={() => setLocal(false)} />;
+
+  if (!uid) {
+    return (
+      <View style={[styles.root, styles.center]}>
+        <Text style={styles.title}>🎉 Party Mode</Text>
+        <Text style={styles.participantItem}>Sign in to host or join a party.</Text>
+        <Pressable style={styles.addBtn} onPress={() => router.replace("/login")}>
+          <Text style={styles.addBtnTxt}>Go to Login</Text>
+        </Pressable>
+        <Pressable style={styles.backBtn} onPress={() => setLocal(true)}>
+          <Text style={styles.backBtnTxt}>🎲 Pass & Play on this phone</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (restoring) {
+    return (
+      <View style={[styles.root, styles.center]}>
+        <ActivityIndicator color="#fff" />
+      </View>
+    );
+  }
+
+  if (code) return <PartyRoom key={code} code={code} uid={uid} onExit={exit} />;
+
   return (
     <View style={styles.root}>
       <Text style={styles.title}>🎉 Party Mode</Text>
 
+      <Pressable style={styles.addBtn} onPress={onCreate} disabled={busy}>
+        <Text style={styles.addBtnTxt}>＋ Create Party</Text>
+      </Pressable>
+
+      <View style={styles.joinBox}>
+        <Text style={styles.subTitle}>Join with a code</Text>
+        <TextInput
+          value={draft}
+          onChangeText={(v) => setDraft(normalizePartyCode(v).slice(0, PARTY_CODE_LENGTH))}
+          placeholder="ABC123"
+          placeholderTextColor="#666"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          style={styles.codeInput}
+          onSubmitEditing={onJoin}
+        />
+        <Pressable
+          style={[styles.joinBtn, draft.length !== PARTY_CODE_LENGTH && { opacity: 0.5 }]}
+          onPress={onJoin}
+          disabled={busy || draft.length !== PARTY_CODE_LENGTH}
+        >
+          <Text style={styles.addBtnTxt}>Join</Text>
+        </Pressable>
+      </View>
+
+      <Pressable style={styles.joinBtn} onPress={() => setScanning(true)} disabled={busy}>
+        <Text style={styles.addBtnTxt}>📷 Scan Invite QR</Text>
+      </Pressable>
+
+      <Pressable style={styles.backBtn} onPress={() => setLocal(true)} disabled={busy}>
+        <Text style={styles.backBtnTxt}>🎲 Pass & Play (no accounts)</Text>
+      </Pressable>
+
+      {busy && <ActivityIndicator color="#fff" style={{ marginTop: 16 }} />}
+
+      <Modal visible={scanning} animationType="slide" onRequestClose={() => setScanning(false)}>
+        {scanning && <PartyScanner onCode={onScanned} onClose={() => setScanning(false)} />}
+      </Modal>
+
+      {/* Back button */}
+      <Pressable style={styles.backBtn} onPress={() => navigation.goBack()}>
+        <Text style={styles.backBtnTxt}>← Back to Timer</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+function PartyRoom({ code, uid, onExit }: { code: string; uid: string; onExit: () => Promise<void> }) {
+  const navigation = useNavigation();
+  const router = useRouter();
+  const timer = usePartyTimer(code, uid);
+  const { party, members, isHost, hostGone, ended, removed } = usePartyRoom(code, uid, timer.serverNow);
+  const [inviting, setInviting] = useState(false);
+  const recapId = usePartyRecap(code, uid, timer, party, members);
+
+  // Drop back to the lobby when the room expires or the host removes us
+  useEffect(() => {
+    if (!ended && !removed) return;
+    Alert.alert(
+      removed ? "Removed" : "Party ended",
+      removed ? "The host removed you from this party." : "This party expired after being inactive."
+    );
+    void onExit();
+  }, [ended, removed, onExit]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error: any) {
+      console.warn("[party] host action error:", error);
+      Alert.alert("Error", error?.message ?? "Something went wrong.");
+    }
+  };
+
+  const onLeave = () =>
+    run(async () => {
+      await leaveParty(code, uid, timer.serverNow());
+      await onExit();
+    });
+
+  const onKick = (member: PartyMember) => run(() => kickParticipant(code, uid, member.uid));
+  const onMakeHost = (member: PartyMember) => run(() => transferHost(code, uid, member.uid));
+  const myName = members.find((m) => m.uid === uid)?.name ?? "Player";
+
+  // Pass-and-play guests land on the current run's board, next to everyone signed in
+  const onAttachLocal = () =>
+    run(async () => {
+      const runId = timer.session.startedAt;
+      if (runId == null) throw new Error("Start the timer first, then attach guests to this run.");
+      const attached = await attachLocalParty(code, runId, await loadLocalParty());
+      Alert.alert(
+        attached ? "Guests added" : "Nothing to attach",
+        attached
+          ? `${attached} pass & play ${attached === 1 ? "guest is" : "guests are"} now on the leaderboard.`
+          : "There are no pass & play results on this phone."
+      );
+    });
+
+  return (
+    <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+      <Text style={styles.title}>🎉 Party Mode</Text>
+
+      {/* Room code */}
+      <Pressable style={styles.codeBox} onPress={() => setInviting(true)}>
+        <Text style={styles.codeLabel}>Party code · tap for QR invite</Text>
+        <Text style={styles.codeText}>{code}</Text>
+      </Pressable>
+
       {/* Timer */}
-      <PartyTimer />
+      <PartyTimer timer={timer} isHost={isHost} />
+
+      {!isHost && hostGone && (
+        <Pressable style={styles.joinBtn} onPress={() => run(() => claimHost(code, uid, timer.serverNow()))}>
+          <Text style={styles.addBtnTxt}>Host left · Take over</Text>
+        </Pressable>
+      )}
+
+      {/* Leaderboard */}
+      <PartyLeaderboard
+        code={code}
+        timer={timer}
+        me={{ uid, name: myName }}
+        isHost={isHost}
+        metric={party?.scoreMetric ?? "reps"}
+      />
+
+      {!!recapId && (
+        <Pressable style={styles.joinBtn} onPress={() => router.push(`/profile/party-recap/${recapId}`)}>
+          <Text style={styles.addBtnTxt}>🎉 View recap · saved to your history</Text>
+        </Pressable>
+      )}
+
+      {isHost && (
+        <Pressable style={styles.backBtn} onPress={onAttachLocal}>
+          <Text style={styles.backBtnTxt}>🎲 Attach pass & play results</Text>
+        </Pressable>
+      )}
 
       {/* Participants */}
-      <PartyParticipantList participants={participants} />
+      <PartyParticipantList
+        members={members}
+        hostUid={party?.hostUid ?? null}
+        myUid={uid}
+        isHost={isHost}
+        onKick={onKick}
+        onMakeHost={onMakeHost}
+      />
 
-      {/* Add participant button */}
-      <Pressable style={styles.addBtn} onPress={addParticipant}>
-        <Text style={styles.addBtnTxt}>+ Add Participant</Text>
+      {/* Leave button */}
+      <Pressable style={styles.backBtn} onPress={onLeave}>
+        <Text style={styles.backBtnTxt}>Leave Party</Text>
       </Pressable>
 
       {/* Back button */}
       <Pressable style={styles.backBtn} onPress={() => navigation.goBack()}>
         <Text style={styles.backBtnTxt}>← Back to Timer</Text>
       </Pressable>
-    </View>
+
+      <Modal visible={inviting} transparent animationType="fade" onRequestClose={() => setInviting(false)}>
+        {inviting && <PartyInviteSheet code={code} onClose={() => setInviting(false)} />}
+      </Modal>
+    </ScrollView>
   );
 }
@@ -44,25 +44,65 @@
 
 // File: app/(tabs)/party/PartyParticipantList.tsx
 
-import { FlatList, Text, View } from "react-native";
+import { Alert, Image, Pressable, Text, View } from "react-native";
+import { PartyMember } from "../../../hooks/usePartyRoom";
 import styles from "./partyStyles";
 
 type Props = {
-  participants: string[];
+  members: PartyMember[];
+  hostUid: string | null;
+  myUid: string;
+  isHost: boolean;
+  onKick: (member: PartyMember) => void;
+  onMakeHost?: (member: PartyMember) => void; // absent for pass-and-play guests
 };
 
-export default function PartyParticipantList({ participants }: Props) {
+export default function PartyParticipantList({ members, hostUid, myUid, isHost, onKick, onMakeHost }: Props) {
+  const manage = (member: PartyMember) => {
+    if (!isHost || member.uid === myUid) return;
+    Alert.alert(member.name, undefined, [
+      ...(onMakeHost ? [{ text: "Make host", onPress: () => onMakeHost(member) }] : []),
+      { text: "Remove from party", style: "destructive", onPress: () => onKick(member) },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
   return (
     <View style={styles.participantBox}>
-      <Text style={styles.subTitle}>👥 Participants</Text>
-      <FlatList
-        data={participants}
-        keyExtractor={(item, index) => `${item}-${index}`}
-        renderItem={({ item }) => (
-          <Text style={styles.participantItem}>{item}</Text>
-        )}
-      />
+      <Text style={styles.subTitle}>
+        👥 Participants · {members.filter((m) => m.status === "online").length} here
+      </Text>
+      {/* Plain map: the room screen scrolls, and rooms stay small */}
+      {members.map((item) => (
+        <Pressable
+          key={item.uid}
+          style={styles.memberRow}
+          onPress={() => manage(item)}
+          disabled={!isHost || item.uid === myUid}
+        >
+          {item.photoURL ? (
+            <Image source={{ uri: item.photoURL }} style={styles.memberAvatar} />
+          ) : (
+            <View style={[styles.memberAvatar, styles.center]}>
+              <Text style={styles.memberInitial}>{(item.name[0] ?? "?").toUpperCase()}</Text>
+            </View>
+          )}
+          <Text
+            style={[styles.participantItem, { flex: 1 }, item.status === "gone" && styles.memberGone]}
+            numberOfLines={1}
+          >
+            {item.name}
+            {item.uid === myUid ? " (you)" : ""}
+          </Text>
+          {item.uid === hostUid && <Text style={styles.hostBadge}>HOST</Text>}
+          <View style={[styles.statusDot, item.status === "gone" && styles.statusDotGone]} />
+        </Pressable>
+      ))}
+      {isHost && members.length > 1 && (
+        <Text style={styles.syncText}>
+          {onMakeHost ? "Tap someone to make them host or remove them" : "Tap someone to remove them"}
+        </Text>
+      )}
     </View>
   );
 }
-
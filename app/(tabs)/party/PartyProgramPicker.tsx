@@ -0,0 +1,75 @@
+// File: app/(tabs)/party/PartyProgramPicker.tsx
+
+import { Pressable, ScrollView, Text, View } from "react-native";
+import { useTimerPresets } from "../../../hooks/useTimerPresets";
+import {
+  MODE_DEFAULTS,
+  MODE_LABELS,
+  Program,
+  QUICK_PRESETS,
+  Settings,
+  TIMER_MODES,
+  countRounds,
+  programFromSettings,
+  programLengthSec,
+  settingsMode,
+} from "../../../lib/timerProgram";
+import styles from "./partyStyles";
+
+type Props = {
+  settings: Settings;
+  program: Program | null;
+  onPick: (settings: Settings, program: Program | null) => void;
+};
+
+function fmtLength(sec: number) {
+  const m = Math.floor(sec / 60);
+  const s = sec % 60;
+  return s ? `${m}:${String(s).padStart(2, "0")}` : `${m} min`;
+}
+
+/** Host-only: the same modes, quick presets and saved presets as the solo timer. */
+export default function PartyProgramPicker({ settings, program, onPick }: Props) {
+  const { presets } = useTimerPresets();
+  const mode = settingsMode(settings);
+  const active = program ?? programFromSettings(settings);
+
+  return (
+    <View style={styles.timerBox}>
+      <Text style={styles.subTitle}>🥊 Program</Text>
+      <Text style={styles.phaseText}>
+        {program?.name ?? MODE_LABELS[mode]} · {countRounds(active)} rounds · {fmtLength(programLengthSec(active))}
+      </Text>
+
+      <View style={styles.chipRow}>
+        {TIMER_MODES.map((m) => (
+          <Pressable
+            key={m}
+            onPress={() => m !== mode && onPick(MODE_DEFAULTS[m], null)}
+            style={[styles.chip, !program && m === mode && styles.chipActive]}
+          >
+            <Text style={styles.chipTxt}>{MODE_LABELS[m]}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={styles.chipRow}>
+        {QUICK_PRESETS[mode].map((p) => (
+          <Pressable key={p.id} onPress={() => onPick(p.settings, null)} style={styles.chip}>
+            <Text style={styles.chipTxt}>{p.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {presets.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {presets.map((p) => (
+            <Pressable key={p.id} onPress={() => onPick(p.settings, p.program)} style={styles.chip}>
+              <Text style={styles.chipTxt}>★ {p.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,67 @@
+// File: app/(tabs)/party/PartyScanner.tsx
+
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from "expo-camera";
+import { useRef } from "react";
+import { Alert, Pressable, Text, View } from "react-native";
+import { partyCodeFromText } from "../../../lib/partyLinks";
+import styles from "./partyStyles";
+
+type Props = {
+  onCode: (code: string) => void;
+  onClose: () => void;
+};
+
+/** Full-screen QR scanner for invite codes. */
+export default function PartyScanner({ onCode, onClose }: Props) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const handledRef = useRef(false); // the camera reports the same code many times a second
+  const rejectedRef = useRef<string | null>(null);
+
+  const onScanned = ({ data }: BarcodeScanningResult) => {
+    if (handledRef.current) return;
+    const code = partyCodeFromText(data);
+    if (code) {
+      handledRef.current = true;
+      onCode(code);
+      return;
+    }
+    if (rejectedRef.current === data) return;
+    rejectedRef.current = data;
+    Alert.alert("Not a party invite", "That QR code isn't a POUNDRR party invite.");
+  };
+
+  if (!permission) return <View style={styles.scannerRoot} />;
+
+  if (!permission.granted) {
+    return (
+      <View style={[styles.scannerRoot, styles.center]}>
+        <Text style={styles.participantItem}>Camera access is needed to scan invites.</Text>
+        {permission.canAskAgain && (
+          <Pressable style={styles.addBtn} onPress={requestPermission}>
+            <Text style={styles.addBtnTxt}>Allow Camera</Text>
+          </Pressable>
+        )}
+        <Pressable style={styles.backBtn} onPress={onClose}>
+          <Text style={styles.backBtnTxt}>Cancel</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.scannerRoot}>
+      <CameraView
+        style={{ flex: 1 }}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+        onBarcodeScanned={onScanned}
+      />
+      <View style={styles.scannerOverlay} pointerEvents="box-none">
+        <Text style={styles.subTitle}>Point at a party QR code</Text>
+        <Pressable style={styles.backBtn} onPress={onClose}>
+          <Text style={styles.backBtnTxt}>Cancel</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
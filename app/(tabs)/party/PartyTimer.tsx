@@ -204,76 +204,127 @@
 
 // File: app/(tabs)/party/PartyTimer.tsx
 
-import { doc, onSnapshot, serverTimestamp, setDoc } from "firebase/firestore";
-import { useEffect, useState } from "react";
-import { Pressable, Text, View } from "react-native";
-import { db } from "../../../firebase";
+import { useEffect, useRef } from "react";
+import { Alert, Pressable, Text, Vibration, View } from "react-native";
+import { UsePartyTimer } from "../../../hooks/usePartyTimer";
+import { useTimerAudio } from "../../../hooks/useTimerAudio";
+import { createSession } from "../../../lib/timerEngine";
+import { KIND_LABELS, Program, Settings } from "../../../lib/timerProgram";
+import PartyProgramPicker from "./PartyProgramPicker";
 import styles from "./partyStyles";
 
-const PARTY_DOC = doc(db, "partyState", "room1"); // single shared room
+type Props = {
+  timer: UsePartyTimer; // shared room clock, owned by the screen
+  isHost: boolean; // only the host gets controls
+  local?: boolean; // pass-and-play on one phone; nothing to sync
+};
 
-export default function PartyTimer() {
-  const [seconds, setSeconds] = useState(60);
-  const [running, setRunning] = useState(false);
+function fmtTime(totalSeconds: number) {
+  const s = Math.max(0, Math.floor(totalSeconds));
+  return `${String(Math.floor(s / 60)).padStart(2, "0")}:${String(s % 60).padStart(2, "0")}`;
+}
 
-  // 🔄 Subscribe to Firestore updates
-  useEffect(() => {
-    const unsub = onSnapshot(PARTY_DOC, (snapshot) => {
-      if (snapshot.exists()) {
-        const data = snapshot.data();
-        setSeconds(data.secondsLeft ?? 60);
-        setRunning(data.isRunning ?? false);
-      }
-    });
-
-    return () => unsub();
-  }, []);
-
-  // ⏱ Countdown logic (local only if running)
+function fmtTenths(ms: number) {
+  const tenths = Math.max(0, Math.ceil(ms / 100));
+  return `${fmtTime(Math.floor(tenths / 10))}.${tenths % 10}`;
+}
+
+export default function PartyTimer({ timer, isHost, local }: Props) {
+  // Every phone derives the same second from one shared record; no per-second writes
+  const { session, state, running, paused, precise, synced, rttMs, toggle, reset, update } = timer;
+  useTimerAudio(state);
+  const lastPhaseKeyRef = useRef<string | null>(null);
+
+  // Same haptics as the solo timer, once per phase change
   useEffect(() => {
-    if (!running || seconds <= 0) return;
-    const interval = setInterval(() => {
-      setSeconds((prev) => prev - 1);
-      // update Firestore every second
-      setDoc(
-        PARTY_DOC,
-        { secondsLeft: seconds - 1, isRunning: true, updatedAt: serverTimestamp() },
-        { merge: true }
-      );
-    }, 1000);
-    return () => clearInterval(interval);
-  }, [running, seconds]);
-
-  // ▶️ Start the timer (host action)
-  const startTimer = async () => {
-    await setDoc(PARTY_DOC, {
-      secondsLeft: 60,
-      isRunning: true,
-      updatedAt: serverTimestamp(),
-    });
+    const key = `${state.phase}:${state.stepIndex}`;
+    const prev = lastPhaseKeyRef.current;
+    lastPhaseKeyRef.current = key;
+    if (prev === null || prev === key) return;
+    if (state.phase === "done") Vibration.vibrate([0, 220, 120, 220, 120, 220]);
+    else if (state.phase !== "idle") Vibration.vibrate([0, 180, 80, 180]);
+  }, [state.phase, state.stepIndex]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.warn("[party] timer update error:", error);
+      Alert.alert("Error", "Could not update the party timer.");
+    }
   };
 
-  // ⏹ Reset timer (host action)
-  const resetTimer = async () => {
-    await setDoc(PARTY_DOC, {
-      secondsLeft: 60,
-      isRunning: false,
-      updatedAt: serverTimestamp(),
-    });
+  const pick = (settings: Settings, program: Program | null) => {
+    const load = () => run(() => update(() => createSession(settings, program)));
+    if (state.phase === "idle" || state.phase === "done") return void load();
+    Alert.alert("Replace the running timer?", "Everyone's clock will reset to the new program.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Replace", style: "destructive", onPress: () => void load() },
+    ]);
   };
 
+  const phaseLabel =
+    state.countdown > 0
+      ? "Get ready"
+      : state.phase === "idle"
+      ? "Ready"
+      : state.phase === "done"
+      ? "Done 🎉"
+      : state.phase === "work"
+      ? `${state.label} ${state.currentRound} / ${state.roundsTotal}`
+      : KIND_LABELS[state.phase];
+
+  const progress =
+    state.phaseLengthSec > 0
+      ? 1 - Math.min(1, Math.max(0, state.remainingMs / (state.phaseLengthSec * 1000)))
+      : state.phase === "done"
+      ? 1
+      : 0;
+
   return (
-    <View style={styles.timerBox}>
-      <Text style={styles.subTitle}>⏱ Party Timer</Text>
-      <Text style={styles.timerText}>{seconds}s</Text>
-
-      <Pressable style={styles.addBtn} onPress={startTimer}>
-        <Text style={styles.addBtnTxt}>▶ Start</Text>
-      </Pressable>
-
-      <Pressable style={styles.backBtn} onPress={resetTimer}>
-        <Text style={styles.backBtnTxt}>⏹ Reset</Text>
-      </Pressable>
-    </View>
+    <>
+      <View style={styles.timerBox}>
+        <Text style={styles.subTitle}>⏱ Party Timer</Text>
+        <Text style={styles.phaseText}>{paused ? "Paused" : phaseLabel}</Text>
+        <Text style={styles.timerText}>
+          {state.countdown > 0 ? state.countdown : precise ? fmtTenths(state.remainingMs) : fmtTime(state.remaining)}
+        </Text>
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              state.phase !== "work" && styles.progressFillRest,
+              { width: `${progress * 100}%` },
+            ]}
+          />
+        </View>
+        {!!state.next && state.phase !== "done" && (
+          <Text style={styles.syncText}>
+            Next: {state.next.label} · {fmtTime(state.next.lengthSec)}
+          </Text>
+        )}
+        {!local && (
+          <Text style={styles.syncText}>
+            {synced ? `In sync · ±${Math.round((rttMs ?? 0) / 2)} ms` : "Syncing clock…"}
+          </Text>
+        )}
+
+        {isHost ? (
+          <>
+            <Pressable style={styles.addBtn} onPress={() => run(toggle)}>
+              <Text style={styles.addBtnTxt}>{running ? "⏸ Pause" : paused ? "▶ Resume" : "▶ Start"}</Text>
+            </Pressable>
+
+            <Pressable style={styles.backBtn} onPress={() => run(reset)}>
+              <Text style={styles.backBtnTxt}>⏹ Reset</Text>
+            </Pressable>
+          </>
+        ) : (
+          <Text style={styles.syncText}>The host runs the timer</Text>
+        )}
+      </View>
+
+      {isHost && <PartyProgramPicker settings={session.settings} program={session.program} onPick={pick} />}
+    </>
   );
 }
@@ -29,6 +29,14 @@ const styles = StyleSheet.create({
     backgroundColor: "#111",
     padding: 20,
   },
+  scroll: {
+    flex: 1,
+    backgroundColor: "#111",
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
   title: {
     fontSize: 26,
     fontWeight: "bold",
@@ -87,6 +95,193 @@ const styles = StyleSheet.create({
     color: "#1DB954",
     textAlign: "center",
   },
+  phaseText: {
+    fontSize: 16,
+    color: "#eee",
+    textAlign: "center",
+  },
+  syncText: {
+    fontSize: 12,
+    color: "#888",
+    textAlign: "center",
+    marginTop: 4,
+  },
+  memberRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 6,
+  },
+  memberAvatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#333",
+  },
+  memberInitial: {
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  memberGone: {
+    color: "#777",
+  },
+  hostBadge: {
+    fontSize: 11,
+    fontWeight: "bold",
+    color: "#111",
+    backgroundColor: "#1DB954",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "#1DB954",
+  },
+  statusDotGone: {
+    backgroundColor: "#555",
+  },
+  progressTrack: {
+    height: 6,
+    backgroundColor: "#333",
+    borderRadius: 3,
+    marginVertical: 10,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#1DB954",
+  },
+  progressFillRest: {
+    backgroundColor: "#888",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    backgroundColor: "#333",
+    borderRadius: 8,
+  },
+  chipActive: {
+    backgroundColor: "#1DB954",
+  },
+  chipTxt: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  sheetBackdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    backgroundColor: "#111",
+    padding: 20,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    alignItems: "stretch",
+  },
+  qrBox: {
+    alignSelf: "center",
+    padding: 12,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    marginVertical: 12,
+  },
+  scannerRoot: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  scannerOverlay: {
+    position: "absolute",
+    left: 20,
+    right: 20,
+    bottom: 40,
+    alignItems: "stretch",
+  },
+  center: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  codeBox: {
+    backgroundColor: "#222",
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+    alignItems: "center",
+  },
+  codeLabel: {
+    fontSize: 13,
+    color: "#aaa",
+  },
+  codeText: {
+    fontSize: 34,
+    fontWeight: "bold",
+    color: "#fff",
+    letterSpacing: 6,
+  },
+  joinBox: {
+    marginTop: 20,
+    backgroundColor: "#222",
+    padding: 16,
+    borderRadius: 12,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: "#444",
+    borderRadius: 10,
+    padding: 12,
+    color: "#fff",
+    fontSize: 24,
+    letterSpacing: 6,
+    textAlign: "center",
+  },
+  joinBtn: {
+    backgroundColor: "#1DB954",
+    padding: 14,
+    borderRadius: 10,
+    marginTop: 12,
+  },
+  logRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  logBtn: {
+    flex: 1,
+    backgroundColor: "#1DB954",
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  logBtnMinus: {
+    backgroundColor: "#333",
+  },
+  logCount: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "#fff",
+    textAlign: "center",
+  },
+  rankText: {
+    width: 32,
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#aaa",
+    textAlign: "center",
+  },
+  rankValue: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#1DB954",
+  },
 });
 
 export default styles;
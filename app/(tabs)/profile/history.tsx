@@ -0,0 +1,403 @@
+// File: app/(tabs)/profile/history.tsx
+
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import { WorkoutDoc, WorkoutRow, fmtMinutes, workoutsCol } from '@/lib/workouts';
+
+import {
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  Timestamp,
+  limit as fsLimit,
+  query as fsQuery,
+  getDocs,
+  orderBy,
+  startAfter,
+  where,
+} from 'firebase/firestore';
+
+const RED = '#f70000';
+const CARD_BG = 'rgba(0,0,0,0.82)';
+const BORDER = 'rgba(255,255,255,0.14)';
+const PAGE_SIZE = 20;
+
+type Filter = 'all' | 'parties';
+
+const FILTERS: { key: Filter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'parties', label: 'Parties' },
+];
+
+function fmtWhen(ts?: Timestamp | null): string {
+  if (!ts) return '';
+  try {
+    const d = ts.toDate();
+    return `${d.toLocaleDateString()} · ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  } catch {
+    return '';
+  }
+}
+
+export default function WorkoutHistoryScreen(): React.ReactElement {
+  const router = useRouter();
+  const { uid, error: authErr } = useAuthUid();
+
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+
+  const [items, setItems] = useState<WorkoutRow[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [filter, setFilter] = useState<Filter>('all');
+
+  // Party runs are tagged kind: 'party'; older entries have no kind and only show under All.
+  // kind + startedAt needs the composite index in firestore.indexes.json (firebase deploy --only firestore:indexes)
+  const filterConstraints = useMemo<QueryConstraint[]>(
+    () => (filter === 'parties' ? [where('kind', '==', 'party')] : []),
+    [filter]
+  );
+
+  const firstPageQuery = useMemo(() => {
+    if (!uid) return null;
+    return fsQuery(workoutsCol(uid), ...filterConstraints, orderBy('startedAt', 'desc'), fsLimit(PAGE_SIZE));
+  }, [uid, filterConstraints]);
+
+  const loadInitial = useCallback(async (): Promise<void> => {
+    if (!firstPageQuery) {
+      setItems([]);
+      setCursor(null);
+      setHasMore(false);
+      return;
+    }
+    try {
+      const snap = await getDocs(firstPageQuery);
+      setItems(snap.docs.map((d) => ({ id: d.id, ...(d.data() as WorkoutDoc) })));
+      const last = snap.docs[snap.docs.length - 1] ?? null;
+      setCursor(last);
+      setHasMore(Boolean(last) && snap.docs.length === PAGE_SIZE);
+    } catch (e) {
+      console.warn('[history] load initial error:', e);
+      setItems([]);
+      setCursor(null);
+      setHasMore(false);
+    }
+  }, [firstPageQuery]);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (!uid || !cursor || !hasMore || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const qMore = fsQuery(
+        workoutsCol(uid),
+        ...filterConstraints,
+        orderBy('startedAt', 'desc'),
+        startAfter(cursor),
+        fsLimit(PAGE_SIZE)
+      );
+      const snap = await getDocs(qMore);
+      const more: WorkoutRow[] = snap.docs.map((d) => ({ id: d.id, ...(d.data() as WorkoutDoc) }));
+      setItems((prev) => [...prev, ...more]);
+      const last = snap.docs[snap.docs.length - 1] ?? null;
+      setCursor(last);
+      setHasMore(Boolean(last) && snap.docs.length === PAGE_SIZE);
+    } catch (e) {
+      console.warn('[history] load more error:', e);
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [uid, cursor, hasMore, loadingMore, filterConstraints]);
+
+  useEffect(() => {
+    if (uid === null) return; // wait for auth hook to resolve
+    (async () => {
+      setLoading(true);
+      await loadInitial();
+      setLoading(false);
+    })();
+  }, [uid, loadInitial]);
+
+  const onRefresh = useCallback(async (): Promise<void> => {
+    setRefreshing(true);
+    try {
+      await loadInitial();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadInitial]);
+
+  if (authErr) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>Auth error: {authErr}</Text>
+      </View>
+    );
+  }
+  if (!uid) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>Sign in to see your training history.</Text>
+        <Pressable
+          onPress={() => router.replace('/login')}
+          style={({ pressed }) => [styles.btnPrimary, pressed && { opacity: 0.9 }]}
+        >
+          <Text style={styles.btnPrimaryText}>Go to Login</Text>
+        </Pressable>
+      </View>
+    );
+  }
+  if (loading && items.length === 0) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color="#fff" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={{ backgroundColor: 'black' }}
+      data={items}
+      keyExtractor={(it) => it.id}
+      renderItem={({ item }) => (
+        <WorkoutCard
+          row={item}
+          onOpenRecap={item.party ? () => router.push(`/profile/party-recap/${item.party!.recapId}`) : undefined}
+        />
+      )}
+      contentContainerStyle={{ padding: 14, gap: 10 }}
+      ListHeaderComponent={
+        <View style={{ gap: 10 }}>
+          <Text style={styles.title}>Training History</Text>
+          <View style={styles.filterRow}>
+            {FILTERS.map((f) => (
+              <Pressable
+                key={f.key}
+                onPress={() => setFilter(f.key)}
+                style={[styles.filterChip, filter === f.key && styles.filterChipActive]}
+              >
+                <Text style={styles.filterChipText}>{f.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      }
+      ListEmptyComponent={
+        !loading ? (
+          <View style={styles.empty}>
+            <Text style={styles.muted}>
+              {filter === 'parties'
+                ? 'No party sessions yet. Join a party and finish a run together.'
+                : 'No sessions yet. Finish a timer session and it shows up here.'}
+            </Text>
+          </View>
+        ) : null
+      }
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#fff" />}
+      onEndReachedThreshold={0.4}
+      onEndReached={() => {
+        if (!loading && !refreshing) void loadMore();
+      }}
+      ListFooterComponent={
+        loadingMore ? (
+          <View style={{ paddingVertical: 14 }}>
+            <ActivityIndicator color="#fff" />
+          </View>
+        ) : null
+      }
+    />
+  );
+}
+
+/* ---------- small components ---------- */
+function WorkoutCard({ row, onOpenRecap }: { row: WorkoutRow; onOpenRecap?: () => void }): React.ReactElement {
+  const abandoned = row.status === 'abandoned';
+  const party = row.party;
+  return (
+    <Pressable
+      onPress={onOpenRecap}
+      disabled={!onOpenRecap}
+      style={[styles.card, abandoned && { borderLeftColor: '#6b7280' }]}
+    >
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle} numberOfLines={1}>
+          {row.programName || 'Timer session'}
+        </Text>
+        {!!party && <Text style={[styles.badge, styles.badgeParty]}>Party</Text>}
+        <Text style={[styles.badge, abandoned ? styles.badgeMuted : styles.badgeDone]}>
+          {abandoned ? 'Stopped' : 'Done'}
+        </Text>
+      </View>
+      <Text style={styles.metaMuted}>{fmtWhen(row.startedAt)}</Text>
+      {!!party && (
+        <Text style={styles.metaMuted}>
+          🎉 {party.attendees} {party.attendees === 1 ? 'person' : 'people'} · hosted by {party.hostName}
+          {party.rank != null ? ` · #${party.rank} in ${party.metric.toLowerCase()} (${party.value})` : ''}
+        </Text>
+      )}
+      <View style={styles.statsRow}>
+        <Stat label="Rounds" value={`${row.roundsCompleted}/${row.roundsTotal}`} />
+        <Stat label="Work" value={fmtMinutes(row.workSec)} />
+        <Stat label="Rest" value={fmtMinutes(row.restSec)} />
+        {!!row.reps && <Stat label="Reps" value={String(row.reps)} />}
+        {row.rpe != null && <Stat label="RPE" value={String(row.rpe)} />}
+      </View>
+      {!!row.notes && <Text style={styles.notes}>{row.notes}</Text>}
+      {!!party && <Text style={styles.link}>View recap ›</Text>}
+    </Pressable>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }): React.ReactElement {
+  return (
+    <View style={styles.statBox}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
+/* ---------- styles ---------- */
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    backgroundColor: 'black',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  muted: {
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  title: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 22,
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: CARD_BG,
+    borderRadius: 12,
+    padding: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: RED,
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 15,
+  },
+  badge: {
+    fontFamily: 'Inter_700Bold',
+    fontSize: 11,
+    color: '#fff',
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 999,
+    overflow: 'hidden',
+  },
+  badgeDone: { backgroundColor: RED },
+  badgeMuted: { backgroundColor: BORDER },
+  badgeParty: { backgroundColor: '#7c3aed' },
+  metaMuted: {
+    fontFamily: 'Inter_400Regular',
+    color: '#9ca3af',
+    fontSize: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  statBox: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.10)',
+    backgroundColor: 'rgba(0,0,0,0.25)',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  statValue: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 14,
+  },
+  statLabel: {
+    marginTop: 2,
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 11,
+  },
+  notes: {
+    fontFamily: 'Inter_400Regular',
+    color: '#e5e7eb',
+    fontSize: 13,
+  },
+  btnPrimary: {
+    backgroundColor: RED,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  btnPrimaryText: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 16,
+    letterSpacing: 0.6,
+  },
+  empty: {
+    padding: 18,
+    alignItems: 'center',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 4,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: BORDER,
+  },
+  filterChipActive: {
+    backgroundColor: RED,
+    borderColor: RED,
+  },
+  filterChipText: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 13,
+  },
+  link: {
+    fontFamily: 'Inter_700Bold',
+    color: RED,
+    fontSize: 13,
+  },
+});
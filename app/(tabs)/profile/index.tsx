@@ -20,6 +20,7 @@ import {
 
 import { db } from '@/firebase';
 import { useAuthUid } from '@/hooks/useAuthUid';
+import { workoutsCol } from '@/lib/workouts';
 
 import {
   QueryDocumentSnapshot,
@@ -83,6 +84,7 @@ export default function ProfileIndexScreen(): React.ReactElement {
   const [followersCount, setFollowersCount] = useState<number | null>(null);
   const [followingCount, setFollowingCount] = useState<number | null>(null);
   const [highlightsCount, setHighlightsCount] = useState<number | null>(null);
+  const [sessionsCount, setSessionsCount] = useState<number | null>(null);
 
   // Highlights grid (recent)
   const [items, setItems] = useState<HighlightRow[]>([]);
@@ -121,6 +123,7 @@ export default function ProfileIndexScreen(): React.ReactElement {
       setFollowersCount(null);
       setFollowingCount(null);
       setHighlightsCount(null);
+      setSessionsCount(null);
       return;
     }
     try {
@@ -150,6 +153,14 @@ export default function ProfileIndexScreen(): React.ReactElement {
       console.warn('[profile] highlights count error:', e);
       setHighlightsCount(null);
     }
+    try {
+      // Same rule as the stats screen: runs without any work time don't count
+      const sessionsAgg = await getCountFromServer(fsQuery(workoutsCol(uid), where('workSec', '>', 0)));
+      setSessionsCount(Number(sessionsAgg.data().count ?? 0));
+    } catch (e) {
+      console.warn('[profile] sessions count error:', e);
+      setSessionsCount(null);
+    }
   }, [uid]);
 
   const loadHighlightsInitial = useCallback(async (): Promise<void> => {
@@ -224,6 +235,8 @@ export default function ProfileIndexScreen(): React.ReactElement {
   const goFollowers = useCallback(() => router.push('/profile/followers'), [router]);
   const goFollowing = useCallback(() => router.push('/profile/following'), [router]);
   const goTickets = useCallback(() => router.push('/poundrr/events/my-tickets'), [router]);
+  const goHistory = useCallback(() => router.push('/profile/history'), [router]);
+  const goStats = useCallback(() => router.push('/profile/stats'), [router]);
 
   // Signed-out / error states
   if (authErr) {
@@ -305,6 +318,7 @@ export default function ProfileIndexScreen(): React.ReactElement {
             <ProfileStat label="Followers" value={followersCount ?? 0} onPress={goFollowers} />
             <ProfileStat label="Following" value={followingCount ?? 0} onPress={goFollowing} />
             <ProfileStat label="Highlights" value={highlightsCount ?? 0} />
+            <ProfileStat label="Sessions" value={sessionsCount ?? 0} onPress={goStats} />
           </View>
 
           <View style={styles.actionsRow}>
@@ -314,6 +328,9 @@ export default function ProfileIndexScreen(): React.ReactElement {
             <Pressable onPress={goTickets} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.95 }]}>
               <Text style={styles.btnText}>My Tickets</Text>
             </Pressable>
+            <Pressable onPress={goHistory} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.95 }]}>
+              <Text style={styles.btnText}>Training History</Text>
+            </Pressable>
           </View>
 
           {!!user?.bio && (
@@ -0,0 +1,220 @@
+// File: app/(tabs)/profile/party-recap/[id].tsx
+
+import { useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Share, StyleSheet, Text, View } from 'react-native';
+
+import { PartyRecapDoc, loadPartyRecap, partyRecapText, partyRecapUrl } from '@/lib/partyRecap';
+import { METRIC_LABELS } from '@/lib/partyScores';
+import { fmtMinutes } from '@/lib/workouts';
+
+const RED = '#f70000';
+const CARD_BG = 'rgba(0,0,0,0.82)';
+const BORDER = 'rgba(255,255,255,0.14)';
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+export default function PartyRecapScreen(): React.ReactElement {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [recap, setRecap] = useState<PartyRecapDoc | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!id) return;
+    (async () => {
+      try {
+        setRecap(await loadPartyRecap(id));
+      } catch (e) {
+        console.warn('[party-recap] load error:', e);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [id]);
+
+  const onShare = async () => {
+    if (!recap || !id) return;
+    try {
+      const url = partyRecapUrl(id);
+      await Share.share({ message: `${partyRecapText(recap)}\n\n${url}`, url, title: 'Share party recap' });
+    } catch (e) {
+      console.warn('[party-recap] share error:', e);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color="#fff" />
+      </View>
+    );
+  }
+  if (!recap) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>Recap not found.</Text>
+      </View>
+    );
+  }
+
+  const when = recap.startedAt?.toDate?.();
+
+  return (
+    <ScrollView style={{ backgroundColor: 'black' }} contentContainerStyle={{ padding: 14, gap: 12 }}>
+      <View style={styles.card}>
+        <Text style={styles.kicker}>🎉 PARTY RECAP{recap.status === 'abandoned' ? ' · STOPPED EARLY' : ''}</Text>
+        <Text style={styles.title}>{recap.programName || 'Party session'}</Text>
+        {!!when && (
+          <Text style={styles.muted}>
+            {when.toLocaleDateString()} · hosted by {recap.hostName}
+          </Text>
+        )}
+        <View style={styles.statsRow}>
+          <Stat label="Rounds" value={`${recap.roundsCompleted}/${recap.roundsTotal}`} />
+          <Stat label="Duration" value={fmtMinutes(recap.totalSec)} />
+          <Stat label="People" value={String(recap.attendees.length)} />
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.subHeader}>🏆 {METRIC_LABELS[recap.metric] ?? 'Leaderboard'}</Text>
+        {recap.standings.length === 0 ? (
+          <Text style={styles.muted}>Nobody logged anything this run.</Text>
+        ) : (
+          recap.standings.map((s) => (
+            <View key={s.uid} style={styles.rankRow}>
+              <Text style={styles.rank}>{MEDALS[s.rank - 1] ?? s.rank}</Text>
+              <Text style={[styles.body, { flex: 1 }]} numberOfLines={1}>
+                {s.name}
+              </Text>
+              <Text style={styles.subHeader}>{s.value}</Text>
+            </View>
+          ))
+        )}
+        {recap.roundWinners.length > 0 && (
+          <View style={{ marginTop: 6 }}>
+            {recap.roundWinners.map((w) => (
+              <Text key={w.round} style={styles.muted}>
+                Round {w.round}: {w.names.join(', ')}
+              </Text>
+            ))}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.subHeader}>👥 Who was there</Text>
+        <Text style={styles.body}>{recap.attendees.map((a) => a.name).join(', ')}</Text>
+      </View>
+
+      <Pressable onPress={() => void onShare()} style={({ pressed }) => [styles.btnPrimary, pressed && { opacity: 0.9 }]}>
+        <Text style={styles.btnPrimaryText}>Share Recap</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }): React.ReactElement {
+  return (
+    <View style={styles.statBox}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    backgroundColor: 'black',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  muted: {
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 13,
+  },
+  kicker: {
+    fontFamily: 'Inter_700Bold',
+    color: RED,
+    fontSize: 12,
+    letterSpacing: 1.2,
+  },
+  title: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 22,
+  },
+  card: {
+    backgroundColor: CARD_BG,
+    borderRadius: 12,
+    padding: 12,
+    borderTopWidth: 3,
+    borderTopColor: RED,
+    gap: 6,
+  },
+  body: {
+    fontFamily: 'Inter_400Regular',
+    color: '#fff',
+    fontSize: 14,
+  },
+  subHeader: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 14,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  statBox: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: BORDER,
+    backgroundColor: 'rgba(0,0,0,0.25)',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  statValue: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 14,
+  },
+  statLabel: {
+    marginTop: 2,
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 11,
+  },
+  rankRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER,
+  },
+  rank: {
+    width: 28,
+    fontFamily: 'Inter_700Bold',
+    color: '#cbd5e1',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  btnPrimary: {
+    backgroundColor: RED,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  btnPrimaryText: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 16,
+    letterSpacing: 0.6,
+  },
+});
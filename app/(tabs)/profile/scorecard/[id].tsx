@@ -0,0 +1,136 @@
+// File: app/(tabs)/profile/scorecard/[id].tsx
+
+import { useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { ScorecardDoc, loadScorecard } from '@/lib/scorecard';
+
+const RED = '#f70000';
+const BLUE = '#2563eb';
+const CARD_BG = 'rgba(0,0,0,0.82)';
+const BORDER = 'rgba(255,255,255,0.14)';
+
+export default function ScorecardScreen(): React.ReactElement {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [card, setCard] = useState<ScorecardDoc | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!id) return;
+    (async () => {
+      try {
+        setCard(await loadScorecard(id));
+      } catch (e) {
+        console.warn('[scorecard] load error:', e);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color="#fff" />
+      </View>
+    );
+  }
+  if (!card) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>Scorecard not found.</Text>
+      </View>
+    );
+  }
+
+  const rounds = Array.from(new Set(card.scores.map((s) => s.round))).sort((a, b) => a - b);
+
+  return (
+    <ScrollView style={{ backgroundColor: 'black' }} contentContainerStyle={{ padding: 14, gap: 12 }}>
+      <Text style={styles.title}>
+        <Text style={{ color: RED }}>{card.red}</Text> vs <Text style={{ color: BLUE }}>{card.blue}</Text>
+      </Text>
+      <View style={styles.card}>
+        <Text style={styles.result}>{card.decision.result === 'draw' ? 'DRAW' : card.decision.result}</Text>
+        <Text style={styles.body}>{card.decision.label}</Text>
+      </View>
+
+      {card.judges.map((name, j) => (
+        <View key={j} style={styles.card}>
+          <View style={styles.row}>
+            <Text style={styles.subHeader}>{name}</Text>
+            <Text style={styles.subHeader}>
+              {card.totals[j]?.red ?? 0} – {card.totals[j]?.blue ?? 0}
+            </Text>
+          </View>
+          {rounds.map((r) => {
+            const s = card.scores.find((x) => x.judge === j && x.round === r);
+            return (
+              <View key={r} style={styles.roundRow}>
+                <Text style={styles.muted}>Round {r}</Text>
+                <Text style={styles.body}>{s ? `${s.red} – ${s.blue}` : '—'}</Text>
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    backgroundColor: 'black',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  muted: {
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 13,
+  },
+  title: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 22,
+  },
+  card: {
+    backgroundColor: CARD_BG,
+    borderRadius: 12,
+    padding: 12,
+    borderTopWidth: 3,
+    borderTopColor: RED,
+    gap: 6,
+  },
+  result: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 28,
+    letterSpacing: 2,
+  },
+  body: {
+    fontFamily: 'Inter_400Regular',
+    color: '#fff',
+    fontSize: 14,
+  },
+  subHeader: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  roundRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER,
+  },
+});
@@ -21,6 +21,7 @@ import {
 
 import { db } from '@/firebase';
 import { useAuthUid } from '@/hooks/useAuthUid';
+import { tryLoadNotifications } from '@/lib/notifications';
 
 import {
   Timestamp,
@@ -47,18 +48,6 @@ const RED = '#f70000';
 const CARD_BG = 'rgba(0,0,0,0.82)';
 const BORDER = 'rgba(255,255,255,0.14)';
 
-// Safe optional loader for expo-notifications.
-// Avoids compile-time module resolution by using eval-based dynamic import.
-async function tryLoadNotifications(): Promise<any | null> {
-  try {
-    // eslint-disable-next-line no-eval
-    const mod = await (eval('import("expo-notifications")') as Promise<any>);
-    return mod ?? null;
-  } catch {
-    return null;
-  }
-}
-
 export default function NotificationSettingsScreen(): React.ReactElement {
   const router = useRouter();
   const { uid, error: authErr } = useAuthUid();
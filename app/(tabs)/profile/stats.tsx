@@ -0,0 +1,330 @@
+// File: app/(tabs)/profile/stats.tsx
+
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+  useWindowDimensions,
+} from 'react-native';
+import { BarChart, ContributionGraph } from 'react-native-chart-kit';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import { HEATMAP_DAYS, StatsEntry, computeTrainingStats, toStatsEntries } from '@/lib/trainingStats';
+import { WorkoutDoc, workoutsCol } from '@/lib/workouts';
+
+import { limit as fsLimit, query as fsQuery, getDocs, orderBy } from 'firebase/firestore';
+
+const RED = '#f70000';
+const CARD_BG = 'rgba(0,0,0,0.82)';
+const BORDER = 'rgba(255,255,255,0.14)';
+const MAX_SESSIONS = 1000;
+
+type Range = 'weekly' | 'monthly';
+
+const chartConfig = {
+  backgroundGradientFrom: '#0b0b0b',
+  backgroundGradientTo: '#0b0b0b',
+  decimalPlaces: 0,
+  color: (opacity = 1) => `rgba(247, 0, 0, ${opacity})`,
+  labelColor: () => '#cbd5e1',
+  barPercentage: 0.6,
+};
+
+export default function TrainingStatsScreen(): React.ReactElement {
+  const router = useRouter();
+  const { uid, error: authErr } = useAuthUid();
+  const { width } = useWindowDimensions();
+
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [entries, setEntries] = useState<StatsEntry[]>([]);
+  const [range, setRange] = useState<Range>('weekly');
+
+  const load = useCallback(async (): Promise<void> => {
+    if (!uid) {
+      setEntries([]);
+      return;
+    }
+    try {
+      const snap = await getDocs(fsQuery(workoutsCol(uid), orderBy('startedAt', 'desc'), fsLimit(MAX_SESSIONS)));
+      setEntries(toStatsEntries(snap.docs.map((d) => ({ id: d.id, ...(d.data() as WorkoutDoc) }))));
+    } catch (e) {
+      console.warn('[stats] load error:', e);
+      setEntries([]);
+    }
+  }, [uid]);
+
+  useEffect(() => {
+    if (uid === null) return; // wait for auth hook to resolve
+    (async () => {
+      setLoading(true);
+      await load();
+      setLoading(false);
+    })();
+  }, [uid, load]);
+
+  const onRefresh = useCallback(async (): Promise<void> => {
+    setRefreshing(true);
+    try {
+      await load();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [load]);
+
+  const stats = useMemo(() => computeTrainingStats(entries), [entries]);
+  const periods = range === 'weekly' ? stats.weekly : stats.monthly;
+  const current = periods[periods.length - 1];
+  const chartWidth = width - 28 - 24;
+
+  if (authErr) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>Auth error: {authErr}</Text>
+      </View>
+    );
+  }
+  if (!uid) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>Sign in to see your training stats.</Text>
+        <Pressable
+          onPress={() => router.replace('/login')}
+          style={({ pressed }) => [styles.btnPrimary, pressed && { opacity: 0.9 }]}
+        >
+          <Text style={styles.btnPrimaryText}>Go to Login</Text>
+        </Pressable>
+      </View>
+    );
+  }
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color="#fff" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: 'black' }}
+      contentContainerStyle={{ padding: 14, gap: 12 }}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#fff" />}
+    >
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Training Stats</Text>
+        <Pressable onPress={() => router.push('/profile/history')}>
+          <Text style={styles.link}>History →</Text>
+        </Pressable>
+      </View>
+
+      {/* Streaks */}
+      <View style={styles.statsRow}>
+        <Stat label="Current streak" value={`${stats.currentStreak}d`} />
+        <Stat label="Longest streak" value={`${stats.longestStreak}d`} />
+        <Stat label="Sessions" value={String(stats.totalSessions)} />
+      </View>
+
+      {/* Totals */}
+      <View style={styles.card}>
+        <View style={styles.toggleRow}>
+          {(['weekly', 'monthly'] as Range[]).map((r) => (
+            <Pressable
+              key={r}
+              onPress={() => setRange(r)}
+              style={[styles.toggle, range === r && styles.toggleActive]}
+            >
+              <Text style={styles.toggleTxt}>{r === 'weekly' ? 'Weekly' : 'Monthly'}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <Text style={styles.subHeader}>{range === 'weekly' ? 'This week' : 'This month'}</Text>
+        <View style={styles.statsRow}>
+          <Stat label="Sessions" value={String(current?.sessions ?? 0)} />
+          <Stat label="Rounds" value={String(current?.rounds ?? 0)} />
+          <Stat label="Work min" value={String(current?.workMin ?? 0)} />
+        </View>
+        <Text style={styles.subHeader}>Work minutes</Text>
+        <BarChart
+          data={{ labels: periods.map((p) => p.label), datasets: [{ data: periods.map((p) => p.workMin) }] }}
+          width={chartWidth}
+          height={200}
+          yAxisLabel=""
+          yAxisSuffix=""
+          fromZero
+          chartConfig={chartConfig}
+          style={{ borderRadius: 10 }}
+        />
+      </View>
+
+      {/* Heatmap */}
+      <View style={styles.card}>
+        <Text style={styles.subHeader}>Training calendar</Text>
+        <ContributionGraph
+          values={stats.heatmap}
+          endDate={new Date()}
+          numDays={HEATMAP_DAYS}
+          width={chartWidth}
+          height={220}
+          chartConfig={chartConfig}
+          tooltipDataAttrs={() => ({})}
+        />
+      </View>
+
+      {/* Personal bests */}
+      <View style={styles.card}>
+        <Text style={styles.subHeader}>Personal bests</Text>
+        <BestRow label="Most rounds in a session" value={String(stats.bests.mostRounds)} />
+        <BestRow label="Longest session (work)" value={`${stats.bests.longestWorkMin} min`} />
+        <BestRow label="Biggest week (work)" value={`${stats.bests.bestWeekWorkMin} min`} />
+        <BestRow label="Most sessions in a week" value={String(stats.bests.bestWeekSessions)} />
+        <BestRow label="Longest streak" value={`${stats.bests.longestStreak} days`} />
+      </View>
+    </ScrollView>
+  );
+}
+
+/* ---------- small components ---------- */
+function Stat({ label, value }: { label: string; value: string }): React.ReactElement {
+  return (
+    <View style={styles.statBox}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
+function BestRow({ label, value }: { label: string; value: string }): React.ReactElement {
+  return (
+    <View style={styles.bestRow}>
+      <Text style={styles.bestLabel}>{label}</Text>
+      <Text style={styles.bestValue}>{value}</Text>
+    </View>
+  );
+}
+
+/* ---------- styles ---------- */
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    backgroundColor: 'black',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  muted: {
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 22,
+  },
+  link: {
+    fontFamily: 'Inter_700Bold',
+    color: RED,
+    fontSize: 13,
+  },
+  card: {
+    backgroundColor: CARD_BG,
+    borderRadius: 12,
+    padding: 12,
+    borderTopWidth: 3,
+    borderTopColor: RED,
+    gap: 8,
+  },
+  subHeader: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 14,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  toggle: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: BORDER,
+  },
+  toggleActive: {
+    backgroundColor: RED,
+    borderColor: RED,
+  },
+  toggleTxt: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  statBox: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.10)',
+    backgroundColor: 'rgba(0,0,0,0.25)',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  statValue: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 16,
+  },
+  statLabel: {
+    marginTop: 2,
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 12,
+  },
+  bestRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.08)',
+  },
+  bestLabel: {
+    fontFamily: 'Inter_400Regular',
+    color: '#cbd5e1',
+    fontSize: 13,
+  },
+  bestValue: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 13,
+  },
+  btnPrimary: {
+    backgroundColor: RED,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  btnPrimaryText: {
+    fontFamily: 'Inter_700Bold',
+    color: '#fff',
+    fontSize: 16,
+    letterSpacing: 0.6,
+  },
+});
@@ -1,44 +1,70 @@
 // File: app/(tabs)/spotify/SpotifyButton.tsx
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useEffect, useState } from 'react';
-import { Image, Pressable, Text, View } from 'react-native';
-import { getCurrentTrack, togglePlayPause } from './spotify';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, Image, Pressable, Text, View } from 'react-native';
+import { SpotifyAuthError, getCurrentTrack, togglePlayPause } from './spotify';
 import { useSpotifyAuth } from './spotifyAuth';
 
 export function SpotifyButton() {
   const [track, setTrack] = useState<any>(null);
-  const { request, promptAsync } = useSpotifyAuth();
+  const { ready, connected, revoked, connect, disconnect } = useSpotifyAuth();
+  const promptedRef = useRef(false); // one prompt per revoke, even if `connect` changes identity
 
   useEffect(() => {
+    if (!connected) {
+      setTrack(null);
+      return;
+    }
     (async () => {
       const current = await getCurrentTrack();
       setTrack(current);
     })();
-  }, []);
+  }, [connected]);
 
-  const handlePress = async () => {
+  const reconnect = useCallback(async () => {
     try {
-      let token = await AsyncStorage.getItem('spotify_access_token');
+      await connect();
+    } catch (err) {
+      console.warn('[spotify] connect error:', err);
+      Alert.alert('Spotify', 'Could not connect to Spotify.');
+    }
+  }, [connect]);
 
-      if (!token && request) {
-        // Trigger authentication flow
-        const result = await promptAsync();
-        token = await AsyncStorage.getItem('spotify_access_token');
-      }
+  // Consent was pulled in the Spotify account page; ask once instead of failing silently
+  useEffect(() => {
+    if (!revoked) promptedRef.current = false;
+    if (!revoked || !ready || promptedRef.current) return;
+    promptedRef.current = true;
+    Alert.alert('Spotify disconnected', 'POUNDRR no longer has access to your Spotify. Connect again?', [
+      { text: 'Not now', style: 'cancel' },
+      { text: 'Connect', onPress: () => void reconnect() },
+    ]);
+  }, [revoked, ready, reconnect]);
 
-      if (token) {
-        await togglePlayPause();
-        const updated = await getCurrentTrack();
-        setTrack(updated);
-      }
+  const handlePress = async () => {
+    try {
+      if (!connected && !(await connect())) return;
+      await togglePlayPause();
+      const updated = await getCurrentTrack();
+      setTrack(updated);
     } catch (err) {
-      console.log(err);
+      if (err instanceof SpotifyAuthError) return; // the revoked prompt above takes it from here
+      console.warn('[spotify] playback error:', err);
     }
   };
 
+  const handleLongPress = () => {
+    if (!connected) return;
+    Alert.alert('Disconnect Spotify?', 'The timer stops controlling your music on this device.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Disconnect', style: 'destructive', onPress: () => void disconnect() },
+    ]);
+  };
+
   return (
     <Pressable
       onPress={handlePress}
+      onLongPress={handleLongPress}
+      disabled={!ready}
       style={{
         backgroundColor: '#1DB954',
         padding: 16,
@@ -55,13 +81,14 @@ export function SpotifyButton() {
       )}
       <View>
         <Text style={{ color: 'white', fontWeight: 'bold' }}>
-          {track?.playing ? 'Pause' : 'Play'}
+          {!connected ? 'Connect Spotify' : track?.playing ? 'Pause' : 'Play'}
         </Text>
         {track && (
           <Text style={{ color: 'white', fontSize: 12 }}>
             {track.name} - {track.artist}
           </Text>
         )}
+        {connected && <Text style={{ color: 'white', fontSize: 10, opacity: 0.7 }}>Hold to disconnect</Text>}
       </View>
     </Pressable>
   );
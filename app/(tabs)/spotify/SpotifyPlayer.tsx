@@ -0,0 +1,385 @@
+// File: app/(tabs)/spotify/SpotifyPlayer.tsx
+import { useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  LayoutChangeEvent,
+  Modal,
+  PanResponder,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { useSpotifyPlayer } from '@/hooks/useSpotifyPlayer';
+import { SpotifyDevice } from './spotify';
+import { useSpotifyAuth } from './spotifyAuth';
+import { SpotifyButton } from './SpotifyButton';
+
+const GREEN = '#1DB954';
+const MUTED = '#9ca3af';
+const BORDER = 'rgba(255,255,255,0.12)';
+
+const DEVICE_ICONS: Record<string, string> = {
+  Computer: '💻',
+  Smartphone: '📱',
+  Speaker: '🔊',
+  TV: '📺',
+  CastAudio: '🔊',
+  Tablet: '📱',
+};
+
+function fmtMs(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Now playing + transport, seek, volume, shuffle / repeat and a Connect device
+ * picker. Falls back to the connect button until Spotify is linked.
+ */
+export function SpotifyPlayer() {
+  const { connected, disconnect } = useSpotifyAuth();
+  const sp = useSpotifyPlayer(connected);
+  const [picking, setPicking] = useState(false);
+  const [loadingDevices, setLoadingDevices] = useState(false);
+
+  if (!connected) return <SpotifyButton />;
+
+  const { player } = sp;
+  const track = player?.track ?? null;
+  const volume = player?.device?.volume ?? null;
+
+  const openDevices = async () => {
+    setPicking(true);
+    setLoadingDevices(true);
+    await sp.loadDevices();
+    setLoadingDevices(false);
+  };
+
+  const pickDevice = (device: SpotifyDevice) => {
+    setPicking(false);
+    if (device.restricted) {
+      Alert.alert('Not available', `${device.name} can't be controlled from here.`);
+      return;
+    }
+    sp.transfer(device);
+  };
+
+  const confirmDisconnect = () =>
+    Alert.alert('Disconnect Spotify?', 'The timer stops controlling your music on this device.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Disconnect', style: 'destructive', onPress: () => void disconnect() },
+    ]);
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.nowPlaying}>
+        {track?.albumArt ? (
+          <Image source={{ uri: track.albumArt }} style={styles.art} />
+        ) : (
+          <View style={[styles.art, styles.artEmpty]}>
+            <Text style={styles.muted}>♪</Text>
+          </View>
+        )}
+        <View style={{ flex: 1 }}>
+          <Text style={styles.title} numberOfLines={1}>
+            {track?.name ?? (player ? 'Nothing queued' : 'Nothing playing')}
+          </Text>
+          <Text style={styles.muted} numberOfLines={1}>
+            {track?.artist ?? 'Start Spotify on a device, then pick it below'}
+          </Text>
+        </View>
+      </View>
+
+      {!!track && (
+        <>
+          <Scrubber
+            value={track.durationMs > 0 ? sp.progressMs / track.durationMs : 0}
+            onCommit={(f) => sp.seek(f * track.durationMs)}
+          />
+          <View style={styles.timeRow}>
+            <Text style={styles.small}>{fmtMs(sp.progressMs)}</Text>
+            <Text style={styles.small}>{fmtMs(track.durationMs)}</Text>
+          </View>
+        </>
+      )}
+
+      <View style={styles.controls}>
+        <Pressable onPress={sp.toggleShuffle} disabled={!player} style={styles.ctrl}>
+          <Text style={[styles.ctrlTxt, player?.shuffle && styles.on]}>🔀</Text>
+        </Pressable>
+        <Pressable onPress={sp.previous} disabled={!player} style={styles.ctrl}>
+          <Text style={styles.ctrlTxt}>⏮</Text>
+        </Pressable>
+        <Pressable onPress={sp.togglePlay} disabled={!player} style={[styles.ctrl, styles.playBtn]}>
+          <Text style={styles.playTxt}>{player?.playing ? '⏸' : '▶'}</Text>
+        </Pressable>
+        <Pressable onPress={sp.next} disabled={!player} style={styles.ctrl}>
+          <Text style={styles.ctrlTxt}>⏭</Text>
+        </Pressable>
+        <Pressable onPress={sp.cycleRepeat} disabled={!player} style={styles.ctrl}>
+          <Text style={[styles.ctrlTxt, player?.repeat !== 'off' && styles.on]}>
+            {player?.repeat === 'track' ? '🔂' : '🔁'}
+          </Text>
+        </Pressable>
+      </View>
+
+      {volume != null && (
+        <View style={styles.volumeRow}>
+          <Text style={styles.small}>🔈</Text>
+          <View style={{ flex: 1 }}>
+            <Scrubber value={volume / 100} onCommit={(f) => sp.setVolume(Math.round(f * 100))} />
+          </View>
+          <Text style={styles.small}>{volume}%</Text>
+        </View>
+      )}
+
+      <View style={styles.footer}>
+        <Pressable onPress={() => void openDevices()} style={styles.deviceBtn}>
+          <Text style={styles.deviceTxt} numberOfLines={1}>
+            {player?.device ? `${DEVICE_ICONS[player.device.type] ?? '🎧'} ${player.device.name}` : '🎧 Pick a device'}
+          </Text>
+        </Pressable>
+        <Pressable onPress={confirmDisconnect}>
+          <Text style={styles.small}>Disconnect</Text>
+        </Pressable>
+      </View>
+
+      {!!sp.error && <Text style={styles.error}>{sp.error}</Text>}
+
+      <Modal visible={picking} transparent animationType="fade" onRequestClose={() => setPicking(false)}>
+        <View style={styles.backdrop}>
+          <Pressable style={{ flex: 1 }} onPress={() => setPicking(false)} />
+          <View style={styles.sheet}>
+            <Text style={styles.title}>Play on</Text>
+            {loadingDevices ? (
+              <ActivityIndicator color="#fff" style={{ marginVertical: 16 }} />
+            ) : sp.devices.length === 0 ? (
+              <Text style={[styles.muted, { marginVertical: 12 }]}>
+                No devices found. Open Spotify on your phone, computer or speaker and try again.
+              </Text>
+            ) : (
+              sp.devices.map((d) => (
+                <Pressable key={d.id} onPress={() => pickDevice(d)} style={styles.deviceRow}>
+                  <Text style={styles.ctrlTxt}>{DEVICE_ICONS[d.type] ?? '🎧'}</Text>
+                  <Text style={[styles.title, { flex: 1 }, d.isActive && styles.on]} numberOfLines={1}>
+                    {d.name}
+                  </Text>
+                  {d.isActive && <Text style={[styles.small, styles.on]}>Playing</Text>}
+                  {d.restricted && <Text style={styles.small}>Unavailable</Text>}
+                </Pressable>
+              ))
+            )}
+            <Pressable onPress={() => void openDevices()} style={styles.deviceBtn}>
+              <Text style={styles.deviceTxt}>Refresh</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+/** Horizontal 0–1 bar; follows the finger while dragging and reports once on release. */
+function Scrubber({ value, onCommit }: { value: number; onCommit: (fraction: number) => void }) {
+  const [width, setWidth] = useState(0);
+  const [drag, setDrag] = useState<number | null>(null);
+  const barRef = useRef<View>(null);
+  const widthRef = useRef(0);
+  const originRef = useRef(0); // bar's page x; locationX is relative to whatever view is under the finger
+  const fingerRef = useRef<number | null>(null); // page x while dragging
+  const commitRef = useRef(onCommit);
+  commitRef.current = onCommit;
+
+  const { pan, measureBar } = useMemo(() => {
+    const at = (pageX: number) => {
+      const w = widthRef.current;
+      return w > 0 ? Math.min(w, Math.max(0, pageX - originRef.current)) / w : 0;
+    };
+    const follow = (pageX: number) => {
+      fingerRef.current = pageX;
+      setDrag(at(pageX));
+    };
+    const stop = () => {
+      fingerRef.current = null;
+      setDrag(null);
+    };
+    const measureBar = () =>
+      barRef.current?.measure((_x, _y, w, _h, pageX) => {
+        widthRef.current = w;
+        originRef.current = pageX;
+        if (fingerRef.current != null) setDrag(at(fingerRef.current));
+      });
+    const pan = PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (e) => {
+        follow(e.nativeEvent.pageX);
+        measureBar(); // the panel may have scrolled since layout
+      },
+      onPanResponderMove: (_e, g) => follow(g.moveX),
+      onPanResponderRelease: (e) => {
+        stop();
+        commitRef.current(at(e.nativeEvent.pageX));
+      },
+      onPanResponderTerminate: stop,
+    });
+    return { pan, measureBar };
+  }, []);
+
+  const onLayout = (e: LayoutChangeEvent) => {
+    widthRef.current = e.nativeEvent.layout.width;
+    setWidth(e.nativeEvent.layout.width);
+    measureBar();
+  };
+
+  const shown = Math.min(1, Math.max(0, drag ?? value));
+
+  return (
+    <View ref={barRef} style={styles.scrubHit} onLayout={onLayout} {...pan.panHandlers}>
+      <View style={styles.scrubTrack} pointerEvents="none">
+        <View style={[styles.scrubFill, { width: shown * width }]} />
+      </View>
+      <View style={[styles.scrubKnob, { left: shown * width - 7 }]} pointerEvents="none" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    gap: 10,
+  },
+  nowPlaying: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  art: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+  },
+  artEmpty: {
+    backgroundColor: '#222',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+  muted: {
+    color: MUTED,
+    fontSize: 13,
+  },
+  small: {
+    color: MUTED,
+    fontSize: 12,
+  },
+  on: {
+    color: GREEN,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: -6,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  ctrl: {
+    padding: 8,
+  },
+  ctrlTxt: {
+    color: '#fff',
+    fontSize: 22,
+  },
+  playBtn: {
+    backgroundColor: GREEN,
+    borderRadius: 999,
+    width: 56,
+    height: 56,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playTxt: {
+    color: '#fff',
+    fontSize: 24,
+  },
+  volumeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  deviceBtn: {
+    flexShrink: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: BORDER,
+    marginTop: 8,
+  },
+  deviceTxt: {
+    color: '#fff',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  error: {
+    color: '#f87171',
+    fontSize: 12,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  sheet: {
+    backgroundColor: '#111',
+    padding: 20,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    gap: 4,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER,
+  },
+  scrubHit: {
+    height: 28,
+    justifyContent: 'center',
+  },
+  scrubTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  scrubFill: {
+    height: '100%',
+    backgroundColor: GREEN,
+  },
+  scrubKnob: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: '#fff',
+  },
+});
@@ -1,37 +1,39 @@
 // app/(tabs)/spotify/spotify.ts
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
-let accessToken: string | null = null;
+import { getValidAccessToken } from './spotifyTokens';
 
-export async function getToken(): Promise<string> {
-  if (accessToken) return accessToken;
+export { SpotifyAuthError, disconnectSpotify } from './spotifyTokens';
 
-  const token = await AsyncStorage.getItem('spotify_access_token');
-  if (token) {
-    accessToken = token;
-    return token;
-  }
-  throw new Error('Spotify token not found. Authenticate first.');
-}
+/*
+ * Every Web API call goes through this client: it attaches a fresh token and,
+ * if Spotify still answers 401 (token revoked server-side or clock skew),
+ * refreshes once and retries.
+ */
+const api = axios.create({ baseURL: 'https://api.spotify.com/v1' });
 
-export async function togglePlayPause() {
-  const token = await getToken();
-  const playback = await axios.get('https://api.spotify.com/v1/me/player', {
-    headers: { Authorization: `Bearer ${token}` },
-  });
+api.interceptors.request.use(async (config) => {
+  config.headers.Authorization = `Bearer ${await getValidAccessToken()}`;
+  return config;
+});
+
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const config = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+  if (error.response?.status !== 401 || !config || config._retried) throw error;
+  config._retried = true;
+  config.headers.Authorization = `Bearer ${await getValidAccessToken(true)}`;
+  return api.request(config);
+});
 
+export async function togglePlayPause() {
+  const playback = await api.get('/me/player');
   const isPlaying = playback.data?.is_playing ?? false;
-  const url = `https://api.spotify.com/v1/me/player/${isPlaying ? 'pause' : 'play'}`;
-  await axios.put(url, {}, { headers: { Authorization: `Bearer ${token}` } });
+  await api.put(`/me/player/${isPlaying ? 'pause' : 'play'}`, {});
 }
 
 export async function getCurrentTrack() {
   try {
-    const token = await getToken();
-    const res = await axios.get('https://api.spotify.com/v1/me/player/currently-playing', {
-      headers: { Authorization: `Bearer ${token}` },
-    });
+    const res = await api.get('/me/player/currently-playing');
     if (!res.data) return null;
     return {
       name: res.data.item.name,
@@ -43,3 +45,144 @@ export async function getCurrentTrack() {
     return null;
   }
 }
+
+/* ---------- playback control (used by the timer's music automation) ---------- */
+
+const PLAYER_URL = '/me/player';
+
+/** Where playback was, so it can be picked up again after a detour. */
+export type PlaybackPoint = {
+  contextUri: string | null; // playlist / album; null for a lone track
+  trackUri: string;
+  positionMs: number;
+};
+
+export type PlaybackState = {
+  playing: boolean;
+  volume: number | null;
+  point: PlaybackPoint | null; // null for ads or when nothing is loaded
+};
+
+export async function getPlaybackState(): Promise<PlaybackState | null> {
+  const res = await api.get(PLAYER_URL);
+  if (!res.data) return null; // 204: no active device
+  const item = res.data.item;
+  return {
+    playing: Boolean(res.data.is_playing),
+    volume: res.data.device?.volume_percent ?? null,
+    point: item?.uri
+      ? { contextUri: res.data.context?.uri ?? null, trackUri: item.uri, positionMs: res.data.progress_ms ?? 0 }
+      : null,
+  };
+}
+
+export async function pausePlayback() {
+  await api.put(`${PLAYER_URL}/pause`, {});
+}
+
+/** Resumes what was playing, or starts `contextUri` (a playlist/album URI) from the top. */
+export async function resumePlayback(contextUri?: string) {
+  await api.put(`${PLAYER_URL}/play`, contextUri ? { context_uri: contextUri } : {});
+}
+
+/** Plays from a saved point: same playlist, same track, same position. */
+export async function playFrom(point: PlaybackPoint) {
+  const body = point.contextUri
+    ? { context_uri: point.contextUri, offset: { uri: point.trackUri } }
+    : { uris: [point.trackUri] };
+  await api.put(`${PLAYER_URL}/play`, { ...body, position_ms: Math.max(0, Math.round(point.positionMs)) });
+}
+
+export async function skipToNext() {
+  await api.post(`${PLAYER_URL}/next`, {});
+}
+
+export async function setPlaybackVolume(percent: number) {
+  await api.put(`${PLAYER_URL}/volume`, {}, {
+    params: { volume_percent: Math.round(Math.max(0, Math.min(100, percent))) },
+  });
+}
+
+/* ---------- player panel ---------- */
+
+export type RepeatMode = 'off' | 'context' | 'track';
+
+export type SpotifyDevice = {
+  id: string;
+  name: string;
+  type: string; // "Computer", "Smartphone", "Speaker", …
+  isActive: boolean;
+  restricted: boolean; // rejects Web API commands (some TVs / cast targets)
+  volume: number | null;
+};
+
+export type PlayerSnapshot = {
+  track: { uri: string; name: string; artist: string; albumArt: string | null; durationMs: number } | null;
+  playing: boolean;
+  progressMs: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  device: SpotifyDevice | null;
+  fetchedAt: number; // local ms, for interpolating progress between polls
+};
+
+function toDevice(d: any): SpotifyDevice {
+  return {
+    id: d.id,
+    name: d.name,
+    type: d.type,
+    isActive: Boolean(d.is_active),
+    restricted: Boolean(d.is_restricted),
+    volume: d.volume_percent ?? null,
+  };
+}
+
+/** Full player state; null when nothing is playing anywhere (no active device). */
+export async function getPlayer(): Promise<PlayerSnapshot | null> {
+  const res = await api.get(PLAYER_URL);
+  if (!res.data) return null;
+  const item = res.data.item;
+  return {
+    track: item
+      ? {
+          uri: item.uri,
+          name: item.name,
+          artist: (item.artists ?? (item.show ? [item.show] : [])).map((a: any) => a.name).join(', '),
+          albumArt: (item.album ?? item).images?.[0]?.url ?? null,
+          durationMs: item.duration_ms ?? 0,
+        }
+      : null,
+    playing: Boolean(res.data.is_playing),
+    progressMs: res.data.progress_ms ?? 0,
+    shuffle: Boolean(res.data.shuffle_state),
+    repeat: (res.data.repeat_state as RepeatMode) ?? 'off',
+    device: res.data.device ? toDevice(res.data.device) : null,
+    fetchedAt: Date.now(),
+  };
+}
+
+export async function skipToPrevious() {
+  await api.post(`${PLAYER_URL}/previous`, {});
+}
+
+export async function seekTo(positionMs: number) {
+  await api.put(`${PLAYER_URL}/seek`, {}, { params: { position_ms: Math.max(0, Math.round(positionMs)) } });
+}
+
+export async function setShuffle(on: boolean) {
+  await api.put(`${PLAYER_URL}/shuffle`, {}, { params: { state: on } });
+}
+
+export async function setRepeat(mode: RepeatMode) {
+  await api.put(`${PLAYER_URL}/repeat`, {}, { params: { state: mode } });
+}
+
+export async function getDevices(): Promise<SpotifyDevice[]> {
+  const res = await api.get(`${PLAYER_URL}/devices`);
+  return (res.data?.devices ?? []).filter((d: any) => d.id).map(toDevice);
+}
+
+/** Moves playback to another Spotify Connect device; `play` keeps it going there. */
+export async function transferPlayback(deviceId: string, play: boolean) {
+  await api.put(PLAYER_URL, { device_ids: [deviceId], play });
+}
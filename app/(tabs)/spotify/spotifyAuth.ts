@@ -36,35 +36,74 @@
 
 
 // app/(tabs)/spotify/spotifyAuth.ts
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { makeRedirectUri, ResponseType, useAuthRequest } from 'expo-auth-session';
-import { useEffect } from 'react';
+import { exchangeCodeAsync, makeRedirectUri, ResponseType, useAuthRequest } from 'expo-auth-session';
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  SPOTIFY_CLIENT_ID,
+  SPOTIFY_DISCOVERY,
+  SpotifyAuthStatus,
+  disconnectSpotify,
+  hasSpotifySession,
+  onSpotifyAuthChange,
+  saveTokenResponse,
+} from './spotifyTokens';
 
-const CLIENT_ID = '205b7a20d6df461b8d2abe82c6c7a263';
 const REDIRECT_URI = makeRedirectUri();
 const SCOPES = ['user-read-playback-state', 'user-modify-playback-state', 'streaming'];
-const DISCOVERY = {
-  authorizationEndpoint: 'https://accounts.spotify.com/authorize',
-  tokenEndpoint: 'https://accounts.spotify.com/api/token',
-};
 
+/**
+ * Authorization code + PKCE: the code from the consent screen is swapped for
+ * an access / refresh token pair right here, so no client secret is needed.
+ */
 export function useSpotifyAuth() {
-  const [request, response, promptAsync] = useAuthRequest(
+  const [request, , promptAsync] = useAuthRequest(
     {
-      clientId: CLIENT_ID,
+      clientId: SPOTIFY_CLIENT_ID,
       scopes: SCOPES,
-      responseType: ResponseType.Token,
+      responseType: ResponseType.Code,
+      usePKCE: true,
       redirectUri: REDIRECT_URI,
     },
-    DISCOVERY
+    SPOTIFY_DISCOVERY
   );
+  const [status, setStatus] = useState<SpotifyAuthStatus | null>(null); // null until storage is read
 
   useEffect(() => {
-    if (response?.type === 'success' && response.authentication?.accessToken) {
-      AsyncStorage.setItem('spotify_access_token', response.authentication.accessToken);
-    }
-  }, [response]);
+    let cancelled = false;
+    hasSpotifySession().then((ok) => {
+      if (!cancelled) setStatus((s) => s ?? (ok ? 'connected' : 'disconnected'));
+    });
+    const unsub = onSpotifyAuthChange(setStatus);
+    return () => {
+      cancelled = true;
+      unsub();
+    };
+  }, []);
 
-  return { request, promptAsync };
-}
+  /** Opens the consent screen and stores the tokens; false if the user backed out. */
+  const connect = useCallback(async (): Promise<boolean> => {
+    if (!request) return false;
+    const result = await promptAsync();
+    if (result.type !== 'success' || !result.params.code) return false;
+    const tokens = await exchangeCodeAsync(
+      {
+        clientId: SPOTIFY_CLIENT_ID,
+        code: result.params.code,
+        redirectUri: REDIRECT_URI,
+        extraParams: { code_verifier: request.codeVerifier ?? '' },
+      },
+      SPOTIFY_DISCOVERY
+    );
+    await saveTokenResponse(tokens);
+    return true;
+  }, [request, promptAsync]);
 
+  return {
+    ready: !!request,
+    connected: status === 'connected',
+    revoked: status === 'revoked',
+    connect,
+    disconnect: disconnectSpotify,
+  };
+}
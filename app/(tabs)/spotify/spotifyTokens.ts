@@ -0,0 +1,149 @@
+// app/(tabs)/spotify/spotifyTokens.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TokenResponse, refreshAsync } from 'expo-auth-session';
+
+export const SPOTIFY_CLIENT_ID = '205b7a20d6df461b8d2abe82c6c7a263';
+
+// Point at a local mock (e.g. http://192.168.1.10:4000) to exercise sign-in and refresh without Spotify
+const ACCOUNTS_URL = process.env.EXPO_PUBLIC_SPOTIFY_ACCOUNTS_URL || 'https://accounts.spotify.com';
+
+export const SPOTIFY_DISCOVERY = {
+  authorizationEndpoint: `${ACCOUNTS_URL}/authorize`,
+  tokenEndpoint: `${ACCOUNTS_URL}/api/token`,
+};
+
+const STORAGE_KEY = 'spotify_tokens';
+const LEGACY_KEY = 'spotify_access_token'; // implicit-grant token; can't be refreshed
+const REFRESH_EARLY_MS = 60 * 1000; // refresh a minute before expiry so calls never race it
+
+export type SpotifyTokens = {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // epoch ms
+};
+
+export type SpotifyAuthStatus = 'connected' | 'disconnected' | 'revoked';
+
+/** Thrown when there's no usable session; `revoked` means the user pulled consent in Spotify. */
+export class SpotifyAuthError extends Error {
+  constructor(public readonly reason: 'missing' | 'revoked') {
+    super(reason === 'revoked' ? 'Spotify access was revoked. Connect again.' : 'Connect Spotify first.');
+    this.name = 'SpotifyAuthError';
+  }
+}
+
+let cached: SpotifyTokens | null | undefined; // undefined until read from storage
+let refreshing: Promise<SpotifyTokens> | null = null;
+let generation = 0; // bumped when the session is replaced or dropped, so a refresh in flight can't bring it back
+const listeners = new Set<(status: SpotifyAuthStatus) => void>();
+
+function emit(status: SpotifyAuthStatus) {
+  listeners.forEach((l) => l(status));
+}
+
+export function onSpotifyAuthChange(listener: (status: SpotifyAuthStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function loadTokens(): Promise<SpotifyTokens | null> {
+  if (cached !== undefined) return cached;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const v = raw ? JSON.parse(raw) : null;
+    cached =
+      typeof v?.accessToken === 'string' && typeof v?.refreshToken === 'string' && typeof v?.expiresAt === 'number'
+        ? v
+        : null;
+    await AsyncStorage.removeItem(LEGACY_KEY);
+  } catch (e) {
+    console.warn('[spotify] token load error:', e);
+    cached = null;
+  }
+  return cached ?? null;
+}
+
+async function storeTokens(tokens: SpotifyTokens | null): Promise<void> {
+  cached = tokens;
+  if (tokens) await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  else await AsyncStorage.removeItem(STORAGE_KEY);
+}
+
+// Refresh responses may omit a new refresh token
+function toTokens(res: TokenResponse, previousRefresh?: string): SpotifyTokens {
+  const refreshToken = res.refreshToken ?? previousRefresh;
+  if (!refreshToken) throw new Error('Spotify did not return a refresh token');
+  return {
+    accessToken: res.accessToken,
+    refreshToken,
+    expiresAt: (res.issuedAt ?? Math.floor(Date.now() / 1000)) * 1000 + (res.expiresIn ?? 3600) * 1000,
+  };
+}
+
+/** Saves the tokens from a code exchange as the new session. */
+export async function saveTokenResponse(res: TokenResponse): Promise<SpotifyTokens> {
+  const tokens = toTokens(res);
+  generation++;
+  await storeTokens(tokens);
+  emit('connected');
+  return tokens;
+}
+
+export async function hasSpotifySession(): Promise<boolean> {
+  return (await loadTokens()) != null;
+}
+
+function isRevoked(e: any): boolean {
+  return e?.code === 'invalid_grant' || e?.params?.error === 'invalid_grant';
+}
+
+async function refresh(tokens: SpotifyTokens): Promise<SpotifyTokens> {
+  const gen = generation;
+  // Disconnected (or signed in again) while the refresh was in flight: keep whatever is current
+  const superseded = () => {
+    if (cached) return cached;
+    throw new SpotifyAuthError('missing');
+  };
+  let res: TokenResponse;
+  try {
+    res = await refreshAsync({ clientId: SPOTIFY_CLIENT_ID, refreshToken: tokens.refreshToken }, SPOTIFY_DISCOVERY);
+  } catch (e) {
+    if (gen !== generation) return superseded();
+    if (!isRevoked(e)) throw e;
+    generation++;
+    await storeTokens(null);
+    emit('revoked');
+    throw new SpotifyAuthError('revoked');
+  }
+  if (gen !== generation) return superseded();
+  const next = toTokens(res, tokens.refreshToken);
+  await storeTokens(next);
+  emit('connected');
+  return next;
+}
+
+/**
+ * A non-expired access token, refreshing first when it's close to expiry.
+ * Concurrent callers share one refresh. `force` skips the expiry check, for
+ * when the API rejected a token that looked fresh.
+ */
+export async function getValidAccessToken(force = false): Promise<string> {
+  const tokens = await loadTokens();
+  if (!tokens) throw new SpotifyAuthError('missing');
+  if (!force && tokens.expiresAt - REFRESH_EARLY_MS > Date.now()) return tokens.accessToken;
+  if (!refreshing) {
+    refreshing = refresh(tokens).finally(() => {
+      refreshing = null;
+    });
+  }
+  return (await refreshing).accessToken;
+}
+
+/** Forgets the session on this device. Spotify has no revoke endpoint; users remove the app in their account. */
+export async function disconnectSpotify(): Promise<void> {
+  generation++;
+  await storeTokens(null);
+  emit('disconnected');
+}
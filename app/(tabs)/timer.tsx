@@ -1335,38 +1335,86 @@
 //////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // File: app/(tabs)/timer.tsx
 
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+  Alert,
   AppState,
   AppStateStatus,
+  Modal,
   Pressable,
+  ScrollView,
+  Share,
   StyleSheet,
   Text,
   Vibration,
   View,
 } from 'react-native';
-import { SpotifyButton } from './spotify/SpotifyButton';
 
-type Phase = 'idle' | 'work' | 'rest' | 'done';
-
-type Settings = {
-  roundsTotal: number;
-  roundLengthSec: number;
-  restLengthSec: number;
-};
-
-type TimerState = {
-  phase: Phase;
-  currentRound: number;
-  remaining: number;
-};
+import ComboCallerSettings from '@/components/timer/ComboCallerSettings';
+import JudgingPanel from '@/components/timer/JudgingPanel';
+import MusicAutomationSettings from '@/components/timer/MusicAutomationSettings';
+import PresetLibrary from '@/components/timer/PresetLibrary';
+import ProgramBuilder from '@/components/timer/ProgramBuilder';
+import RoundScoreSheet from '@/components/timer/RoundScoreSheet';
+import SoundSettings from '@/components/timer/SoundSettings';
+import SparringRotation, { PairingsBoard } from '@/components/timer/SparringRotation';
+import WallDisplay from '@/components/timer/WallDisplay';
+import WorkoutReflection from '@/components/timer/WorkoutReflection';
+import { useComboCaller } from '@/hooks/useComboCaller';
+import { useJudging } from '@/hooks/useJudging';
+import { useMusicAutomation } from '@/hooks/useMusicAutomation';
+import { useSparringRotation } from '@/hooks/useSparringRotation';
+import { useTimerAudio } from '@/hooks/useTimerAudio';
+import { useTimerNotifications } from '@/hooks/useTimerNotifications';
+import { useWorkoutLog } from '@/hooks/useWorkoutLog';
+import { DEFAULT_MUSIC_AUTOMATION, MusicAutomation } from '@/lib/musicAutomation';
+import { COUNTDOWN_SEC } from '@/lib/timerAudio';
+import {
+  DEFAULT_SETTINGS,
+  TimerSession,
+  activeProgram,
+  addReps,
+  addTime,
+  createSession,
+  deriveTimerState,
+  isSessionRunning,
+  jumpToRound,
+  loadTimerSession,
+  pauseSession,
+  resetSession,
+  restartStep,
+  resumeSession,
+  saveTimerSession,
+  skipStep,
+  startOrResumeSession,
+  startSession,
+  undoEdit,
+} from '@/lib/timerEngine';
+import { TimerLink, createTimerLink, parseTimerLinkParams } from '@/lib/timerLinks';
+import { TimerPreset, loadLocalPresets } from '@/lib/timerPresets';
+import {
+  KIND_LABELS,
+  MODE_DEFAULTS,
+  MODE_LABELS,
+  Program,
+  QUICK_PRESETS,
+  SegmentKind,
+  Settings,
+  TIMER_MODES,
+  TimerMode,
+  keepMusic,
+  settingsMode,
+} from '@/lib/timerProgram';
+import { SpotifyPlayer } from './spotify/SpotifyPlayer';
 
 const RED = '#f70000';
 const CARD_BG = 'rgba(0,0,0,0.82)';
 const BORDER = 'rgba(255,255,255,0.12)';
 const MUTED = '#9ca3af';
 const TEXT = '#fff';
+const TICK_MS = 250;
+const FAST_TICK_MS = 100; // short-interval modes show tenths
 
 function clamp(n: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, n));
@@ -1381,48 +1429,92 @@ function fmtTime(totalSeconds: number): string {
   return `${mm}:${ss}`;
 }
 
+function fmtTenths(ms: number): string {
+  const tenths = Math.max(0, Math.ceil(ms / 100));
+  return `${fmtTime(Math.floor(tenths / 10))}.${tenths % 10}`;
+}
+
+function fmtLength(sec: number): string {
+  return sec < 60 ? `${sec}s` : fmtTime(sec);
+}
+
 export default function FightTimerScreen(): React.ReactElement {
   const router = useRouter(); // For Party Mode navigation
-
-  // Settings
-  const [settings, setSettings] = useState<Settings>({
-    roundsTotal: 3,
-    roundLengthSec: 3 * 60,
-    restLengthSec: 60,
-  });
-
-  // Timer state
-  const [state, setState] = useState<TimerState>({
-    phase: 'idle',
-    currentRound: 1,
-    remaining: settings.roundLengthSec,
-  });
-  const [running, setRunning] = useState<boolean>(false);
+  const params = useLocalSearchParams<Record<string, string>>(); // deep-link actions, see lib/timerLinks
+
+  // Session (settings + wall-clock anchors); everything else is derived
+  const [session, setSession] = useState<TimerSession>(() => createSession(DEFAULT_SETTINGS));
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [hydrated, setHydrated] = useState<boolean>(false);
+  const [builderOpen, setBuilderOpen] = useState<boolean>(false);
+  const [wallOpen, setWallOpen] = useState<boolean>(false);
+
+  const settings = session.settings;
+  const mode = settingsMode(settings);
+  const precise = mode === 'tabata' || mode === 'emom';
+  const state = useMemo(() => deriveTimerState(session, now), [session, now]);
+  const running = isSessionRunning(session, now);
+  // A run (or its lead-in) is under way; quick settings would rewrite it mid-round
+  const setupLocked = state.countdown > 0 || (state.phase !== 'idle' && state.phase !== 'done');
+  const { audio, updateAudio } = useTimerAudio(state, hydrated);
+  const { combo, updateCombo, currentCall } = useComboCaller(state, running);
+  const { canLog, logRun, reflectionId, closeReflection } = useWorkoutLog();
+  const { sparring, updateSparring, pairs, pairsRound, upcoming } = useSparringRotation(state);
+  const { judging, updateJudging, pendingRound, submitRound, skipRound, scores, scoredRounds, totals, decision } =
+    useJudging(state);
+  useTimerNotifications(session, hydrated);
+  useMusicAutomation(state, running, settings.music);
 
   // Refs
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const lastTickRef = useRef<number | null>(null);
+  const lastPhaseKeyRef = useRef<string | null>(null);
+  const handledLinkRef = useRef<string | null>(null);
 
   /** ---------------- TIMER LOGIC ---------------- */
 
+  // Restore a persisted session (e.g. after the app was killed mid-round)
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const saved = await loadTimerSession();
+      if (!alive) return;
+      const t = Date.now();
+      if (saved) {
+        const s = deriveTimerState(saved, t);
+        lastPhaseKeyRef.current = `${s.phase}:${s.stepIndex}`;
+        setSession(saved);
+      }
+      setNow(t);
+      setHydrated(true);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (hydrated) void saveTimerSession(session);
+  }, [session, hydrated]);
+
+  // Catch up instantly when returning from background / screen lock
   useEffect(() => {
     const onChange = (s: AppStateStatus) => {
-      if (s !== 'active' && running) setRunning(false);
+      if (s === 'active') setNow(Date.now());
     };
     const sub = AppState.addEventListener('change', onChange);
     return () => sub.remove();
-  }, [running]);
+  }, []);
 
-  const totalForPhase = useMemo(() => {
-    if (state.phase === 'work') return settings.roundLengthSec;
-    if (state.phase === 'rest') return settings.restLengthSec;
-    return state.remaining;
-  }, [state.phase, state.remaining, settings.roundLengthSec, settings.restLengthSec]);
+  // The interval only triggers re-renders; it never accumulates time itself
+  useEffect(() => {
+    if (!running) return;
+    const id = setInterval(() => setNow(Date.now()), precise ? FAST_TICK_MS : TICK_MS);
+    return () => clearInterval(id);
+  }, [running, precise]);
 
   const progress = useMemo(() => {
-    if (totalForPhase <= 0) return 0;
-    return 1 - clamp(state.remaining / totalForPhase, 0, 1);
-  }, [state.remaining, totalForPhase]);
+    if (state.phaseLengthSec <= 0) return state.phase === 'done' ? 1 : 0;
+    return 1 - clamp(state.remainingMs / (state.phaseLengthSec * 1000), 0, 1);
+  }, [state.phase, state.remainingMs, state.phaseLengthSec]);
 
   const vibrate = useCallback((pattern: 'short' | 'phase' | 'done') => {
     if (pattern === 'short') Vibration.vibrate(50);
@@ -1430,124 +1522,207 @@ export default function FightTimerScreen(): React.ReactElement {
     if (pattern === 'done') Vibration.vibrate([0, 220, 120, 220, 120, 220]);
   }, []);
 
-  const startFromIdle = useCallback(() => {
-    setState({
-      phase: 'work',
-      currentRound: 1,
-      remaining: settings.roundLengthSec,
-    });
-    setRunning(true);
-    vibrate('phase');
-  }, [settings.roundLengthSec, vibrate]);
-
-  const nextPhase = useCallback(
-    (prev: TimerState): TimerState => {
-      if (prev.phase === 'work') {
-        if (prev.currentRound >= settings.roundsTotal) {
-          vibrate('done');
-          return { phase: 'done', currentRound: prev.currentRound, remaining: 0 };
-        }
-        if (settings.restLengthSec > 0) {
-          vibrate('phase');
-          return { phase: 'rest', currentRound: prev.currentRound, remaining: settings.restLengthSec };
+  // Cue phase changes once, even if several were skipped while backgrounded
+  useEffect(() => {
+    if (!hydrated) return;
+    const key = `${state.phase}:${state.stepIndex}`;
+    const prev = lastPhaseKeyRef.current;
+    lastPhaseKeyRef.current = key;
+    if (prev === null || prev === key) return;
+    if (state.phase === 'done') vibrate('done');
+    else if (state.phase !== 'idle') vibrate('phase');
+  }, [hydrated, state.phase, state.stepIndex, vibrate]);
+
+  // Record a finished run once (also covers runs that ended while the app was closed)
+  useEffect(() => {
+    if (!hydrated || !canLog || state.phase !== 'done' || session.logged) return;
+    void logRun(session, 'completed', Date.now());
+    setSession((s) => ({ ...s, logged: true }));
+  }, [hydrated, canLog, state.phase, session, logRun]);
+
+  // Anything that throws away a run in progress records it as abandoned first
+  // Read the latest session, not this render's: two replaces can land before a re-render
+  const abandonedRef = useRef<TimerSession | null>(null);
+  const replaceSession = useCallback(
+    (make: (s: TimerSession) => TimerSession) => {
+      const t = Date.now();
+      setSession((s) => {
+        // Updaters can run twice in development; log each run once
+        if (abandonedRef.current !== s && deriveTimerState(s, t).phase !== 'done') {
+          abandonedRef.current = s;
+          void logRun(s, 'abandoned', t);
         }
-        vibrate('phase');
-        return {
-          phase: 'work',
-          currentRound: prev.currentRound + 1,
-          remaining: settings.roundLengthSec,
-        };
-      }
-      if (prev.phase === 'rest') {
-        vibrate('phase');
-        return {
-          phase: 'work',
-          currentRound: prev.currentRound + 1,
-          remaining: settings.roundLengthSec,
-        };
-      }
-      return prev;
+        return make(s);
+      });
+      setNow(t);
     },
-    [settings.roundLengthSec, settings.restLengthSec, settings.roundsTotal, vibrate]
+    [logRun]
   );
 
-  const tick = useCallback(() => {
-    setState((s) => {
-      if (s.phase === 'idle' || s.phase === 'done') return s;
-      const now = Date.now();
-      const last = lastTickRef.current ?? now;
-      lastTickRef.current = now;
-      const delta = Math.max(0, Math.round((now - last) / 1000));
-      const nextRemaining = s.remaining - (delta || 1);
-      if (nextRemaining <= 0) return nextPhase({ ...s, remaining: 0 });
-      return { ...s, remaining: nextRemaining };
-    });
-  }, [nextPhase]);
-
-  useEffect(() => {
-    if (!running) {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-      intervalRef.current = null;
-      lastTickRef.current = null;
-      return;
-    }
-    lastTickRef.current = Date.now();
-    intervalRef.current = setInterval(tick, 1000);
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    };
-  }, [running, tick]);
-
   const toggleRun = useCallback(() => {
-    if (state.phase === 'idle') {
-      startFromIdle();
+    const t = Date.now();
+    setNow(t);
+    if (state.countdown > 0) {
+      setSession((s) => resetSession(s));
+      vibrate('short');
       return;
     }
-    if (state.phase === 'done') {
-      setState({ phase: 'work', currentRound: 1, remaining: settings.roundLengthSec });
-      setRunning(true);
-      vibrate('phase');
+    if (state.phase === 'idle' || state.phase === 'done') {
+      const leadInMs = audio.enabled && audio.countdown ? COUNTDOWN_SEC * 1000 : 0;
+      setSession((s) => startSession(s, t, leadInMs));
       return;
     }
-    setRunning((r) => !r);
+    setSession((s) => (s.pausedAt != null ? resumeSession(s, t) : pauseSession(s, t)));
     vibrate('short');
-  }, [state.phase, startFromIdle, settings.roundLengthSec, vibrate]);
+  }, [state.phase, state.countdown, audio.enabled, audio.countdown, vibrate]);
+
+  // Skip / add time / restart / jump are recorded as edits so Undo can take them back
+  const editSession = useCallback(
+    (edit: (s: TimerSession, t: number) => TimerSession) => {
+      const t = Date.now();
+      setNow(t);
+      setSession((s) => edit(s, t));
+      vibrate('short');
+    },
+    [vibrate]
+  );
 
   const resetAll = useCallback(() => {
-    setRunning(false);
-    setState({ phase: 'idle', currentRound: 1, remaining: settings.roundLengthSec });
+    replaceSession((s) => resetSession(s));
     vibrate('short');
-  }, [settings.roundLengthSec, vibrate]);
-
-  const quickPreset = useCallback((preset: 'boxing' | 'mma' | 'short') => {
-    if (preset === 'boxing') setSettings({ roundsTotal: 3, roundLengthSec: 3 * 60, restLengthSec: 60 });
-    else if (preset === 'mma') setSettings({ roundsTotal: 5, roundLengthSec: 5 * 60, restLengthSec: 60 });
-    else setSettings({ roundsTotal: 3, roundLengthSec: 60, restLengthSec: 20 });
-
-    setRunning(false);
-    setState({
-      phase: 'idle',
-      currentRound: 1,
-      remaining: preset === 'mma' ? 5 * 60 : preset === 'boxing' ? 3 * 60 : 60,
-    });
+  }, [replaceSession, vibrate]);
+
+  const quickPreset = useCallback(
+    (next: Settings) => replaceSession((s) => createSession(keepMusic(next, s.settings))),
+    [replaceSession]
+  );
+
+  const selectMode = useCallback(
+    (next: TimerMode) => {
+      if (next !== mode) replaceSession((s) => createSession(keepMusic(MODE_DEFAULTS[next], s.settings)));
+    },
+    [mode, replaceSession]
+  );
+
+  const updateMusic = useCallback((patch: Partial<MusicAutomation>) => {
+    setSession((s) => ({
+      ...s,
+      settings: { ...s.settings, music: { ...(s.settings.music ?? DEFAULT_MUSIC_AUTOMATION), ...patch } },
+    }));
   }, []);
 
-  const inc = useCallback((key: keyof Settings, step: number) => {
-    setSettings((s) => {
-      if (key === 'roundsTotal') return { ...s, roundsTotal: clamp(s.roundsTotal + step, 1, 12) };
-      if (key === 'roundLengthSec') return { ...s, roundLengthSec: clamp(s.roundLengthSec + step, 10, 20 * 60) };
-      if (key === 'restLengthSec') return { ...s, restLengthSec: clamp(s.restLengthSec + step, 0, 10 * 60) };
-      return s;
-    });
+  const inc = useCallback(
+    (key: keyof Settings, step: number) => {
+      replaceSession((sess) => {
+        const s = sess.settings;
+        const short = settingsMode(s) === 'tabata';
+        let next: Settings = s;
+        if (key === 'roundsTotal') next = { ...s, roundsTotal: clamp(s.roundsTotal + step, 1, settingsMode(s) === 'emom' ? 60 : 20) };
+        if (key === 'roundLengthSec') next = { ...s, roundLengthSec: clamp(s.roundLengthSec + step, short ? 5 : 10, short ? 5 * 60 : 60 * 60) };
+        if (key === 'restLengthSec') next = { ...s, restLengthSec: clamp(s.restLengthSec + step, 0, short ? 2 * 60 : 10 * 60) };
+        if (key === 'targetReps') next = { ...s, targetReps: clamp((s.targetReps ?? 0) + step, 1, 100) };
+        // Editing the quick settings drops back to plain rounds; a fresh session
+        // also drops skip / add-time edits recorded against the old schedule
+        return createSession(next);
+      });
+    },
+    [replaceSession]
+  );
+
+  const applyProgram = useCallback(
+    (program: Program) => {
+      replaceSession((s) => createSession(s.settings, program));
+      setBuilderOpen(false);
+    },
+    [replaceSession]
+  );
+
+  const loadPreset = useCallback(
+    (preset: TimerPreset) =>
+      replaceSession((s) => createSession(keepMusic(preset.settings, s.settings), preset.program)),
+    [replaceSession]
+  );
+
+  const clearProgram = useCallback(() => replaceSession((s) => createSession(s.settings)), [replaceSession]);
+
+  const bumpReps = useCallback((delta: number) => {
+    setSession((s) => addReps(s, delta));
+    Vibration.vibrate(20);
   }, []);
 
-  const phaseLabel = state.phase === 'work' ? 'ROUND' : state.phase === 'rest' ? 'REST' : state.phase === 'done' ? 'DONE' : 'READY';
+  const shareSetup = useCallback(async () => {
+    try {
+      await Share.share({ message: createTimerLink('load', settings, session.program) });
+    } catch (e) {
+      console.warn('[timer] share link error:', e);
+    }
+  }, [settings, session.program]);
+
+  /** ---------------- DEEP LINKS ---------------- */
+
+  const runLink = useCallback(
+    (link: TimerLink) => {
+      const apply = () => {
+        if (link.setup) {
+          const { settings: nextSettings, program } = link.setup;
+          replaceSession((s) => createSession(keepMusic(nextSettings, s.settings), program));
+        } else if (link.action === 'reset') {
+          replaceSession((s) => resetSession(s));
+        }
+        const t = Date.now();
+        if (link.action === 'start') {
+          const leadInMs = audio.enabled && audio.countdown ? COUNTDOWN_SEC * 1000 : 0;
+          setSession((s) => startOrResumeSession(s, t, leadInMs));
+        }
+        if (link.action === 'pause') setSession((s) => pauseSession(s, t));
+        setNow(t);
+      };
+
+      const inProgress = state.countdown > 0 || (state.phase !== 'idle' && state.phase !== 'done');
+      if (inProgress && (link.setup || link.action === 'reset')) {
+        Alert.alert('Replace current session?', 'This link stops the timer that is running now.', [
+          { text: 'Keep current', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: apply },
+        ]);
+        return;
+      }
+      apply();
+    },
+    [state.countdown, state.phase, replaceSession, audio.enabled, audio.countdown]
+  );
+
+  useEffect(() => {
+    const nonce = params.nonce;
+    if (!hydrated || !params.link || !nonce || handledLinkRef.current === nonce) return;
+    handledLinkRef.current = nonce;
+    router.setParams({ link: undefined, nonce: undefined });
+    (async () => {
+      const parsed = parseTimerLinkParams(params, await loadLocalPresets());
+      if (!parsed.ok) {
+        Alert.alert('Timer link not valid', parsed.error);
+        return;
+      }
+      runLink(parsed.link);
+    })();
+  }, [hydrated, params, router, runLink]);
+
+  const inSession = state.countdown === 0 && state.phase !== 'idle' && state.phase !== 'done';
+
+  const phaseLabel =
+    state.countdown > 0
+      ? 'GET READY'
+      : state.phase === 'work'
+      ? mode === 'rounds' ? 'ROUND' : state.label.toUpperCase()
+      : state.phase === 'idle'
+      ? 'READY'
+      : state.phase === 'done'
+      ? 'DONE'
+      : KIND_LABELS[state.phase].toUpperCase();
 
   /** ---------------- RENDER ---------------- */
 
   return (
-    <View style={styles.root}>
+    <ScrollView style={styles.root} contentContainerStyle={{ paddingBottom: 24 }}>
       <Text style={styles.screenTitle}>Timer</Text>
 
       {/* Timer Card */}
@@ -1569,26 +1744,98 @@ export default function FightTimerScreen(): React.ReactElement {
           >
             {phaseLabel}
           </Text>
-          <Text style={styles.timeText}>{fmtTime(state.remaining)}</Text>
+          <Text style={styles.timeText}>
+            {state.countdown > 0 ? state.countdown : precise ? fmtTenths(state.remainingMs) : fmtTime(state.remaining)}
+          </Text>
           <Text style={styles.roundText}>
             {state.phase === 'done'
-              ? `Completed ${settings.roundsTotal} / ${settings.roundsTotal}`
-              : `Round ${state.currentRound} / ${settings.roundsTotal}`}
+              ? mode === 'amrap' && !session.program
+                ? `Time! ${session.reps} reps`
+                : `Completed ${state.roundsTotal} / ${state.roundsTotal}`
+              : mode === 'amrap' && !session.program
+              ? `${MODE_LABELS.amrap} · ${fmtTime(settings.roundLengthSec)} cap`
+              : state.phase === 'warmup' || state.phase === 'cooldown'
+              ? state.label
+              : `${state.phase === 'work' ? state.label : 'Round'} ${state.currentRound} / ${state.roundsTotal}`}
           </Text>
+          {mode === 'emom' && !session.program && state.phase !== 'done' && (
+            <Text style={styles.roundText}>Target: {settings.targetReps ?? 0} reps this minute</Text>
+          )}
+          {!!currentCall && <Text style={styles.comboText}>{currentCall}</Text>}
+          {!!state.next && state.phase !== 'idle' && (
+            <Text style={styles.roundText}>
+              Next: {state.next.label} · {fmtTime(state.next.lengthSec)}
+            </Text>
+          )}
+          {!!pairs && <PairingsBoard pairs={pairs} round={pairsRound} upcoming={upcoming} />}
         </View>
 
+        {inSession && (
+          <View style={styles.editPanel}>
+            <View style={styles.editRow}>
+              {state.phase === 'work' ? (
+                <EditBtn label="Restart Round" onPress={() => editSession(restartStep)} />
+              ) : (
+                <EditBtn label={`Skip ${KIND_LABELS[state.phase as SegmentKind]}`} onPress={() => editSession(skipStep)} />
+              )}
+              <EditBtn label="−30s" onPress={() => editSession((s, t) => addTime(s, t, -30))} />
+              <EditBtn label="+30s" onPress={() => editSession((s, t) => addTime(s, t, 30))} />
+              <EditBtn
+                label="Undo"
+                disabled={session.edits.length === 0}
+                onPress={() => editSession((s) => undoEdit(s))}
+              />
+            </View>
+            {state.roundsTotal > 1 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.jumpRow}>
+                <Text style={styles.roundText}>Jump to</Text>
+                {Array.from({ length: state.roundsTotal }, (_, i) => i + 1).map((r) => (
+                  <Pressable
+                    key={r}
+                    onPress={() => editSession((s, t) => jumpToRound(s, t, r))}
+                    style={[styles.btn, r === state.currentRound && state.phase === 'work' && styles.modeChipActive]}
+                  >
+                    <Text style={styles.btnTxt}>R{r}</Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        )}
+
+        {mode === 'amrap' && !session.program && (
+          <View style={styles.repCounter}>
+            <Pressable onPress={() => bumpReps(-1)} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}>
+              <Text style={styles.btnTxt}>-1</Text>
+            </Pressable>
+            <View style={{ alignItems: 'center', minWidth: 72 }}>
+              <Text style={styles.repValue}>{session.reps}</Text>
+              <Text style={styles.roundText}>reps</Text>
+            </View>
+            <Pressable onPress={() => bumpReps(1)} style={({ pressed }) => [styles.repBtn, pressed && { opacity: 0.8 }]}>
+              <Text style={styles.primaryBtnTxt}>+1</Text>
+            </Pressable>
+            <Pressable onPress={() => bumpReps(5)} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}>
+              <Text style={styles.btnTxt}>+5</Text>
+            </Pressable>
+          </View>
+        )}
+
         <View style={styles.controls}>
           <Pressable
             onPress={toggleRun}
             style={({ pressed }) => [styles.primaryBtn, (pressed || running) && { opacity: 0.95 }]}
           >
             <Text style={styles.primaryBtnTxt}>
-              {state.phase === 'idle' ? 'Start' : running ? 'Pause' : state.phase === 'done' ? 'Restart' : 'Resume'}
+              {state.countdown > 0 ? 'Cancel' : state.phase === 'idle' ? 'Start' : running ? 'Pause' : state.phase === 'done' ? 'Restart' : 'Resume'}
             </Text>
           </Pressable>
           <Pressable onPress={resetAll} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.95 }]}>
             <Text style={styles.btnTxt}>Reset</Text>
           </Pressable>
+          <Pressable onPress={() => setWallOpen(true)} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.95 }]}>
+            <Text style={styles.btnTxt}>Wall</Text>
+          </Pressable>
         </View>
 
         {/* ---------------- Party Mode Button ---------------- */}
@@ -1604,35 +1851,202 @@ export default function FightTimerScreen(): React.ReactElement {
       <View style={styles.card}>
         <Text style={styles.sectionHeader}>Settings</Text>
 
-        <RowControl label="Rounds" value={String(settings.roundsTotal)} onDec={() => inc('roundsTotal', -1)} onInc={() => inc('roundsTotal', 1)} />
-        <RowControl label="Round Length" value={`${Math.floor(settings.roundLengthSec / 60)} min`} onDec={() => inc('roundLengthSec', -30)} onInc={() => inc('roundLengthSec', 30)} />
-        <RowControl label="Rest Length" value={`${Math.floor(settings.restLengthSec / 60)} min`} onDec={() => inc('restLengthSec', -15)} onInc={() => inc('restLengthSec', 15)} />
+        <View style={styles.modeRow}>
+          {TIMER_MODES.map((m) => (
+            <Pressable
+              key={m}
+              onPress={() => selectMode(m)}
+              disabled={setupLocked}
+              style={[styles.modeChip, mode === m && styles.modeChipActive, setupLocked && mode !== m && { opacity: 0.4 }]}
+            >
+              <Text style={styles.btnTxt}>{MODE_LABELS[m]}</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {mode === 'rounds' && (
+          <>
+            <RowControl disabled={setupLocked} label="Rounds" value={String(settings.roundsTotal)} onDec={() => inc('roundsTotal', -1)} onInc={() => inc('roundsTotal', 1)} />
+            <RowControl disabled={setupLocked} label="Round Length" value={fmtLength(settings.roundLengthSec)} onDec={() => inc('roundLengthSec', -30)} onInc={() => inc('roundLengthSec', 30)} />
+            <RowControl disabled={setupLocked} label="Rest Length" value={fmtLength(settings.restLengthSec)} onDec={() => inc('restLengthSec', -15)} onInc={() => inc('restLengthSec', 15)} />
+          </>
+        )}
+        {mode === 'tabata' && (
+          <>
+            <RowControl disabled={setupLocked} label="Intervals" value={String(settings.roundsTotal)} onDec={() => inc('roundsTotal', -1)} onInc={() => inc('roundsTotal', 1)} />
+            <RowControl disabled={setupLocked} label="Work" value={fmtLength(settings.roundLengthSec)} onDec={() => inc('roundLengthSec', -5)} onInc={() => inc('roundLengthSec', 5)} />
+            <RowControl disabled={setupLocked} label="Rest" value={fmtLength(settings.restLengthSec)} onDec={() => inc('restLengthSec', -5)} onInc={() => inc('restLengthSec', 5)} />
+          </>
+        )}
+        {mode === 'emom' && (
+          <>
+            <RowControl disabled={setupLocked} label="Minutes" value={String(settings.roundsTotal)} onDec={() => inc('roundsTotal', -1)} onInc={() => inc('roundsTotal', 1)} />
+            <RowControl disabled={setupLocked} label="Reps / Minute" value={String(settings.targetReps ?? 0)} onDec={() => inc('targetReps', -1)} onInc={() => inc('targetReps', 1)} />
+          </>
+        )}
+        {mode === 'amrap' && (
+          <RowControl disabled={setupLocked} label="Time Cap" value={fmtLength(settings.roundLengthSec)} onDec={() => inc('roundLengthSec', -60)} onInc={() => inc('roundLengthSec', 60)} />
+        )}
+        {setupLocked && <Text style={styles.roundText}>Reset the timer to change these.</Text>}
 
         <Text style={styles.sectionHeader}>Quick Presets</Text>
         <View style={{ flexDirection: 'row', gap: 8 }}>
-          <Pressable onPress={() => quickPreset('boxing')} style={styles.btn}><Text style={styles.btnTxt}>Boxing</Text></Pressable>
-          <Pressable onPress={() => quickPreset('mma')} style={styles.btn}><Text style={styles.btnTxt}>MMA</Text></Pressable>
-          <Pressable onPress={() => quickPreset('short')} style={styles.btn}><Text style={styles.btnTxt}>Short</Text></Pressable>
+          {QUICK_PRESETS[mode].map((p) => (
+            <Pressable
+              key={p.label}
+              onPress={() => quickPreset(p.settings)}
+              disabled={setupLocked}
+              style={[styles.btn, setupLocked && { opacity: 0.4 }]}
+            >
+              <Text style={styles.btnTxt}>{p.label}</Text>
+            </Pressable>
+          ))}
         </View>
+
+        <PresetLibrary settings={settings} program={session.program} onLoad={loadPreset} locked={setupLocked} />
       </View>
+
+      {/* Program */}
+      <View style={styles.card}>
+        <Text style={styles.sectionHeader}>Program</Text>
+        <Text style={styles.roundText}>
+          {session.program ? `${session.program.name} · ${state.roundsTotal} rounds` : 'Using quick settings'}
+        </Text>
+        <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+          <Pressable
+            onPress={() => setBuilderOpen(true)}
+            disabled={setupLocked}
+            style={[styles.btn, setupLocked && { opacity: 0.4 }]}
+          >
+            <Text style={styles.btnTxt}>{session.program ? 'Edit Program' : 'Build Program'}</Text>
+          </Pressable>
+          {!!session.program && (
+            <Pressable onPress={clearProgram} disabled={setupLocked} style={[styles.btn, setupLocked && { opacity: 0.4 }]}>
+              <Text style={styles.btnTxt}>Clear</Text>
+            </Pressable>
+          )}
+          <Pressable onPress={() => void shareSetup()} style={styles.btn}>
+            <Text style={styles.btnTxt}>Share Link</Text>
+          </Pressable>
+        </View>
+      </View>
+      {/* Sounds */}
+      <View style={styles.card}>
+        <Text style={styles.sectionHeader}>Sounds</Text>
+        <SoundSettings audio={audio} onChange={updateAudio} />
+      </View>
+
+      {/* Combo Caller */}
+      <View style={styles.card}>
+        <Text style={styles.sectionHeader}>Combo Caller</Text>
+        <ComboCallerSettings combo={combo} onChange={updateCombo} />
+      </View>
+
+      {/* Sparring Rotation */}
+      <View style={styles.card}>
+        <Text style={styles.sectionHeader}>Sparring Rotation</Text>
+        <SparringRotation sparring={sparring} onChange={updateSparring} />
+      </View>
+
+      {/* Judging */}
+      <View style={styles.card}>
+        <Text style={styles.sectionHeader}>Judging</Text>
+        <JudgingPanel
+          judging={judging}
+          onChange={updateJudging}
+          locked={state.phase !== 'idle' && state.phase !== 'done'}
+          scores={scores}
+          scoredRounds={scoredRounds}
+          totals={totals}
+          decision={decision}
+        />
+      </View>
+
       {/* Spotify Card */}
       <View style={styles.spotifyCard}>
         <Text style={styles.sectionHeader}>🎵 Spotify</Text>
-        <SpotifyButton />
+        <SpotifyPlayer />
+        <MusicAutomationSettings music={settings.music ?? DEFAULT_MUSIC_AUTOMATION} onChange={updateMusic} />
       </View>
-    </View>
+
+      <Modal visible={builderOpen} animationType="slide" onRequestClose={() => setBuilderOpen(false)}>
+        <ProgramBuilder
+          initial={activeProgram(session)}
+          onApply={applyProgram}
+          onCancel={() => setBuilderOpen(false)}
+        />
+      </Modal>
+
+      <Modal
+        visible={wallOpen}
+        animationType="fade"
+        presentationStyle="fullScreen"
+        statusBarTranslucent
+        supportedOrientations={['portrait', 'landscape-left', 'landscape-right']}
+        onRequestClose={() => setWallOpen(false)}
+      >
+        {wallOpen && (
+          <WallDisplay
+            state={state}
+            paused={session.pausedAt != null}
+            precise={precise}
+            pairs={pairs}
+            pairsRound={pairsRound}
+            onTogglePause={toggleRun}
+            onClose={() => setWallOpen(false)}
+          />
+        )}
+      </Modal>
+
+      <Modal visible={!!reflectionId} transparent animationType="fade" onRequestClose={closeReflection}>
+        {!!reflectionId && <WorkoutReflection workoutId={reflectionId} onClose={closeReflection} />}
+      </Modal>
+
+      {/* One sheet at a time: scoring waits for the wall display / reflection to close */}
+      <Modal
+        visible={pendingRound != null && !reflectionId && !wallOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={skipRound}
+      >
+        {pendingRound != null && (
+          <RoundScoreSheet
+            key={pendingRound}
+            round={pendingRound}
+            red={judging.red}
+            blue={judging.blue}
+            judges={judging.judges}
+            onSubmit={submitRound}
+            onSkip={skipRound}
+          />
+        )}
+      </Modal>
+    </ScrollView>
+  );
+}
+
+/** ---------------- EDIT BUTTON ---------------- */
+function EditBtn({ label, disabled, onPress }: { label: string; disabled?: boolean; onPress: () => void }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={({ pressed }) => [styles.btn, (pressed || disabled) && { opacity: disabled ? 0.4 : 0.8 }]}
+    >
+      <Text style={styles.btnTxt}>{label}</Text>
+    </Pressable>
   );
 }
 
 /** ---------------- ROW CONTROL ---------------- */
-function RowControl({ label, value, onDec, onInc }: { label: string; value: string; onDec: () => void; onInc: () => void }) {
+function RowControl({ label, value, onDec, onInc, disabled }: { label: string; value: string; onDec: () => void; onInc: () => void; disabled?: boolean }) {
   return (
-    <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6 }}>
+    <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6, opacity: disabled ? 0.4 : 1 }}>
       <Text style={{ color: TEXT }}>{label}</Text>
       <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
-        <Pressable onPress={onDec} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}><Text style={styles.btnTxt}>-</Text></Pressable>
+        <Pressable onPress={onDec} disabled={disabled} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}><Text style={styles.btnTxt}>-</Text></Pressable>
         <Text style={{ color: TEXT }}>{value}</Text>
-        <Pressable onPress={onInc} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}><Text style={styles.btnTxt}>+</Text></Pressable>
+        <Pressable onPress={onInc} disabled={disabled} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}><Text style={styles.btnTxt}>+</Text></Pressable>
       </View>
     </View>
   );
@@ -1652,7 +2066,17 @@ const styles = StyleSheet.create({
   badgeIdle: { backgroundColor: BORDER, color: TEXT },
   timeText: { fontSize: 48, fontWeight: '700', color: TEXT },
   roundText: { fontSize: 14, color: MUTED },
+  comboText: { fontSize: 22, fontWeight: '700', color: RED, marginTop: 4, letterSpacing: 1 },
   controls: { flexDirection: 'row', gap: 8, justifyContent: 'center', marginBottom: 12 },
+  editPanel: { gap: 8, marginBottom: 12 },
+  editRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, flexWrap: 'wrap' },
+  jumpRow: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  repCounter: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 10, marginBottom: 12 },
+  repValue: { fontSize: 32, fontWeight: '700', color: TEXT },
+  repBtn: { paddingVertical: 12, paddingHorizontal: 22, backgroundColor: RED, borderRadius: 8 },
+  modeRow: { flexDirection: 'row', gap: 6, marginBottom: 6 },
+  modeChip: { flex: 1, paddingVertical: 8, borderRadius: 999, borderWidth: 1, borderColor: BORDER, alignItems: 'center' },
+  modeChipActive: { backgroundColor: RED, borderColor: RED },
   primaryBtn: { flex: 1, backgroundColor: RED, paddingVertical: 12, borderRadius: 8, alignItems: 'center', justifyContent: 'center' },
   primaryBtnTxt: { color: '#fff', fontWeight: '700', fontSize: 16 },
   btn: { paddingVertical: 6, paddingHorizontal: 12, backgroundColor: BORDER, borderRadius: 6 },
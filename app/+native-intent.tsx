@@ -0,0 +1,14 @@
+// File: app/+native-intent.tsx
+// Rewrites incoming deep links before the router resolves them.
+
+import { partyRouteFromUrl } from '@/lib/partyLinks';
+import { timerRouteFromUrl } from '@/lib/timerLinks';
+
+export function redirectSystemPath({ path }: { path: string; initial: boolean }): string {
+  try {
+    return timerRouteFromUrl(path) ?? partyRouteFromUrl(path) ?? path;
+  } catch (e) {
+    console.warn('[links] redirect error:', e);
+    return path;
+  }
+}
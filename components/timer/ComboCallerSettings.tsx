@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Alert, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+import {
+  CallOrder,
+  CallStyle,
+  ComboCallerSettings as Settings,
+  Difficulty,
+  PACE_OPTIONS,
+  Stance,
+  parseCombo,
+} from '@/lib/comboCaller';
+
+const RED = '#f70000';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+type Props = {
+  combo: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+};
+
+const DIFFICULTIES: { id: Difficulty; label: string }[] = [
+  { id: 'beginner', label: 'Beginner' },
+  { id: 'intermediate', label: 'Inter.' },
+  { id: 'advanced', label: 'Advanced' },
+];
+const STANCES: { id: Stance; label: string }[] = [
+  { id: 'orthodox', label: 'Orthodox' },
+  { id: 'southpaw', label: 'Southpaw' },
+];
+const ORDERS: { id: CallOrder; label: string }[] = [
+  { id: 'random', label: 'Random' },
+  { id: 'sequence', label: 'In order' },
+];
+const STYLES: { id: CallStyle; label: string }[] = [
+  { id: 'numbers', label: '1-2-3' },
+  { id: 'names', label: 'Jab-Cross' },
+];
+
+export default function ComboCallerSettings({ combo, onChange }: Props): React.ReactElement {
+  const [draft, setDraft] = useState<string>('');
+
+  const addCustom = () => {
+    const parsed = parseCombo(draft);
+    if (!parsed) {
+      Alert.alert('Unrecognised combo', 'Use punch numbers 1–6 or names (jab, cross, hook…) plus moves like slip or roll, separated by dashes or commas.');
+      return;
+    }
+    onChange({ custom: [...combo.custom, draft.trim()] });
+    setDraft('');
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Call combos in work rounds</Text>
+        <Switch value={combo.enabled} onValueChange={(enabled) => onChange({ enabled })} />
+      </View>
+
+      {combo.enabled && (
+        <>
+          <ChipRow label="Level" options={DIFFICULTIES} value={combo.difficulty} onSelect={(difficulty) => onChange({ difficulty })} />
+          <ChipRow label="Stance" options={STANCES} value={combo.stance} onSelect={(stance) => onChange({ stance })} />
+          <ChipRow label="Calls" options={STYLES} value={combo.style} onSelect={(style) => onChange({ style })} />
+          <ChipRow label="Order" options={ORDERS} value={combo.order} onSelect={(order) => onChange({ order })} />
+          <ChipRow
+            label="Pace"
+            options={PACE_OPTIONS.map((sec) => ({ id: sec, label: `${sec}s` }))}
+            value={combo.paceSec}
+            onSelect={(paceSec) => onChange({ paceSec })}
+          />
+
+          <Text style={styles.subHeader}>My combos</Text>
+          {combo.custom.length === 0 && <Text style={styles.muted}>No custom combos yet.</Text>}
+          {combo.custom.map((c, i) => (
+            <View key={`${c}-${i}`} style={styles.comboRow}>
+              <Text style={[styles.label, { flex: 1 }]}>{c}</Text>
+              <Chip label="✕" onPress={() => onChange({ custom: combo.custom.filter((_, j) => j !== i) })} />
+            </View>
+          ))}
+          <View style={styles.addRow}>
+            <TextInput
+              value={draft}
+              onChangeText={setDraft}
+              onSubmitEditing={addCustom}
+              placeholder="e.g. 1-2-slip-2"
+              placeholderTextColor={MUTED}
+              style={styles.input}
+            />
+            <Chip label="Add" active onPress={addCustom} />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Only call my combos</Text>
+            <Switch value={combo.customOnly} onValueChange={(customOnly) => onChange({ customOnly })} />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+function ChipRow<T extends string | number>({
+  label,
+  options,
+  value,
+  onSelect,
+}: {
+  label: string;
+  options: { id: T; label: string }[];
+  value: T;
+  onSelect: (v: T) => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.chips}>
+        {options.map((o) => (
+          <Chip key={String(o.id)} label={o.label} active={o.id === value} onPress={() => onSelect(o.id)} />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function Chip({ label, active, onPress }: { label: string; active?: boolean; onPress: () => void }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.8 }]}
+    >
+      <Text style={styles.chipTxt}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6, gap: 8 },
+  label: { color: TEXT },
+  muted: { color: MUTED, fontSize: 12 },
+  subHeader: { color: TEXT, fontWeight: '700', marginTop: 8 },
+  chips: { flexDirection: 'row', alignItems: 'center', gap: 6, flexWrap: 'wrap', justifyContent: 'flex-end', flexShrink: 1 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, backgroundColor: BORDER, borderRadius: 6 },
+  chipActive: { backgroundColor: RED },
+  chipTxt: { color: TEXT, fontWeight: '600' },
+  comboRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 4, borderBottomWidth: 1, borderBottomColor: BORDER },
+  addRow: { flexDirection: 'row', gap: 8, marginTop: 8 },
+  input: { flex: 1, color: TEXT, borderWidth: 1, borderColor: BORDER, borderRadius: 6, paddingHorizontal: 8, paddingVertical: 6 },
+});
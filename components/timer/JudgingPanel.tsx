@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, Share, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import { Decision, JudgingSettings, RoundScore, saveScorecard, scorecardText } from '@/lib/scorecard';
+
+const RED = '#f70000';
+const BLUE = '#2563eb';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+type Props = {
+  judging: JudgingSettings;
+  onChange: (patch: Partial<JudgingSettings>) => void;
+  locked: boolean; // a run is in progress; judges can't change mid-fight
+  scores: RoundScore[];
+  scoredRounds: number;
+  totals: { red: number; blue: number }[];
+  decision: Decision | null;
+};
+
+const JUDGE_COUNTS = [1, 3];
+
+/** Fighters, judges, running totals and — once the timer is done — the decision. */
+export default function JudgingPanel({
+  judging,
+  onChange,
+  locked,
+  scores,
+  scoredRounds,
+  totals,
+  decision,
+}: Props): React.ReactElement {
+  const { uid } = useAuthUid();
+  const [saving, setSaving] = useState<boolean>(false);
+  const [saved, setSaved] = useState<{ id: string; scores: RoundScore[] } | null>(null);
+
+  const setJudgeCount = (n: number) =>
+    onChange({ judges: Array.from({ length: n }, (_, i) => judging.judges[i] ?? `Judge ${i + 1}`) });
+
+  const card = decision
+    ? {
+        red: judging.red,
+        blue: judging.blue,
+        judges: judging.judges,
+        rounds: scoredRounds,
+        scores,
+        totals,
+        decision,
+      }
+    : null;
+
+  const onSaveShare = async () => {
+    if (!card) return;
+    if (!uid) {
+      Alert.alert('Sign in', 'Sign in to save scorecards.');
+      return;
+    }
+    setSaving(true);
+    try {
+      // Sharing twice reuses the saved card instead of writing a duplicate
+      const id = saved?.scores === scores ? saved.id : await saveScorecard(uid, card);
+      setSaved({ id, scores });
+      const url = `https://poundrr.app/scorecard/${id}`;
+      await Share.share({ message: `${scorecardText(card)}\n\n${url}`, url, title: 'Share scorecard' });
+    } catch (e) {
+      console.warn('[scorecard] save error:', e);
+      Alert.alert('Error', 'Could not save the scorecard.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Score rounds (10-point must)</Text>
+        <Switch value={judging.enabled} onValueChange={(enabled) => onChange({ enabled })} />
+      </View>
+
+      {judging.enabled && (
+        <>
+          <View style={styles.row}>
+            <TextInput
+              value={judging.red}
+              onChangeText={(red) => onChange({ red })}
+              placeholder="Red corner"
+              placeholderTextColor={MUTED}
+              style={[styles.input, { borderColor: RED }]}
+            />
+            <Text style={styles.muted}>vs</Text>
+            <TextInput
+              value={judging.blue}
+              onChangeText={(blue) => onChange({ blue })}
+              placeholder="Blue corner"
+              placeholderTextColor={MUTED}
+              style={[styles.input, { borderColor: BLUE }]}
+            />
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.label}>Judges</Text>
+            <View style={styles.chips}>
+              {JUDGE_COUNTS.map((n) => (
+                <Pressable
+                  key={n}
+                  disabled={locked}
+                  onPress={() => setJudgeCount(n)}
+                  style={[styles.chip, judging.judges.length === n && styles.chipActive, locked && { opacity: 0.5 }]}
+                >
+                  <Text style={styles.chipTxt}>{n}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+          {judging.judges.map((name, i) => (
+            <View key={i} style={styles.row}>
+              <TextInput
+                value={name}
+                onChangeText={(v) => onChange({ judges: judging.judges.map((j, k) => (k === i ? v : j)) })}
+                placeholder={`Judge ${i + 1}`}
+                placeholderTextColor={MUTED}
+                style={styles.input}
+              />
+              <Text style={styles.total}>
+                <Text style={{ color: RED }}>{totals[i]?.red ?? 0}</Text> – <Text style={{ color: BLUE }}>{totals[i]?.blue ?? 0}</Text>
+              </Text>
+            </View>
+          ))}
+
+          <Text style={styles.muted}>
+            {scoredRounds > 0
+              ? `${scoredRounds} round${scoredRounds === 1 ? '' : 's'} scored`
+              : 'You’ll be asked for scores as each round ends.'}
+          </Text>
+
+          {decision && (
+            <View style={styles.decision}>
+              <Text style={styles.decisionResult}>{decision.result === 'draw' ? 'DRAW' : decision.result}</Text>
+              <Text style={styles.label}>{decision.label}</Text>
+              <Pressable onPress={() => void onSaveShare()} disabled={saving} style={styles.primaryBtn}>
+                {saving ? <ActivityIndicator color={TEXT} /> : <Text style={styles.btnTxt}>Save & Share</Text>}
+              </Pressable>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6, gap: 8 },
+  label: { color: TEXT },
+  muted: { color: MUTED, fontSize: 12 },
+  chips: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, backgroundColor: BORDER, borderRadius: 6 },
+  chipActive: { backgroundColor: RED },
+  chipTxt: { color: TEXT, fontWeight: '600' },
+  input: { flex: 1, color: TEXT, borderWidth: 1, borderColor: BORDER, borderRadius: 6, paddingHorizontal: 8, paddingVertical: 6 },
+  total: { color: TEXT, fontWeight: '700', fontVariant: ['tabular-nums'], minWidth: 64, textAlign: 'right' },
+  decision: { marginTop: 10, padding: 12, borderRadius: 10, borderWidth: 1, borderColor: BORDER, alignItems: 'center', gap: 6 },
+  decisionResult: { color: TEXT, fontSize: 28, fontWeight: '800', letterSpacing: 2 },
+  primaryBtn: { alignSelf: 'stretch', backgroundColor: RED, paddingVertical: 12, borderRadius: 8, alignItems: 'center', marginTop: 4 },
+  btnTxt: { color: TEXT, fontWeight: '700' },
+});
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+import { DUCK_OPTIONS, MusicAutomation, RestMusicAction, parsePlaylistUri } from '@/lib/musicAutomation';
+
+const RED = '#f70000';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+type Props = {
+  music: MusicAutomation;
+  onChange: (patch: Partial<MusicAutomation>) => void;
+};
+
+const REST_ACTIONS: { id: RestMusicAction; label: string }[] = [
+  { id: 'none', label: 'Keep' },
+  { id: 'duck', label: 'Lower' },
+  { id: 'pause', label: 'Pause' },
+];
+
+export default function MusicAutomationSettings({ music, onChange }: Props): React.ReactElement {
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Music follows the timer</Text>
+        <Switch value={music.enabled} onValueChange={(enabled) => onChange({ enabled })} />
+      </View>
+
+      {music.enabled && (
+        <>
+          <ChipRow label="On rest" options={REST_ACTIONS} value={music.onRest} onSelect={(onRest) => onChange({ onRest })} />
+          {music.onRest === 'duck' && (
+            <ChipRow
+              label="Rest volume"
+              options={DUCK_OPTIONS.map((v) => ({ id: v, label: `${v}%` }))}
+              value={music.duckVolume}
+              onSelect={(duckVolume) => onChange({ duckVolume })}
+            />
+          )}
+          <View style={styles.row}>
+            <Text style={styles.label}>New track each round</Text>
+            <Switch value={music.skipEachRound} onValueChange={(skipEachRound) => onChange({ skipEachRound })} />
+          </View>
+
+          <PlaylistInput label="Work playlist" value={music.workPlaylist} onChange={(workPlaylist) => onChange({ workPlaylist })} />
+          <PlaylistInput label="Rest playlist" value={music.restPlaylist} onChange={(restPlaylist) => onChange({ restPlaylist })} />
+          <Text style={styles.muted}>
+            With a rest playlist, rests switch playlists instead of lowering or pausing. Saved with your presets.
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+function PlaylistInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string | null;
+  onChange: (uri: string | null) => void;
+}) {
+  const [draft, setDraft] = useState<string>(value ?? '');
+
+  useEffect(() => setDraft(value ?? ''), [value]);
+
+  const commit = () => {
+    if (!draft.trim()) {
+      if (value !== null) onChange(null);
+      return;
+    }
+    const uri = parsePlaylistUri(draft);
+    if (!uri) {
+      Alert.alert('Not a playlist link', 'Paste a Spotify playlist link (Share → Copy link) or a spotify:playlist: URI.');
+      setDraft(value ?? '');
+      return;
+    }
+    if (uri !== value) onChange(uri);
+  };
+
+  return (
+    <View style={styles.playlist}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        value={draft}
+        onChangeText={setDraft}
+        onEndEditing={commit}
+        onSubmitEditing={commit}
+        placeholder="open.spotify.com/playlist/…"
+        placeholderTextColor={MUTED}
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={styles.input}
+      />
+    </View>
+  );
+}
+
+function ChipRow<T extends string | number>({
+  label,
+  options,
+  value,
+  onSelect,
+}: {
+  label: string;
+  options: { id: T; label: string }[];
+  value: T;
+  onSelect: (v: T) => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.chips}>
+        {options.map((o) => (
+          <Pressable
+            key={String(o.id)}
+            onPress={() => onSelect(o.id)}
+            style={({ pressed }) => [styles.chip, o.id === value && styles.chipActive, pressed && { opacity: 0.8 }]}
+          >
+            <Text style={styles.chipTxt}>{o.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6, gap: 8 },
+  label: { color: TEXT },
+  muted: { color: MUTED, fontSize: 12, marginTop: 6 },
+  chips: { flexDirection: 'row', alignItems: 'center', gap: 6, flexWrap: 'wrap', justifyContent: 'flex-end', flexShrink: 1 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, backgroundColor: BORDER, borderRadius: 6 },
+  chipActive: { backgroundColor: RED },
+  chipTxt: { color: TEXT, fontWeight: '600' },
+  playlist: { marginTop: 8, gap: 4 },
+  input: { color: TEXT, borderWidth: 1, borderColor: BORDER, borderRadius: 6, paddingHorizontal: 8, paddingVertical: 6 },
+});
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { useTimerPresets } from '@/hooks/useTimerPresets';
+import { TimerPreset } from '@/lib/timerPresets';
+import { Program, Settings, countRounds, programFromSettings } from '@/lib/timerProgram';
+
+const RED = '#f70000';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+type Props = {
+  settings: Settings;
+  program: Program | null;
+  onLoad: (preset: TimerPreset) => void;
+  locked?: boolean; // a run is in progress; loading would replace it
+};
+
+function describe(p: TimerPreset): string {
+  const program = p.program ?? programFromSettings(p.settings);
+  return `${countRounds(program)} rounds${p.program ? ' · program' : ''}`;
+}
+
+export default function PresetLibrary({ settings, program, onLoad, locked }: Props): React.ReactElement {
+  const { presets, syncing, conflicts, error, save, rename, overwrite, remove, move, dismissConflicts } =
+    useTimerPresets();
+
+  const [newName, setNewName] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState<string>('');
+
+  const onSave = () => {
+    if (!newName.trim()) {
+      Alert.alert('Name required', 'Give your preset a name first.');
+      return;
+    }
+    save(newName, settings, program);
+    setNewName('');
+  };
+
+  const onOverwrite = (p: TimerPreset) => {
+    Alert.alert('Overwrite preset?', `Replace "${p.name}" with the current timer setup?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Overwrite', onPress: () => overwrite(p.id, settings, program) },
+    ]);
+  };
+
+  const onDelete = (p: TimerPreset) => {
+    Alert.alert('Delete preset?', `"${p.name}" will be removed from all your devices.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => remove(p.id) },
+    ]);
+  };
+
+  return (
+    <View>
+      <View style={styles.headerRow}>
+        <Text style={styles.sectionHeader}>My Presets</Text>
+        {syncing && <ActivityIndicator color="#fff" size="small" />}
+      </View>
+
+      {conflicts.length > 0 && (
+        <Pressable onPress={dismissConflicts} style={styles.notice}>
+          <Text style={styles.noticeTxt}>
+            Edited on another device: {conflicts.join(', ')}. Your version was kept as a “(conflict)” copy. Tap to
+            dismiss.
+          </Text>
+        </Pressable>
+      )}
+      {!!error && <Text style={styles.muted}>Offline — changes will sync later.</Text>}
+
+      {presets.length === 0 && <Text style={styles.muted}>No saved presets yet.</Text>}
+
+      {presets.map((p, i) => (
+        <View key={p.id} style={styles.presetRow}>
+          {editingId === p.id ? (
+            <TextInput
+              value={editName}
+              onChangeText={setEditName}
+              autoFocus
+              onSubmitEditing={() => {
+                rename(p.id, editName);
+                setEditingId(null);
+              }}
+              onBlur={() => setEditingId(null)}
+              style={[styles.input, { flex: 1 }]}
+            />
+          ) : (
+            <Pressable onPress={() => onLoad(p)} disabled={locked} style={[{ flex: 1 }, locked && { opacity: 0.4 }]}>
+              <Text style={styles.presetName}>{p.name}</Text>
+              <Text style={styles.muted}>{describe(p)}</Text>
+            </Pressable>
+          )}
+          <SmallBtn label="↑" disabled={i === 0} onPress={() => move(p.id, -1)} />
+          <SmallBtn label="↓" disabled={i === presets.length - 1} onPress={() => move(p.id, 1)} />
+          <SmallBtn
+            label="✎"
+            onPress={() => {
+              setEditingId(p.id);
+              setEditName(p.name);
+            }}
+          />
+          <SmallBtn label="⤓" onPress={() => onOverwrite(p)} />
+          <SmallBtn label="✕" onPress={() => onDelete(p)} />
+        </View>
+      ))}
+
+      <View style={styles.saveRow}>
+        <TextInput
+          value={newName}
+          onChangeText={setNewName}
+          placeholder="Save current as…"
+          placeholderTextColor={MUTED}
+          style={[styles.input, { flex: 1 }]}
+        />
+        <Pressable onPress={onSave} style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.9 }]}>
+          <Text style={styles.btnTxt}>Save</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+function SmallBtn({ label, onPress, disabled }: { label: string; onPress: () => void; disabled?: boolean }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={({ pressed }) => [styles.btn, (pressed || disabled) && { opacity: 0.5 }]}
+    >
+      <Text style={styles.btnTxt}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  sectionHeader: { fontWeight: '700', color: TEXT, marginVertical: 6 },
+  muted: { color: MUTED, fontSize: 12 },
+  notice: { backgroundColor: 'rgba(245,158,11,0.15)', borderRadius: 8, padding: 8, marginBottom: 6 },
+  noticeTxt: { color: '#fbbf24', fontSize: 12 },
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER,
+  },
+  presetName: { color: TEXT, fontWeight: '600' },
+  input: { color: TEXT, borderWidth: 1, borderColor: BORDER, borderRadius: 6, paddingHorizontal: 8, paddingVertical: 6 },
+  saveRow: { flexDirection: 'row', gap: 8, marginTop: 8 },
+  saveBtn: { backgroundColor: RED, paddingHorizontal: 14, borderRadius: 6, justifyContent: 'center' },
+  btn: { paddingVertical: 6, paddingHorizontal: 8, backgroundColor: BORDER, borderRadius: 6 },
+  btnTxt: { color: TEXT, fontWeight: '600' },
+});
@@ -0,0 +1,269 @@
+import React, { useCallback, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+import {
+  KIND_LABELS,
+  Program,
+  ProgramItem,
+  SEGMENT_KINDS,
+  Segment,
+  SegmentKind,
+  countRounds,
+  exampleProgram,
+  makeRepeat,
+  makeSegment,
+  programLengthSec,
+} from '@/lib/timerProgram';
+
+const RED = '#f70000';
+const CARD_BG = 'rgba(0,0,0,0.82)';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+const KIND_COLORS: Record<SegmentKind, string> = {
+  warmup: '#f59e0b',
+  work: RED,
+  rest: MUTED,
+  cooldown: '#3b82f6',
+};
+
+type Props = {
+  initial: Program;
+  onApply: (program: Program) => void;
+  onCancel: () => void;
+};
+
+function fmtDuration(sec: number): string {
+  const m = Math.floor(sec / 60);
+  const s = sec % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+function nextKind(kind: SegmentKind): SegmentKind {
+  return SEGMENT_KINDS[(SEGMENT_KINDS.indexOf(kind) + 1) % SEGMENT_KINDS.length];
+}
+
+function move<T>(arr: T[], index: number, delta: number): T[] {
+  const to = index + delta;
+  if (to < 0 || to >= arr.length) return arr;
+  const out = arr.slice();
+  const [it] = out.splice(index, 1);
+  out.splice(to, 0, it);
+  return out;
+}
+
+export default function ProgramBuilder({ initial, onApply, onCancel }: Props): React.ReactElement {
+  const [program, setProgram] = useState<Program>(initial);
+
+  const setItems = useCallback((fn: (items: ProgramItem[]) => ProgramItem[]) => {
+    setProgram((p) => ({ ...p, items: fn(p.items) }));
+  }, []);
+
+  const updateItem = useCallback(
+    (id: string, fn: (it: ProgramItem) => ProgramItem) => {
+      setItems((items) => items.map((it) => (it.id === id ? fn(it) : it)));
+    },
+    [setItems]
+  );
+
+  const updateChild = useCallback(
+    (blockId: string, segId: string, fn: (s: Segment) => Segment) => {
+      updateItem(blockId, (it) =>
+        it.type === 'repeat' ? { ...it, segments: it.segments.map((s) => (s.id === segId ? fn(s) : s)) } : it
+      );
+    },
+    [updateItem]
+  );
+
+  const rounds = countRounds(program);
+  const total = programLengthSec(program);
+
+  return (
+    <View style={styles.root}>
+      <Text style={styles.title}>Program Builder</Text>
+      <TextInput
+        value={program.name}
+        onChangeText={(name) => setProgram((p) => ({ ...p, name }))}
+        placeholder="Program name"
+        placeholderTextColor={MUTED}
+        style={styles.nameInput}
+      />
+      <Text style={styles.summary}>
+        {rounds} rounds · {fmtDuration(total)} total
+      </Text>
+
+      <ScrollView style={{ flex: 1 }} contentContainerStyle={{ gap: 8, paddingBottom: 16 }}>
+        {program.items.map((item, index) =>
+          item.type === 'segment' ? (
+            <SegmentRow
+              key={item.id}
+              segment={item}
+              onChange={(fn) => updateItem(item.id, (it) => (it.type === 'segment' ? fn(it) : it))}
+              onRemove={() => setItems((items) => items.filter((it) => it.id !== item.id))}
+              onMove={(d) => setItems((items) => move(items, index, d))}
+            />
+          ) : (
+            <View key={item.id} style={styles.block}>
+              <View style={styles.row}>
+                <TextInput
+                  value={item.label}
+                  onChangeText={(label) => updateItem(item.id, (it) => ({ ...it, label }))}
+                  style={[styles.labelInput, { flex: 1 }]}
+                />
+                <Stepper
+                  value={`× ${item.times}`}
+                  onDec={() => updateItem(item.id, (it) => (it.type === 'repeat' ? { ...it, times: Math.max(1, it.times - 1) } : it))}
+                  onInc={() => updateItem(item.id, (it) => (it.type === 'repeat' ? { ...it, times: Math.min(50, it.times + 1) } : it))}
+                />
+              </View>
+              {item.segments.map((seg, segIndex) => (
+                <SegmentRow
+                  key={seg.id}
+                  segment={seg}
+                  onChange={(fn) => updateChild(item.id, seg.id, fn)}
+                  onRemove={() =>
+                    updateItem(item.id, (it) =>
+                      it.type === 'repeat' ? { ...it, segments: it.segments.filter((s) => s.id !== seg.id) } : it
+                    )
+                  }
+                  onMove={(d) =>
+                    updateItem(item.id, (it) =>
+                      it.type === 'repeat' ? { ...it, segments: move(it.segments, segIndex, d) } : it
+                    )
+                  }
+                />
+              ))}
+              <View style={styles.row}>
+                <Text style={styles.muted}>Skip rest after last pass</Text>
+                <Switch
+                  value={item.skipLastRest}
+                  onValueChange={(v) => updateItem(item.id, (it) => (it.type === 'repeat' ? { ...it, skipLastRest: v } : it))}
+                />
+              </View>
+              <View style={styles.row}>
+                <SmallBtn
+                  label="+ Segment"
+                  onPress={() =>
+                    updateItem(item.id, (it) =>
+                      it.type === 'repeat' ? { ...it, segments: [...it.segments, makeSegment('work', 3 * 60)] } : it
+                    )
+                  }
+                />
+                <SmallBtn label="↑" onPress={() => setItems((items) => move(items, index, -1))} />
+                <SmallBtn label="↓" onPress={() => setItems((items) => move(items, index, 1))} />
+                <SmallBtn label="Remove block" onPress={() => setItems((items) => items.filter((it) => it.id !== item.id))} />
+              </View>
+            </View>
+          )
+        )}
+
+        <View style={styles.row}>
+          <SmallBtn label="+ Segment" onPress={() => setItems((items) => [...items, makeSegment('work', 3 * 60)])} />
+          <SmallBtn
+            label="+ Repeat block"
+            onPress={() =>
+              setItems((items) => [
+                ...items,
+                makeRepeat('Rounds', 3, [makeSegment('work', 3 * 60, 'Round'), makeSegment('rest', 60)]),
+              ])
+            }
+          />
+          <SmallBtn label="Load example" onPress={() => setProgram(exampleProgram())} />
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Pressable onPress={onCancel} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}>
+          <Text style={styles.btnTxt}>Cancel</Text>
+        </Pressable>
+        <Pressable
+          disabled={total === 0}
+          onPress={() => onApply(program)}
+          style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }]}
+        >
+          <Text style={styles.primaryBtnTxt}>Use Program</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+/* ---------- small components ---------- */
+function SegmentRow({
+  segment,
+  onChange,
+  onRemove,
+  onMove,
+}: {
+  segment: Segment;
+  onChange: (fn: (s: Segment) => Segment) => void;
+  onRemove: () => void;
+  onMove: (delta: number) => void;
+}): React.ReactElement {
+  return (
+    <View style={styles.segment}>
+      <View style={styles.row}>
+        <Pressable
+          onPress={() => onChange((s) => ({ ...s, kind: nextKind(s.kind) }))}
+          style={[styles.kindChip, { backgroundColor: KIND_COLORS[segment.kind] }]}
+        >
+          <Text style={styles.kindTxt}>{KIND_LABELS[segment.kind]}</Text>
+        </Pressable>
+        <TextInput
+          value={segment.label}
+          onChangeText={(label) => onChange((s) => ({ ...s, label }))}
+          style={[styles.labelInput, { flex: 1 }]}
+        />
+      </View>
+      <View style={styles.row}>
+        <Stepper
+          value={fmtDuration(segment.durationSec)}
+          onDec={() => onChange((s) => ({ ...s, durationSec: Math.max(5, s.durationSec - 15) }))}
+          onInc={() => onChange((s) => ({ ...s, durationSec: Math.min(60 * 60, s.durationSec + 15) }))}
+        />
+        <SmallBtn label="↑" onPress={() => onMove(-1)} />
+        <SmallBtn label="↓" onPress={() => onMove(1)} />
+        <SmallBtn label="✕" onPress={onRemove} />
+      </View>
+    </View>
+  );
+}
+
+function Stepper({ value, onDec, onInc }: { value: string; onDec: () => void; onInc: () => void }) {
+  return (
+    <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+      <SmallBtn label="-" onPress={onDec} />
+      <Text style={{ color: TEXT, minWidth: 44, textAlign: 'center' }}>{value}</Text>
+      <SmallBtn label="+" onPress={onInc} />
+    </View>
+  );
+}
+
+function SmallBtn({ label, onPress }: { label: string; onPress: () => void }) {
+  return (
+    <Pressable onPress={onPress} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}>
+      <Text style={styles.btnTxt}>{label}</Text>
+    </Pressable>
+  );
+}
+
+/* ---------- styles ---------- */
+const styles = StyleSheet.create({
+  root: { flex: 1, padding: 16, backgroundColor: '#0b0b0b', gap: 8 },
+  title: { fontSize: 22, fontWeight: '700', color: TEXT },
+  nameInput: { color: TEXT, borderWidth: 1, borderColor: BORDER, borderRadius: 8, padding: 10, fontSize: 16 },
+  summary: { color: MUTED },
+  block: { backgroundColor: CARD_BG, borderRadius: 12, padding: 10, gap: 8, borderLeftWidth: 3, borderLeftColor: RED },
+  segment: { backgroundColor: 'rgba(255,255,255,0.04)', borderRadius: 10, padding: 8, gap: 6 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 6, flexWrap: 'wrap', justifyContent: 'space-between' },
+  kindChip: { paddingVertical: 4, paddingHorizontal: 8, borderRadius: 8 },
+  kindTxt: { color: TEXT, fontWeight: '700', fontSize: 12 },
+  labelInput: { color: TEXT, borderBottomWidth: 1, borderBottomColor: BORDER, paddingVertical: 4 },
+  muted: { color: MUTED },
+  footer: { flexDirection: 'row', gap: 8 },
+  btn: { paddingVertical: 6, paddingHorizontal: 12, backgroundColor: BORDER, borderRadius: 6 },
+  btnTxt: { color: TEXT, fontWeight: '600' },
+  primaryBtn: { flex: 1, backgroundColor: RED, paddingVertical: 12, borderRadius: 8, alignItems: 'center' },
+  primaryBtnTxt: { color: TEXT, fontWeight: '700', fontSize: 16 },
+});
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { Corner, EMPTY_CALL, RoundCall, scoreRound } from '@/lib/scorecard';
+
+const RED = '#f70000';
+const BLUE = '#2563eb';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+type Props = {
+  round: number;
+  red: string;
+  blue: string;
+  judges: string[];
+  onSubmit: (calls: RoundCall[]) => void;
+  onSkip: () => void;
+};
+
+const WINNERS: { id: Corner | 'even'; label: string }[] = [
+  { id: 'red', label: 'Red' },
+  { id: 'even', label: 'Even' },
+  { id: 'blue', label: 'Blue' },
+];
+
+/** 10-point-must prompt shown when a work phase ends; one card per judge. */
+export default function RoundScoreSheet({ round, red, blue, judges, onSubmit, onSkip }: Props): React.ReactElement {
+  const [calls, setCalls] = useState<RoundCall[]>(() => judges.map(() => EMPTY_CALL));
+
+  const patch = (j: number, p: Partial<RoundCall>) =>
+    setCalls((prev) => prev.map((c, i) => (i === j ? { ...c, ...p } : c)));
+
+  return (
+    <View style={styles.backdrop}>
+      <View style={styles.sheet}>
+        <Text style={styles.title}>Score round {round}</Text>
+        <Text style={styles.muted}>
+          <Text style={{ color: RED }}>{red}</Text> vs <Text style={{ color: BLUE }}>{blue}</Text>
+        </Text>
+
+        <ScrollView style={{ maxHeight: 420 }} contentContainerStyle={{ gap: 10 }}>
+          {calls.map((call, j) => {
+            const score = scoreRound(call);
+            return (
+              <View key={j} style={styles.card}>
+                <View style={styles.row}>
+                  <Text style={styles.judge}>{judges[j]}</Text>
+                  <Text style={styles.score}>
+                    {score.red} – {score.blue}
+                  </Text>
+                </View>
+                <View style={styles.chips}>
+                  {WINNERS.map((w) => (
+                    <Pressable
+                      key={w.id}
+                      onPress={() => patch(j, { winner: w.id, dominant: w.id === 'even' ? false : call.dominant })}
+                      style={[
+                        styles.chip,
+                        call.winner === w.id && { backgroundColor: w.id === 'blue' ? BLUE : w.id === 'red' ? RED : MUTED },
+                      ]}
+                    >
+                      <Text style={styles.chipTxt}>{w.label}</Text>
+                    </Pressable>
+                  ))}
+                  <Pressable
+                    disabled={call.winner === 'even'}
+                    onPress={() => patch(j, { dominant: !call.dominant })}
+                    style={[styles.chip, call.dominant && styles.chipActive, call.winner === 'even' && { opacity: 0.4 }]}
+                  >
+                    <Text style={styles.chipTxt}>10-8</Text>
+                  </Pressable>
+                </View>
+                <Stepper label="Knockdowns" red={call.redKd} blue={call.blueKd} onChange={(redKd, blueKd) => patch(j, { redKd, blueKd })} />
+                <Stepper
+                  label="Deductions"
+                  red={call.redDed}
+                  blue={call.blueDed}
+                  onChange={(redDed, blueDed) => patch(j, { redDed, blueDed })}
+                />
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <Text style={styles.muted}>Knockdowns count against the fighter who went down.</Text>
+        <View style={styles.actions}>
+          <Pressable onPress={onSkip} style={styles.btn}>
+            <Text style={styles.btnTxt}>Skip</Text>
+          </Pressable>
+          <Pressable onPress={() => onSubmit(calls)} style={styles.primaryBtn}>
+            <Text style={styles.btnTxt}>Save round</Text>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function Stepper({
+  label,
+  red,
+  blue,
+  onChange,
+}: {
+  label: string;
+  red: number;
+  blue: number;
+  onChange: (red: number, blue: number) => void;
+}) {
+  const step = (v: number, d: number) => Math.max(0, Math.min(3, v + d));
+  return (
+    <View style={styles.row}>
+      <Text style={styles.muted}>{label}</Text>
+      <View style={styles.chips}>
+        <Pressable onPress={() => onChange(step(red, -1), blue)} style={styles.stepBtn}>
+          <Text style={styles.chipTxt}>−</Text>
+        </Pressable>
+        <Text style={[styles.count, { color: RED }]}>{red}</Text>
+        <Pressable onPress={() => onChange(step(red, 1), blue)} style={styles.stepBtn}>
+          <Text style={styles.chipTxt}>+</Text>
+        </Pressable>
+        <View style={{ width: 10 }} />
+        <Pressable onPress={() => onChange(red, step(blue, -1))} style={styles.stepBtn}>
+          <Text style={styles.chipTxt}>−</Text>
+        </Pressable>
+        <Text style={[styles.count, { color: BLUE }]}>{blue}</Text>
+        <Pressable onPress={() => onChange(red, step(blue, 1))} style={styles.stepBtn}>
+          <Text style={styles.chipTxt}>+</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: { flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' },
+  sheet: { backgroundColor: '#111', padding: 16, borderTopLeftRadius: 16, borderTopRightRadius: 16, gap: 10 },
+  title: { color: TEXT, fontSize: 20, fontWeight: '700' },
+  muted: { color: MUTED },
+  card: { borderWidth: 1, borderColor: BORDER, borderRadius: 10, padding: 10, gap: 8 },
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 8 },
+  judge: { color: TEXT, fontWeight: '700' },
+  score: { color: TEXT, fontWeight: '800', fontSize: 18, fontVariant: ['tabular-nums'] },
+  chips: { flexDirection: 'row', alignItems: 'center', gap: 6, flexWrap: 'wrap' },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, backgroundColor: BORDER, borderRadius: 6 },
+  chipActive: { backgroundColor: RED },
+  chipTxt: { color: TEXT, fontWeight: '600' },
+  stepBtn: { width: 28, height: 28, borderRadius: 14, backgroundColor: BORDER, alignItems: 'center', justifyContent: 'center' },
+  count: { minWidth: 14, textAlign: 'center', fontWeight: '700' },
+  actions: { flexDirection: 'row', gap: 8 },
+  btn: { paddingVertical: 12, paddingHorizontal: 16, backgroundColor: BORDER, borderRadius: 8 },
+  primaryBtn: { flex: 1, backgroundColor: RED, paddingVertical: 12, borderRadius: 8, alignItems: 'center' },
+  btnTxt: { color: TEXT, fontWeight: '700' },
+});
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Pressable, StyleSheet, Switch, Text, View } from 'react-native';
+
+import { AudioCueSettings, CLAPPER_OPTIONS, SOUND_PACKS } from '@/lib/timerAudio';
+
+const RED = '#f70000';
+const BORDER = 'rgba(255,255,255,0.12)';
+const TEXT = '#fff';
+
+type Props = {
+  audio: AudioCueSettings;
+  onChange: (patch: Partial<AudioCueSettings>) => void;
+};
+
+export default function SoundSettings({ audio, onChange }: Props): React.ReactElement {
+  const volumePct = Math.round(audio.volume * 100);
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Sound cues</Text>
+        <Switch value={audio.enabled} onValueChange={(enabled) => onChange({ enabled })} />
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Sound pack</Text>
+        <View style={styles.chips}>
+          {SOUND_PACKS.map((p) => (
+            <Chip key={p.id} label={p.label} active={audio.pack === p.id} onPress={() => onChange({ pack: p.id })} />
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Volume</Text>
+        <View style={styles.chips}>
+          <Chip label="-" onPress={() => onChange({ volume: Math.max(0, (volumePct - 10) / 100) })} />
+          <Text style={[styles.label, { minWidth: 44, textAlign: 'center' }]}>{volumePct}%</Text>
+          <Chip label="+" onPress={() => onChange({ volume: Math.min(1, (volumePct + 10) / 100) })} />
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Clapper</Text>
+        <View style={styles.chips}>
+          {CLAPPER_OPTIONS.map((sec) => (
+            <Chip
+              key={sec}
+              label={sec === 0 ? 'Off' : `${sec}s`}
+              active={audio.clapperSec === sec}
+              onPress={() => onChange({ clapperSec: sec })}
+            />
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>3-2-1 countdown</Text>
+        <Switch value={audio.countdown} onValueChange={(countdown) => onChange({ countdown })} />
+      </View>
+    </View>
+  );
+}
+
+function Chip({ label, active, onPress }: { label: string; active?: boolean; onPress: () => void }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.8 }]}
+    >
+      <Text style={styles.chipTxt}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6, gap: 8 },
+  label: { color: TEXT },
+  chips: { flexDirection: 'row', alignItems: 'center', gap: 6, flexWrap: 'wrap', justifyContent: 'flex-end', flexShrink: 1 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, backgroundColor: BORDER, borderRadius: 6 },
+  chipActive: { backgroundColor: RED },
+  chipTxt: { color: TEXT, fontWeight: '600' },
+});
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import { Fighter, Pairing, SparringSettings, WEIGHT_BANDS, loadFollowingFighters, makeFighter } from '@/lib/sparring';
+
+const RED = '#f70000';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+type Props = {
+  sparring: SparringSettings;
+  onChange: (patch: Partial<SparringSettings>) => void;
+};
+
+function nextBand(band: number | null): number | null {
+  if (band === null) return 0;
+  return band + 1 < WEIGHT_BANDS.length ? band + 1 : null;
+}
+
+export default function SparringRotation({ sparring, onChange }: Props): React.ReactElement {
+  const { uid } = useAuthUid();
+  const [draft, setDraft] = useState<string>('');
+  const [following, setFollowing] = useState<Fighter[] | null>(null);
+  const [loadingFollowing, setLoadingFollowing] = useState<boolean>(false);
+
+  const roster = sparring.roster;
+  const setRoster = (next: Fighter[]) => onChange({ roster: next });
+
+  const addName = () => {
+    const name = draft.trim();
+    if (!name) return;
+    if (roster.some((f) => f.name.toLowerCase() === name.toLowerCase())) {
+      Alert.alert('Already on the roster', `${name} is already in the rotation.`);
+      return;
+    }
+    setRoster([...roster, makeFighter(name)]);
+    setDraft('');
+  };
+
+  const toggleFollowing = async () => {
+    if (following) {
+      setFollowing(null);
+      return;
+    }
+    if (!uid) {
+      Alert.alert('Sign in', 'Sign in to add people you follow.');
+      return;
+    }
+    setLoadingFollowing(true);
+    try {
+      setFollowing(await loadFollowingFighters(uid));
+    } catch (e) {
+      console.warn('[sparring] following load error:', e);
+      Alert.alert('Could not load', 'Your following list is unavailable right now.');
+    } finally {
+      setLoadingFollowing(false);
+    }
+  };
+
+  const addFollowed = (f: Fighter) => {
+    if (roster.some((r) => r.uid === f.uid)) return;
+    setRoster([...roster, f]);
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Rotate partners each round</Text>
+        <Switch value={sparring.enabled} onValueChange={(enabled) => onChange({ enabled })} />
+      </View>
+
+      {sparring.enabled && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.label}>Respect weight bands</Text>
+            <Switch value={sparring.useBands} onValueChange={(useBands) => onChange({ useBands })} />
+          </View>
+
+          <Text style={styles.subHeader}>Roster ({roster.length})</Text>
+          {roster.length === 0 && <Text style={styles.muted}>Add at least two people to build pairings.</Text>}
+          {roster.map((f) => (
+            <View key={f.id} style={styles.fighterRow}>
+              <Text style={[styles.label, { flex: 1 }]} numberOfLines={1}>
+                {f.name}
+              </Text>
+              {sparring.useBands && (
+                <Chip
+                  label={f.band === null ? 'Any weight' : WEIGHT_BANDS[f.band]}
+                  active={f.band !== null}
+                  onPress={() => setRoster(roster.map((r) => (r.id === f.id ? { ...r, band: nextBand(r.band) } : r)))}
+                />
+              )}
+              <Chip label="✕" onPress={() => setRoster(roster.filter((r) => r.id !== f.id))} />
+            </View>
+          ))}
+
+          <View style={styles.addRow}>
+            <TextInput
+              value={draft}
+              onChangeText={setDraft}
+              onSubmitEditing={addName}
+              placeholder="Name"
+              placeholderTextColor={MUTED}
+              style={styles.input}
+            />
+            <Chip label="Add" active onPress={addName} />
+          </View>
+
+          <View style={[styles.addRow, { flexWrap: 'wrap' }]}>
+            <Chip label={following ? 'Hide following' : 'Add from following'} onPress={() => void toggleFollowing()} />
+            <Chip label="Reshuffle" onPress={() => onChange({ seed: sparring.seed + 1 })} />
+            {roster.length > 0 && <Chip label="Clear" onPress={() => setRoster([])} />}
+            {loadingFollowing && <ActivityIndicator color={TEXT} />}
+          </View>
+
+          {!!following && (
+            <View style={styles.followingList}>
+              {following.length === 0 && <Text style={styles.muted}>You are not following anyone yet.</Text>}
+              {following.map((f) => {
+                const added = roster.some((r) => r.uid === f.uid);
+                return <Chip key={f.uid ?? f.id} label={added ? `✓ ${f.name}` : f.name} active={added} onPress={() => addFollowed(f)} />;
+              })}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+/** Who spars whom; shown large during rest so people can find their next partner. */
+export function PairingsBoard({
+  pairs,
+  round,
+  upcoming,
+}: {
+  pairs: Pairing[];
+  round: number;
+  upcoming: boolean;
+}): React.ReactElement {
+  return (
+    <View style={styles.board}>
+      <Text style={styles.boardTitle}>{upcoming ? `NEXT · ROUND ${round}` : `ROUND ${round} PAIRS`}</Text>
+      {pairs.map((p) => (
+        <Text key={p.a.id} style={[upcoming ? styles.pairLarge : styles.pairSmall, !p.b && styles.bye]}>
+          {p.b ? `${p.a.name}  vs  ${p.b.name}` : `${p.a.name} — bye`}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+function Chip({ label, active, onPress }: { label: string; active?: boolean; onPress: () => void }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [styles.chip, active && styles.chipActive, pressed && { opacity: 0.8 }]}
+    >
+      <Text style={styles.chipTxt}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginVertical: 6, gap: 8 },
+  label: { color: TEXT },
+  muted: { color: MUTED, fontSize: 12 },
+  subHeader: { color: TEXT, fontWeight: '700', marginTop: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 10, backgroundColor: BORDER, borderRadius: 6 },
+  chipActive: { backgroundColor: RED },
+  chipTxt: { color: TEXT, fontWeight: '600' },
+  fighterRow: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 4, borderBottomWidth: 1, borderBottomColor: BORDER },
+  addRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 8 },
+  input: { flex: 1, color: TEXT, borderWidth: 1, borderColor: BORDER, borderRadius: 6, paddingHorizontal: 8, paddingVertical: 6 },
+  followingList: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 },
+  board: { alignSelf: 'stretch', marginTop: 12, padding: 12, borderRadius: 10, borderWidth: 1, borderColor: BORDER, gap: 6 },
+  boardTitle: { color: MUTED, fontWeight: '700', letterSpacing: 1, textAlign: 'center' },
+  pairLarge: { color: TEXT, fontSize: 24, fontWeight: '700', textAlign: 'center' },
+  pairSmall: { color: TEXT, fontSize: 15, textAlign: 'center' },
+  bye: { color: MUTED },
+});
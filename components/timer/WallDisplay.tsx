@@ -0,0 +1,179 @@
+import { useKeepAwake } from 'expo-keep-awake';
+import * as ScreenOrientation from 'expo-screen-orientation';
+import { StatusBar } from 'expo-status-bar';
+import React, { useEffect, useRef, useState } from 'react';
+import { Pressable, StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+
+import { PairingsBoard } from '@/components/timer/SparringRotation';
+import { Pairing } from '@/lib/sparring';
+import { TimerState } from '@/lib/timerEngine';
+import { KIND_LABELS } from '@/lib/timerProgram';
+
+const WORK_BG = '#c40000';
+const REST_BG = '#4b5563';
+const EDGE_BG = '#334155'; // warm-up / cool-down
+const AMBER_BG = '#f59e0b';
+const IDLE_BG = '#000';
+const TEXT = '#fff';
+const LAST_SECONDS = 10;
+const EXIT_HINT_MS = 4000;
+
+type Props = {
+  state: TimerState;
+  paused: boolean;
+  precise: boolean; // show tenths (short-interval modes)
+  pairs: Pairing[] | null;
+  pairsRound: number;
+  onTogglePause: () => void;
+  onClose: () => void;
+};
+
+function fmtTime(totalSeconds: number): string {
+  const s = Math.max(0, Math.floor(totalSeconds));
+  return `${String(Math.floor(s / 60)).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function fmtTenths(ms: number): string {
+  const tenths = Math.max(0, Math.ceil(ms / 100));
+  return `${fmtTime(Math.floor(tenths / 10))}.${tenths % 10}`;
+}
+
+function background(state: TimerState): string {
+  if (state.countdown > 0 || state.phase === 'idle' || state.phase === 'done') return IDLE_BG;
+  if (state.phaseLengthSec > LAST_SECONDS && state.remainingMs <= LAST_SECONDS * 1000) return AMBER_BG;
+  if (state.phase === 'work') return WORK_BG;
+  if (state.phase === 'rest') return REST_BG;
+  return EDGE_BG;
+}
+
+/**
+ * Round clock for a wall-mounted tablet: full screen, any orientation, screen
+ * kept awake. Long-press anywhere pauses / resumes; a tap briefly reveals Exit.
+ */
+export default function WallDisplay({
+  state,
+  paused,
+  precise,
+  pairs,
+  pairsRound,
+  onTogglePause,
+  onClose,
+}: Props): React.ReactElement {
+  useKeepAwake();
+  const { width, height } = useWindowDimensions();
+  const landscape = width > height;
+  const [showExit, setShowExit] = useState<boolean>(false);
+  const exitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Let the wall tablet rotate freely, then restore whatever lock the app had
+  useEffect(() => {
+    let cancelled = false;
+    // Resolves to the lock to put back once the unlock has gone through (null: nothing was changed)
+    const unlocked = (async (): Promise<ScreenOrientation.OrientationLock | null> => {
+      try {
+        const previous = await ScreenOrientation.getOrientationLockAsync();
+        if (cancelled) return null; // closed before we got this far; leave the lock alone
+        await ScreenOrientation.unlockAsync();
+        return previous;
+      } catch (e) {
+        console.warn('[wall] orientation unlock error:', e);
+        return null;
+      }
+    })();
+    return () => {
+      cancelled = true;
+      void unlocked
+        .then((previous) => (previous != null ? ScreenOrientation.lockAsync(previous) : undefined))
+        .catch(() => {});
+    };
+  }, []);
+
+  useEffect(
+    () => () => {
+      if (exitTimerRef.current) clearTimeout(exitTimerRef.current);
+    },
+    []
+  );
+
+  const revealExit = () => {
+    setShowExit(true);
+    if (exitTimerRef.current) clearTimeout(exitTimerRef.current);
+    exitTimerRef.current = setTimeout(() => setShowExit(false), EXIT_HINT_MS);
+  };
+
+  const phaseLabel =
+    state.countdown > 0
+      ? 'GET READY'
+      : state.phase === 'idle'
+      ? 'READY'
+      : state.phase === 'done'
+      ? 'TIME'
+      : state.phase === 'work'
+      ? `${state.label.toUpperCase()} ${state.currentRound} / ${state.roundsTotal}`
+      : KIND_LABELS[state.phase].toUpperCase();
+
+  const clock = state.countdown > 0 ? String(state.countdown) : precise ? fmtTenths(state.remainingMs) : fmtTime(state.remaining);
+  const clockSize = Math.min(width / (precise ? 4.2 : 3.2), height * (landscape ? 0.5 : 0.3));
+  const showPairs = !!pairs && state.phase !== 'work';
+
+  return (
+    <Pressable
+      onPress={revealExit}
+      onLongPress={onTogglePause}
+      delayLongPress={600}
+      style={[styles.root, { backgroundColor: background(state) }]}
+    >
+      <StatusBar hidden />
+      <View style={[styles.body, landscape && showPairs && styles.bodyLandscape]}>
+        <View style={[styles.clockCol, landscape && showPairs && { flex: 1 }]}>
+          <Text style={styles.phase} numberOfLines={1} adjustsFontSizeToFit>
+            {phaseLabel}
+          </Text>
+          <Text style={[styles.clock, { fontSize: clockSize, lineHeight: clockSize * 1.1 }]} numberOfLines={1} adjustsFontSizeToFit>
+            {clock}
+          </Text>
+          {!!state.next && state.phase !== 'done' && (
+            <Text style={styles.next} numberOfLines={1} adjustsFontSizeToFit>
+              Next: {state.next.label} · {fmtTime(state.next.lengthSec)}
+            </Text>
+          )}
+          {paused && <Text style={styles.paused}>PAUSED · hold to resume</Text>}
+        </View>
+        {showPairs && (
+          <View style={landscape ? styles.pairsColLandscape : styles.pairsCol}>
+            <PairingsBoard pairs={pairs} round={pairsRound} upcoming />
+          </View>
+        )}
+      </View>
+
+      {showExit && (
+        <Pressable onPress={onClose} style={({ pressed }) => [styles.exitBtn, pressed && { opacity: 0.8 }]}>
+          <Text style={styles.exitTxt}>Exit display</Text>
+        </Pressable>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+  body: { flex: 1, alignSelf: 'stretch', alignItems: 'center', justifyContent: 'center', gap: 16 },
+  bodyLandscape: { flexDirection: 'row', alignItems: 'center' },
+  clockCol: { alignItems: 'center', justifyContent: 'center', alignSelf: 'stretch' },
+  pairsCol: { alignSelf: 'stretch' },
+  pairsColLandscape: { flex: 0.8 },
+  phase: { color: TEXT, fontSize: 40, fontWeight: '800', letterSpacing: 2 },
+  clock: { color: TEXT, fontWeight: '800', fontVariant: ['tabular-nums'] },
+  next: { color: TEXT, fontSize: 28, fontWeight: '600', opacity: 0.9 },
+  paused: { color: TEXT, fontSize: 22, fontWeight: '700', marginTop: 12, opacity: 0.85 },
+  exitBtn: {
+    position: 'absolute',
+    top: 24,
+    right: 24,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  exitTxt: { color: TEXT, fontWeight: '700', fontSize: 16 },
+});
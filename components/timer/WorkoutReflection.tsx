@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import { updateWorkoutReflection } from '@/lib/workouts';
+
+const RED = '#f70000';
+const BORDER = 'rgba(255,255,255,0.12)';
+const MUTED = '#9ca3af';
+const TEXT = '#fff';
+
+type Props = {
+  workoutId: string;
+  onClose: () => void;
+};
+
+/** Optional notes + RPE prompt shown after a completed session is logged. */
+export default function WorkoutReflection({ workoutId, onClose }: Props): React.ReactElement {
+  const { uid } = useAuthUid();
+  const [rpe, setRpe] = useState<number | null>(null);
+  const [notes, setNotes] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const onSave = async () => {
+    if (!uid) return onClose();
+    setSaving(true);
+    try {
+      await updateWorkoutReflection(uid, workoutId, { rpe, notes: notes.trim() || null });
+      onClose();
+    } catch (e) {
+      console.warn('[workouts] reflection save error:', e);
+      Alert.alert('Error', 'Could not save your notes.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.backdrop}>
+      <View style={styles.sheet}>
+        <Text style={styles.title}>Session logged 🥊</Text>
+        <Text style={styles.muted}>How hard was it? (RPE)</Text>
+        <View style={styles.rpeRow}>
+          {Array.from({ length: 10 }, (_, i) => i + 1).map((n) => (
+            <Pressable
+              key={n}
+              onPress={() => setRpe(n === rpe ? null : n)}
+              style={[styles.rpeChip, rpe === n && styles.rpeChipActive]}
+            >
+              <Text style={styles.rpeTxt}>{n}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <TextInput
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Notes (optional)"
+          placeholderTextColor={MUTED}
+          multiline
+          style={styles.input}
+        />
+        <View style={styles.actions}>
+          <Pressable onPress={onClose} style={({ pressed }) => [styles.btn, pressed && { opacity: 0.8 }]}>
+            <Text style={styles.btnTxt}>Skip</Text>
+          </Pressable>
+          <Pressable
+            onPress={onSave}
+            disabled={saving}
+            style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }]}
+          >
+            {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnTxt}>Save</Text>}
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: { flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'flex-end' },
+  sheet: { backgroundColor: '#111', padding: 16, borderTopLeftRadius: 16, borderTopRightRadius: 16, gap: 10 },
+  title: { color: TEXT, fontSize: 20, fontWeight: '700' },
+  muted: { color: MUTED },
+  rpeRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  rpeChip: { width: 32, height: 32, borderRadius: 16, backgroundColor: BORDER, alignItems: 'center', justifyContent: 'center' },
+  rpeChipActive: { backgroundColor: RED },
+  rpeTxt: { color: TEXT, fontWeight: '700' },
+  input: { color: TEXT, borderWidth: 1, borderColor: BORDER, borderRadius: 8, padding: 10, minHeight: 70, textAlignVertical: 'top' },
+  actions: { flexDirection: 'row', gap: 8 },
+  btn: { paddingVertical: 12, paddingHorizontal: 16, backgroundColor: BORDER, borderRadius: 8 },
+  primaryBtn: { flex: 1, backgroundColor: RED, paddingVertical: 12, borderRadius: 8, alignItems: 'center' },
+  btnTxt: { color: TEXT, fontWeight: '700' },
+});
@@ -0,0 +1,92 @@
+import * as Speech from 'expo-speech';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import {
+  ComboCallerSettings,
+  DEFAULT_COMBO_SETTINGS,
+  comboPool,
+  comboToLabel,
+  comboToSpeech,
+  loadComboSettings,
+  nextComboIndex,
+  saveComboSettings,
+} from '@/lib/comboCaller';
+import { TimerState } from '@/lib/timerEngine';
+
+type UseComboCaller = {
+  combo: ComboCallerSettings;
+  updateCombo: (patch: Partial<ComboCallerSettings>) => void;
+  currentCall: string | null; // label of the combo being called, for display
+};
+
+const FIRST_CALL_DELAY_MS = 1500; // let the round bell ring out first
+const LOCAL_OWNER = '<local>'; // signed-out settings, kept on this device
+
+/** Calls combos at `paceSec` during running work phases; silent on rest, pause and idle. */
+export function useComboCaller(state: TimerState, running: boolean): UseComboCaller {
+  const { uid } = useAuthUid();
+  const [combo, setCombo] = useState<ComboCallerSettings>(DEFAULT_COMBO_SETTINGS);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null); // whose settings `combo` holds
+  const [currentCall, setCurrentCall] = useState<string | null>(null);
+  const lastIndexRef = useRef<number>(-1);
+
+  const owner = uid ?? LOCAL_OWNER;
+
+  useEffect(() => {
+    let alive = true;
+    setLoadedFor(null);
+    (async () => {
+      const s = await loadComboSettings(uid);
+      if (!alive) return;
+      setCombo(s);
+      setLoadedFor(owner);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [uid, owner]);
+
+  // Only save once this account's settings are in, so sign-in never overwrites them with local ones
+  useEffect(() => {
+    if (loadedFor !== owner) return;
+    const id = setTimeout(() => void saveComboSettings(uid, combo), 800);
+    return () => clearTimeout(id);
+  }, [combo, loadedFor, owner, uid]);
+
+  const pool = useMemo(() => comboPool(combo), [combo]);
+  const active = combo.enabled && running && state.phase === 'work' && pool.length > 0;
+
+  useEffect(() => {
+    if (!active) {
+      setCurrentCall(null);
+      void Speech.stop();
+      return;
+    }
+    const call = () => {
+      const i = nextComboIndex(pool.length, lastIndexRef.current, combo.order);
+      lastIndexRef.current = i;
+      const c = pool[i];
+      setCurrentCall(comboToLabel(c));
+      void Speech.stop();
+      Speech.speak(comboToSpeech(c, combo), { rate: 1.1 });
+    };
+    let interval: ReturnType<typeof setInterval> | null = null;
+    const first = setTimeout(() => {
+      call();
+      interval = setInterval(call, combo.paceSec * 1000);
+    }, FIRST_CALL_DELAY_MS);
+    return () => {
+      clearTimeout(first);
+      if (interval) clearInterval(interval);
+      void Speech.stop();
+    };
+    // restart per work step so each round opens with a fresh call
+  }, [active, pool, combo, state.stepIndex]);
+
+  const updateCombo = useCallback((patch: Partial<ComboCallerSettings>) => {
+    setCombo((c) => ({ ...c, ...patch }));
+  }, []);
+
+  return { combo, updateCombo, currentCall };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import {
+  DEFAULT_JUDGING_SETTINGS,
+  Decision,
+  JudgingSettings,
+  RoundCall,
+  RoundScore,
+  decide,
+  judgeTotals,
+  loadJudgingSettings,
+  saveJudgingSettings,
+  scoreRound,
+} from '@/lib/scorecard';
+import { TimerState } from '@/lib/timerEngine';
+
+type UseJudging = {
+  judging: JudgingSettings;
+  updateJudging: (patch: Partial<JudgingSettings>) => void;
+  pendingRound: number | null; // round waiting to be scored, null when nothing to prompt
+  submitRound: (calls: RoundCall[]) => void; // one call per judge
+  skipRound: () => void;
+  scores: RoundScore[];
+  scoredRounds: number;
+  totals: { red: number; blue: number }[]; // per judge
+  decision: Decision | null; // once the timer is done and something was scored
+};
+
+/**
+ * Scorecard for the run in progress: asks for scores whenever a work phase
+ * ends (rest, next round or done) and clears them when a new run starts.
+ */
+export function useJudging(state: TimerState): UseJudging {
+  const [judging, setJudging] = useState<JudgingSettings>(DEFAULT_JUDGING_SETTINGS);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [scores, setScores] = useState<RoundScore[]>([]);
+  const [pendingRound, setPendingRound] = useState<number | null>(null);
+  const prevRef = useRef<{ phase: TimerState['phase']; round: number } | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      setJudging(await loadJudgingSettings());
+      setLoaded(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (loaded) void saveJudgingSettings(judging);
+  }, [judging, loaded]);
+
+  const updateJudging = useCallback((patch: Partial<JudgingSettings>) => {
+    setJudging((s) => ({ ...s, ...patch }));
+  }, []);
+
+  useEffect(() => {
+    const prev = prevRef.current;
+    prevRef.current = { phase: state.phase, round: state.currentRound };
+    if (!prev) return;
+
+    if (state.phase === 'idle') {
+      setPendingRound(null);
+      return;
+    }
+    if (prev.phase === 'idle') {
+      setScores([]);
+      setPendingRound(null);
+      return;
+    }
+    const workEnded = prev.phase === 'work' && (state.phase !== 'work' || state.currentRound !== prev.round);
+    if (workEnded && judging.enabled) setPendingRound(prev.round);
+  }, [state.phase, state.currentRound, judging.enabled]);
+
+  const submitRound = useCallback(
+    (calls: RoundCall[]) => {
+      if (pendingRound == null) return;
+      const round = pendingRound;
+      setScores((prev) => [
+        ...prev.filter((s) => s.round !== round),
+        ...calls.map((call, judge) => ({ ...call, ...scoreRound(call), judge, round })),
+      ]);
+      setPendingRound(null);
+    },
+    [pendingRound]
+  );
+
+  const skipRound = useCallback(() => setPendingRound(null), []);
+
+  const totals = useMemo(() => judgeTotals(scores, judging.judges.length), [scores, judging.judges.length]);
+  const scoredRounds = useMemo(() => new Set(scores.map((s) => s.round)).size, [scores]);
+  const decision = useMemo(
+    () =>
+      state.phase === 'done' && scoredRounds > 0 ? decide(totals, { red: judging.red, blue: judging.blue }) : null,
+    [state.phase, scoredRounds, totals, judging.red, judging.blue]
+  );
+
+  return { judging, updateJudging, pendingRound, submitRound, skipRound, scores, scoredRounds, totals, decision };
+}
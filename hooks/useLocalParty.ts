@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import type { UsePartyTimer } from '@/hooks/usePartyTimer';
+import { LocalParty, emptyLocalParty, loadLocalParty, saveLocalParty } from '@/lib/localParty';
+import { COUNTDOWN_SEC } from '@/lib/timerAudio';
+import {
+  TimerSession,
+  deriveTimerState,
+  isSessionRunning,
+  pauseSession,
+  resetSession,
+  startOrResumeSession,
+} from '@/lib/timerEngine';
+import { settingsMode } from '@/lib/timerProgram';
+
+const TICK_MS = 1000;
+const FAST_TICK_MS = 100;
+
+type UseLocalParty = {
+  ready: boolean; // saved state restored
+  party: LocalParty;
+  change: (fn: (party: LocalParty) => LocalParty) => void;
+  timer: UsePartyTimer; // same shape as the room clock so the party timer UI can drive it
+  clearResults: () => void; // keeps the roster and program
+};
+
+/** Pass-and-play state, saved on this phone after every change. */
+export function useLocalParty(): UseLocalParty {
+  const [party, setParty] = useState<LocalParty>(emptyLocalParty);
+  const [ready, setReady] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const partyRef = useRef(party);
+
+  useEffect(() => {
+    (async () => {
+      const saved = await loadLocalParty();
+      partyRef.current = saved;
+      setParty(saved);
+      setReady(true);
+    })();
+  }, []);
+
+  const change = useCallback((fn: (party: LocalParty) => LocalParty) => {
+    const next = fn(partyRef.current);
+    partyRef.current = next;
+    setParty(next);
+    setNow(Date.now());
+    saveLocalParty(next).catch((e) => console.warn('[local-party] save error:', e));
+  }, []);
+
+  const clearResults = useCallback(
+    () => change((p) => ({ ...p, results: {}, session: resetSession(p.session) })),
+    [change]
+  );
+
+  const { session } = party;
+  const state = useMemo(() => deriveTimerState(session, now), [session, now]);
+  const running = isSessionRunning(session, now);
+  const counting = session.startedAt != null && session.pausedAt == null && state.phase !== 'done';
+  const mode = settingsMode(session.settings);
+  const precise = mode === 'tabata' || mode === 'emom';
+
+  useEffect(() => {
+    if (!counting) return;
+    const id = setTimeout(() => setNow(Date.now()), precise ? FAST_TICK_MS : TICK_MS);
+    return () => clearTimeout(id);
+  }, [counting, precise, now]);
+
+  const update = useCallback(
+    async (fn: (session: TimerSession, now: number) => TimerSession) => {
+      change((p) => ({ ...p, session: fn(p.session, Date.now()) }));
+    },
+    [change]
+  );
+
+  const toggle = useCallback(
+    () =>
+      update((s, t) =>
+        isSessionRunning(s, t) ? pauseSession(s, t) : startOrResumeSession(s, t, COUNTDOWN_SEC * 1000)
+      ),
+    [update]
+  );
+
+  const reset = useCallback(() => update((s) => resetSession(s)), [update]);
+
+  const timer: UsePartyTimer = {
+    session,
+    state,
+    running,
+    paused: session.pausedAt != null,
+    precise,
+    synced: true,
+    rttMs: null,
+    serverTime: now,
+    serverNow: Date.now,
+    toggle,
+    reset,
+    update,
+  };
+
+  return { ready, party, change, timer, clearResults };
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+
+import {
+  PlaybackPoint,
+  getPlaybackState,
+  pausePlayback,
+  playFrom,
+  resumePlayback,
+  setPlaybackVolume,
+  skipToNext,
+} from '@/app/(tabs)/spotify/spotify';
+import { MusicAutomation } from '@/lib/musicAutomation';
+import { TimerState } from '@/lib/timerEngine';
+
+/**
+ * Drives Spotify from live phase changes: duck or pause on rest, restore on
+ * work, switch between work / rest playlists and optionally skip a track each
+ * round. With only a rest playlist, work goes back to whatever played before
+ * the first rest. Calls are queued so quick transitions can't reorder them.
+ */
+export function useMusicAutomation(state: TimerState, running: boolean, music: MusicAutomation | undefined): void {
+  const prevRef = useRef<{ phase: TimerState['phase']; stepIndex: number } | null>(null);
+  const contextRef = useRef<'work' | 'rest' | null>(null); // playlist we last started
+  const restoreVolumeRef = useRef<number | null>(null); // volume before ducking
+  const pausedRef = useRef<boolean>(false); // we paused it for rest
+  const beforeRestRef = useRef<PlaybackPoint | null>(null); // what played before we switched to the rest playlist
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    const prev = prevRef.current;
+    prevRef.current = { phase: state.phase, stepIndex: state.stepIndex };
+    if (!music?.enabled || !prev || prev.stepIndex === state.stepIndex) return;
+
+    const run = (job: () => Promise<void>) => {
+      queueRef.current = queueRef.current.then(job).catch((e) => console.warn('[spotify] automation error:', e));
+    };
+
+    const restoreVolume = async () => {
+      if (restoreVolumeRef.current == null) return;
+      const volume = restoreVolumeRef.current;
+      restoreVolumeRef.current = null;
+      await setPlaybackVolume(volume);
+    };
+
+    if (state.phase === 'idle' || state.phase === 'done') {
+      contextRef.current = null;
+      pausedRef.current = false;
+      beforeRestRef.current = null;
+      run(restoreVolume);
+      return;
+    }
+    if (!running) return;
+
+    if (state.phase === 'work') {
+      run(async () => {
+        await restoreVolume();
+        if (music.workPlaylist && contextRef.current !== 'work') {
+          contextRef.current = 'work';
+          pausedRef.current = false;
+          await resumePlayback(music.workPlaylist);
+          return;
+        }
+        if (contextRef.current === 'rest') {
+          // Leave the rest playlist: back to the earlier music, or silence if there was none
+          contextRef.current = null;
+          const before = beforeRestRef.current;
+          beforeRestRef.current = null;
+          if (before) await playFrom(before);
+          else await pausePlayback();
+          return;
+        }
+        if (pausedRef.current) {
+          pausedRef.current = false;
+          await resumePlayback();
+        }
+        if (music.skipEachRound) await skipToNext();
+      });
+      return;
+    }
+
+    if (state.phase === 'rest') {
+      run(async () => {
+        if (music.restPlaylist) {
+          if (contextRef.current !== 'rest') {
+            if (contextRef.current !== 'work') {
+              const playback = await getPlaybackState();
+              beforeRestRef.current = playback?.playing ? playback.point : null;
+            }
+            contextRef.current = 'rest';
+            await resumePlayback(music.restPlaylist);
+          }
+          return;
+        }
+        if (music.onRest === 'pause') {
+          const playback = await getPlaybackState();
+          if (playback?.playing) {
+            pausedRef.current = true;
+            await pausePlayback();
+          }
+        } else if (music.onRest === 'duck' && restoreVolumeRef.current == null) {
+          const playback = await getPlaybackState();
+          if (playback?.volume != null && playback.volume > music.duckVolume) {
+            restoreVolumeRef.current = playback.volume;
+            await setPlaybackVolume(music.duckVolume);
+          }
+        }
+      });
+    }
+  }, [state.phase, state.stepIndex, running, music]);
+}
@@ -0,0 +1,25 @@
+import { onSnapshot, query, where } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+
+import { PartyScore, scoresCol } from '@/lib/partyScores';
+
+/**
+ * Live scores for one run of the room timer. `runId` is the run's
+ * `startedAt`; null means no run yet and yields an empty board.
+ */
+export function usePartyLeaderboard(code: string, runId: number | null): PartyScore[] {
+  const [scores, setScores] = useState<PartyScore[]>([]);
+
+  useEffect(() => {
+    setScores([]);
+    if (runId == null) return;
+    const unsub = onSnapshot(
+      query(scoresCol(code), where('runId', '==', runId)),
+      (snapshot) => setScores(snapshot.docs.map((d) => d.data() as PartyScore)),
+      (e) => console.warn('[party] scores error:', e)
+    );
+    return () => unsub();
+  }, [code, runId]);
+
+  return scores;
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+
+import type { PartyMember } from '@/hooks/usePartyRoom';
+import type { UsePartyTimer } from '@/hooks/usePartyTimer';
+import { PartyDoc } from '@/lib/party';
+import { backfillPartyHistory, recordPartyRun } from '@/lib/partyRecap';
+import { TimerSession, elapsedMs } from '@/lib/timerEngine';
+import { MIN_ABANDONED_MS, WorkoutStatus } from '@/lib/workouts';
+
+/**
+ * Records each party run this phone was around for: a shared recap plus an
+ * entry in the signed-in user's history. A run counts when it finishes, or
+ * when the host resets / swaps the program after it had properly started.
+ * Runs that ended while this phone was away are added from their recaps on
+ * entering the room. Returns the latest recap id so the room can link to it.
+ */
+export function usePartyRecap(
+  code: string,
+  uid: string,
+  timer: UsePartyTimer,
+  party: PartyDoc | null,
+  members: PartyMember[]
+): string | null {
+  const { session, state, serverNow } = timer;
+  const [recapId, setRecapId] = useState<string | null>(null);
+  const liveRef = useRef<TimerSession | null>(null); // the run we watched start or saw in progress
+  const recordedRef = useRef<Set<number>>(new Set());
+
+  // Latest room details without re-running the effect on every presence tick
+  const contextRef = useRef({ party, members });
+  contextRef.current = { party, members };
+
+  useEffect(() => {
+    backfillPartyHistory(code, uid).catch((e) => console.warn('[party] history backfill error:', e));
+  }, [code, uid]);
+
+  useEffect(() => {
+    const record = (run: TimerSession, status: WorkoutStatus) => {
+      const runId = run.startedAt;
+      if (runId == null || recordedRef.current.has(runId)) return;
+      recordedRef.current.add(runId);
+      const { party: room, members: people } = contextRef.current;
+      const hostUid = room?.hostUid ?? uid;
+      const name = (u: string) => people.find((m) => m.uid === u)?.name ?? 'Player';
+      recordPartyRun(
+        {
+          code,
+          session: run,
+          status,
+          now: serverNow(),
+          hostUid,
+          hostName: name(hostUid),
+          present: people.filter((m) => m.status === 'online').map((m) => ({ uid: m.uid, name: m.name })),
+          metric: room?.scoreMetric ?? 'reps',
+        },
+        { uid, name: name(uid) }
+      )
+        .then(setRecapId)
+        .catch((e) => console.warn('[party] recap error:', e));
+    };
+
+    const live = liveRef.current;
+    if (live && live.startedAt !== session.startedAt && elapsedMs(live, serverNow()) >= MIN_ABANDONED_MS) {
+      record(live, 'abandoned'); // replaced or reset before the end
+    }
+
+    if (session.startedAt == null) {
+      liveRef.current = null;
+    } else if (state.phase === 'done') {
+      if (live?.startedAt === session.startedAt) record(session, 'completed');
+      liveRef.current = null;
+    } else if (state.phase !== 'idle') {
+      liveRef.current = session;
+    }
+  }, [code, uid, session, state.phase, serverNow]);
+
+  return recapId;
+}
@@ -0,0 +1,94 @@
+import { onSnapshot } from 'firebase/firestore';
+import { useEffect, useMemo, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+
+import { HEARTBEAT_MS, PartyDoc, isPartyExpired, participantsCol, partyRef } from '@/lib/party';
+import { PartyParticipant, PresenceStatus, enterParty, heartbeat, presenceStatus } from '@/lib/partyPresence';
+
+export type PartyMember = PartyParticipant & { status: PresenceStatus };
+
+type UsePartyRoom = {
+  party: PartyDoc | null;
+  members: PartyMember[]; // host first, then online, then gone
+  isHost: boolean;
+  hostGone: boolean; // the host stopped heartbeating; anyone may claim the room
+  ended: boolean; // expired or deleted
+  removed: boolean; // the host kicked us
+};
+
+/**
+ * Room doc + members with presence. Joins on mount and heartbeats while the
+ * app is open; people whose heartbeats stop show as gone.
+ */
+export function usePartyRoom(code: string, uid: string, serverNow: () => number): UsePartyRoom {
+  const [party, setParty] = useState<PartyDoc | null>(null);
+  const [ended, setEnded] = useState<boolean>(false);
+  const [participants, setParticipants] = useState<PartyParticipant[]>([]);
+  const [tick, setTick] = useState<number>(0);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      partyRef(code),
+      (snapshot) => {
+        if (!snapshot.exists() || isPartyExpired(snapshot.data() as PartyDoc)) {
+          setEnded(true);
+          return;
+        }
+        setParty(snapshot.data() as PartyDoc);
+      },
+      (e) => console.warn('[party] room error:', e)
+    );
+    return () => unsub();
+  }, [code]);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      participantsCol(code),
+      (snapshot) => setParticipants(snapshot.docs.map((d) => d.data() as PartyParticipant)),
+      (e) => console.warn('[party] participants error:', e)
+    );
+    return () => unsub();
+  }, [code]);
+
+  const removed = !!party?.kicked?.includes(uid);
+
+  // Join, then heartbeat; coming back from background counts as a beat straight away.
+  // Once kicked our participant doc is gone, so stop instead of failing every beat.
+  useEffect(() => {
+    if (removed) return;
+    const beat = () => {
+      heartbeat(code, uid).catch((e) => console.warn('[party] heartbeat error:', e));
+      setTick((t) => t + 1);
+    };
+    enterParty(code, uid).catch((e) => console.warn('[party] enter error:', e));
+    const id = setInterval(beat, HEARTBEAT_MS);
+    const sub = AppState.addEventListener('change', (s: AppStateStatus) => {
+      if (s === 'active') beat();
+    });
+    return () => {
+      clearInterval(id);
+      sub.remove();
+    };
+  }, [code, uid, removed]);
+
+  const hostUid = party?.hostUid ?? null;
+  const members = useMemo(() => {
+    void tick; // re-evaluate presence on every heartbeat even if nothing else changed
+    const now = serverNow();
+    const rank = (m: PartyMember) => (m.uid === hostUid ? 0 : m.status === 'online' ? 1 : 2);
+    return participants
+      .map((p) => ({ ...p, status: presenceStatus(p, now) }))
+      .sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+  }, [participants, hostUid, serverNow, tick]);
+
+  const host = members.find((m) => m.uid === hostUid);
+
+  return {
+    party,
+    members,
+    isHost: !!hostUid && hostUid === uid,
+    hostGone: !!party && (!host || host.status === 'gone'),
+    ended,
+    removed,
+  };
+}
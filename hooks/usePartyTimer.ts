@@ -0,0 +1,137 @@
+import { onSnapshot } from 'firebase/firestore';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+
+import { partyRef } from '@/lib/party';
+import { estimateServerOffset, updatePartyTimer } from '@/lib/partySync';
+import { COUNTDOWN_SEC } from '@/lib/timerAudio';
+import {
+  DEFAULT_SETTINGS,
+  TimerSession,
+  TimerState,
+  createSession,
+  deriveTimerState,
+  isSessionRunning,
+  parseTimerSession,
+  pauseSession,
+  resetSession,
+  startOrResumeSession,
+} from '@/lib/timerEngine';
+import { newId, settingsMode } from '@/lib/timerProgram';
+
+const TICK_MS = 1000;
+const FAST_TICK_MS = 100; // short-interval modes show tenths
+
+export type UsePartyTimer = {
+  session: TimerSession;
+  state: TimerState;
+  running: boolean;
+  paused: boolean;
+  precise: boolean; // show tenths (short-interval modes)
+  synced: boolean; // clock offset measured; until then local time is used
+  rttMs: number | null; // round trip of the best clock sample; offset error ≤ rtt / 2
+  serverTime: number; // server-clock estimate as of the last render
+  serverNow: () => number;
+  toggle: () => Promise<void>; // start, pause or resume
+  reset: () => Promise<void>;
+  update: (fn: (session: TimerSession, serverNow: number) => TimerSession) => Promise<void>;
+};
+
+/**
+ * Room clock derived from the shared record and a per-device server-time
+ * offset. Ticks only re-render; the only writes are control actions.
+ */
+export function usePartyTimer(code: string, uid: string): UsePartyTimer {
+  const [session, setSession] = useState<TimerSession>(() => createSession(DEFAULT_SETTINGS));
+  const [clock, setClock] = useState<{ offsetMs: number; rttMs: number } | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const clientId = useMemo(() => newId(), []);
+
+  const offsetMs = clock?.offsetMs ?? 0;
+  const serverNow = useCallback(() => Date.now() + offsetMs, [offsetMs]);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      partyRef(code),
+      (snapshot) => {
+        const next = parseTimerSession(snapshot.data()?.timer);
+        if (next) setSession(next);
+      },
+      (e) => console.warn('[party] timer sync error:', e)
+    );
+    return () => unsub();
+  }, [code]);
+
+  // Measure on join and again whenever the app comes back, since device clocks can jump meanwhile
+  useEffect(() => {
+    let cancelled = false;
+    const measure = async () => {
+      try {
+        const sample = await estimateServerOffset(code, clientId);
+        if (!cancelled) setClock(sample);
+      } catch (e) {
+        console.warn('[party] clock offset error:', e);
+      }
+    };
+    void measure();
+    const sub = AppState.addEventListener('change', (s: AppStateStatus) => {
+      if (s === 'active') {
+        setNow(Date.now());
+        void measure();
+      }
+    });
+    return () => {
+      cancelled = true;
+      sub.remove();
+    };
+  }, [code, clientId]);
+
+  const serverTime = now + offsetMs;
+  const state = useMemo(() => deriveTimerState(session, serverTime), [session, serverTime]);
+  const running = isSessionRunning(session, serverTime);
+  const counting = session.startedAt != null && session.pausedAt == null && state.phase !== 'done';
+  const mode = settingsMode(session.settings);
+  const precise = mode === 'tabata' || mode === 'emom';
+
+  // Re-render right on the shared second (or tenth) boundaries rather than on a
+  // free-running interval, so cues land at the same moment on every phone
+  useEffect(() => {
+    if (!counting || session.startedAt == null) return;
+    const unit = precise ? FAST_TICK_MS : TICK_MS;
+    const into = (((serverTime - session.startedAt - session.pausedMs) % unit) + unit) % unit;
+    const id = setTimeout(() => setNow(Date.now()), unit - into + 5);
+    return () => clearTimeout(id);
+  }, [counting, precise, serverTime, session.startedAt, session.pausedMs]);
+
+  const update = useCallback(
+    async (fn: (session: TimerSession, serverNow: number) => TimerSession) => {
+      await updatePartyTimer(code, uid, serverNow(), fn);
+    },
+    [code, uid, serverNow]
+  );
+
+  const toggle = useCallback(
+    () =>
+      update((s, t) =>
+        isSessionRunning(s, t) ? pauseSession(s, t) : startOrResumeSession(s, t, COUNTDOWN_SEC * 1000)
+      ),
+    [update]
+  );
+
+  const reset = useCallback(() => update((s) => resetSession(s)), [update]);
+
+  return {
+    session,
+    state,
+    running,
+    paused: session.pausedAt != null,
+    precise,
+    synced: clock != null,
+    rttMs: clock?.rttMs ?? null,
+    serverTime,
+    serverNow,
+    toggle,
+    reset,
+    update,
+  };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import {
+  DEFAULT_SPARRING_SETTINGS,
+  Pairing,
+  SparringSettings,
+  loadSparringSettings,
+  planRotation,
+  saveSparringSettings,
+} from '@/lib/sparring';
+import { TimerState } from '@/lib/timerEngine';
+
+type UseSparringRotation = {
+  sparring: SparringSettings;
+  updateSparring: (patch: Partial<SparringSettings>) => void;
+  pairs: Pairing[] | null; // pairings to show right now, null when rotation is off
+  pairsRound: number; // 1-based round `pairs` belong to
+  upcoming: boolean; // `pairs` are for the next round (rest / before the start)
+};
+
+/** Roster persistence plus the pairings for the round in progress or, during rest, the next one. */
+export function useSparringRotation(state: TimerState): UseSparringRotation {
+  const [sparring, setSparring] = useState<SparringSettings>(DEFAULT_SPARRING_SETTINGS);
+  const [loaded, setLoaded] = useState<boolean>(false);
+
+  useEffect(() => {
+    (async () => {
+      setSparring(await loadSparringSettings());
+      setLoaded(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (loaded) void saveSparringSettings(sparring);
+  }, [sparring, loaded]);
+
+  const updateSparring = useCallback((patch: Partial<SparringSettings>) => {
+    setSparring((s) => ({ ...s, ...patch }));
+  }, []);
+
+  const rotation = useMemo(
+    () => (sparring.enabled ? planRotation(sparring, state.roundsTotal) : []),
+    [sparring, state.roundsTotal]
+  );
+
+  // Rest steps carry the round they follow, so rest shows round + 1
+  const upcoming = state.phase !== 'work';
+  const pairsRound =
+    state.phase === 'idle' || state.phase === 'warmup' ? 1 : upcoming ? state.currentRound + 1 : state.currentRound;
+  const pairs = rotation.length > 0 && state.phase !== 'done' ? rotation[pairsRound - 1] ?? null : null;
+
+  return { sparring, updateSparring, pairs, pairsRound, upcoming };
+}
@@ -0,0 +1,160 @@
+import { useIsFocused } from '@react-navigation/native';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+
+import {
+  PlayerSnapshot,
+  RepeatMode,
+  SpotifyDevice,
+  getDevices,
+  getPlayer,
+  pausePlayback,
+  resumePlayback,
+  seekTo,
+  setPlaybackVolume,
+  setRepeat,
+  setShuffle,
+  skipToNext,
+  skipToPrevious,
+  transferPlayback,
+} from '@/app/(tabs)/spotify/spotify';
+
+const POLL_MS = 5000;
+const SETTLE_MS = 400; // Spotify takes a moment to reflect a command in /me/player
+const NEXT_REPEAT: Record<RepeatMode, RepeatMode> = { off: 'context', context: 'track', track: 'off' };
+
+type UseSpotifyPlayer = {
+  player: PlayerSnapshot | null;
+  progressMs: number; // interpolated between polls
+  devices: SpotifyDevice[];
+  error: string | null;
+  togglePlay: () => void;
+  next: () => void;
+  previous: () => void;
+  seek: (ms: number) => void;
+  setVolume: (percent: number) => void;
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  loadDevices: () => Promise<void>;
+  transfer: (device: SpotifyDevice) => void;
+};
+
+/**
+ * Now-playing state for the player panel. Polls only while the screen is
+ * focused and the app is in front; commands update optimistically, then
+ * re-read once Spotify has caught up.
+ */
+export function useSpotifyPlayer(enabled: boolean): UseSpotifyPlayer {
+  const focused = useIsFocused();
+  const [active, setActive] = useState<boolean>(AppState.currentState === 'active');
+  const [player, setPlayer] = useState<PlayerSnapshot | null>(null);
+  const [devices, setDevices] = useState<SpotifyDevice[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const settleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPlayer(await getPlayer());
+      setError(null);
+    } catch (e) {
+      console.warn('[spotify] player error:', e);
+      setError('Could not reach Spotify.');
+    }
+  }, []);
+
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', (s: AppStateStatus) => setActive(s === 'active'));
+    return () => sub.remove();
+  }, []);
+
+  const live = enabled && focused && active;
+
+  useEffect(() => {
+    if (!live) return;
+    void refresh();
+    const id = setInterval(() => void refresh(), POLL_MS);
+    return () => clearInterval(id);
+  }, [live, refresh]);
+
+  // Move the scrubber every second between polls
+  const playing = !!player?.playing;
+  useEffect(() => {
+    if (!live || !playing) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [live, playing]);
+
+  useEffect(
+    () => () => {
+      if (settleRef.current) clearTimeout(settleRef.current);
+    },
+    []
+  );
+
+  const command = useCallback(
+    (job: () => Promise<void>, optimistic?: (p: PlayerSnapshot) => PlayerSnapshot) => {
+      if (optimistic) setPlayer((p) => (p ? optimistic(p) : p));
+      job()
+        .catch((e) => {
+          console.warn('[spotify] command error:', e);
+          setError(
+            e?.response?.status === 403 ? 'Spotify Premium is needed for remote control.' : 'Spotify did not respond.'
+          );
+        })
+        .finally(() => {
+          if (settleRef.current) clearTimeout(settleRef.current);
+          settleRef.current = setTimeout(() => void refresh(), SETTLE_MS);
+        });
+    },
+    [refresh]
+  );
+
+  const progressMs = player
+    ? Math.min(
+        player.track?.durationMs ?? 0,
+        player.progressMs + (player.playing ? Math.max(0, now - player.fetchedAt) : 0)
+      )
+    : 0;
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setDevices(await getDevices());
+    } catch (e) {
+      console.warn('[spotify] devices error:', e);
+      setError('Could not load your Spotify devices.');
+    }
+  }, []);
+
+  return {
+    player,
+    progressMs,
+    devices,
+    error,
+    togglePlay: () =>
+      command(playing ? pausePlayback : () => resumePlayback(), (p) => ({ ...p, playing: !p.playing })),
+    next: () => command(skipToNext),
+    previous: () => command(skipToPrevious),
+    seek: (ms) => command(() => seekTo(ms), (p) => ({ ...p, progressMs: ms, fetchedAt: Date.now() })),
+    setVolume: (percent) =>
+      command(
+        () => setPlaybackVolume(percent),
+        (p) => (p.device ? { ...p, device: { ...p.device, volume: percent } } : p)
+      ),
+    toggleShuffle: () =>
+      command(
+        () => setShuffle(!player?.shuffle),
+        (p) => ({ ...p, shuffle: !p.shuffle })
+      ),
+    cycleRepeat: () => {
+      const mode = NEXT_REPEAT[player?.repeat ?? 'off'];
+      command(() => setRepeat(mode), (p) => ({ ...p, repeat: mode }));
+    },
+    loadDevices,
+    transfer: (device) =>
+      command(
+        () => transferPlayback(device.id, true),
+        (p) => ({ ...p, device })
+      ),
+  };
+}
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+
+import { TimerState } from '@/lib/timerEngine';
+import {
+  AudioCueSettings,
+  CuePlayer,
+  DEFAULT_AUDIO_SETTINGS,
+  configureCueAudioSession,
+  createCuePlayer,
+  loadAudioSettings,
+  saveAudioSettings,
+} from '@/lib/timerAudio';
+
+type UseTimerAudio = {
+  audio: AudioCueSettings;
+  updateAudio: (patch: Partial<AudioCueSettings>) => void;
+};
+
+/**
+ * Plays bell, clapper and countdown cues for a derived timer state:
+ * single bell when a phase starts, triple bell when a work phase ends,
+ * clapper `clapperSec` before a work phase ends, beeps on the 3-2-1 lead-in.
+ * Cues only sound for changes seen live: restoring a saved session or coming
+ * back to the app just takes the new state as the starting point.
+ */
+export function useTimerAudio(state: TimerState, hydrated = true): UseTimerAudio {
+  const [audio, setAudio] = useState<AudioCueSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const playerRef = useRef<CuePlayer | null>(null);
+
+  const prevRef = useRef<{ phase: TimerState['phase']; stepIndex: number; countdown: number } | null>(null);
+  const clapperStepRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    void configureCueAudioSession();
+    (async () => {
+      setAudio(await loadAudioSettings());
+      setLoaded(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (loaded) void saveAudioSettings(audio);
+  }, [audio, loaded]);
+
+  // One preloaded player per pack; volume changes don't reload
+  useEffect(() => {
+    const player = createCuePlayer(audio.pack, DEFAULT_AUDIO_SETTINGS.volume);
+    playerRef.current = player;
+    return () => {
+      player.release();
+      if (playerRef.current === player) playerRef.current = null;
+    };
+  }, [audio.pack]);
+
+  useEffect(() => {
+    playerRef.current?.setVolume(audio.volume);
+  }, [audio.volume, audio.pack]);
+
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', (s: AppStateStatus) => {
+      if (s === 'active') prevRef.current = null;
+    });
+    return () => sub.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) {
+      prevRef.current = null;
+      return;
+    }
+    const prev = prevRef.current;
+    prevRef.current = { phase: state.phase, stepIndex: state.stepIndex, countdown: state.countdown };
+    if (state.phase === 'idle') clapperStepRef.current = null;
+    if (!prev) {
+      // Already inside the clapper window when we start watching: that one's gone
+      if (state.phase === 'work' && state.remaining <= audio.clapperSec) clapperStepRef.current = state.stepIndex;
+      return;
+    }
+    const player = playerRef.current;
+    if (!player || !audio.enabled) return;
+
+    if (audio.countdown && state.countdown > 0 && state.countdown !== prev.countdown) {
+      player.play('beep');
+      return;
+    }
+
+    if (state.stepIndex !== prev.stepIndex && state.phase !== 'idle') {
+      if (prev.phase === 'work' && state.phase !== 'work') player.play('bell', 3);
+      else if (state.phase === 'done') player.play('bell', 3);
+      else player.play('bell');
+      return;
+    }
+
+    if (
+      state.phase === 'work' &&
+      audio.clapperSec > 0 &&
+      state.phaseLengthSec > audio.clapperSec &&
+      state.remaining <= audio.clapperSec &&
+      state.remaining > audio.clapperSec - 2 &&
+      clapperStepRef.current !== state.stepIndex
+    ) {
+      clapperStepRef.current = state.stepIndex;
+      player.play('clapper');
+    }
+  }, [hydrated, state.phase, state.stepIndex, state.countdown, state.remaining, state.phaseLengthSec, audio]);
+
+  const updateAudio = useCallback((patch: Partial<AudioCueSettings>) => {
+    setAudio((a) => ({ ...a, ...patch }));
+  }, []);
+
+  return { audio, updateAudio };
+}
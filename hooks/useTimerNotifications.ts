@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+
+import { TimerSession } from '@/lib/timerEngine';
+import { scheduleTimerNotifications } from '@/lib/timerNotifications';
+
+/**
+ * Keeps local notifications for upcoming phase changes in step with the session,
+ * so a backgrounded or locked phone still announces each round. Only what shapes
+ * the schedule reschedules: start, pause, resume, reset, edits and setup loads.
+ * Rep taps, the logged flag and music settings leave pending notifications alone.
+ */
+export function useTimerNotifications(session: TimerSession, hydrated: boolean): void {
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  const { startedAt, pausedAt, pausedMs, edits, program } = session;
+  const { music: _music, ...scheduleSettings } = session.settings;
+  const settingsKey = JSON.stringify(scheduleSettings);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    // Chain so a quick pause/resume can't interleave cancel and schedule calls
+    queueRef.current = queueRef.current.then(() => scheduleTimerNotifications(sessionRef.current, Date.now()));
+  }, [hydrated, startedAt, pausedAt, pausedMs, edits, program, settingsKey]);
+}
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import {
+  TimerPreset,
+  createPreset,
+  deletePreset,
+  loadLocalPresets,
+  movePreset,
+  saveLocalPresets,
+  syncPresets,
+  updatePreset,
+  visiblePresets,
+} from '@/lib/timerPresets';
+import { Program, Settings } from '@/lib/timerProgram';
+
+const PUSH_DELAY_MS = 1500;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+type UseTimerPresets = {
+  presets: TimerPreset[]; // visible, ordered
+  syncing: boolean;
+  conflicts: string[];
+  error: string | null;
+  save: (name: string, settings: Settings, program: Program | null) => void;
+  rename: (id: string, name: string) => void;
+  overwrite: (id: string, settings: Settings, program: Program | null) => void;
+  remove: (id: string) => void;
+  move: (id: string, delta: number) => void;
+  sync: () => Promise<void>;
+  dismissConflicts: () => void;
+};
+
+/** Local-first preset library; syncs to users/{uid}/timerPresets when signed in. */
+export function useTimerPresets(): UseTimerPresets {
+  const { uid } = useAuthUid();
+  const [all, setAll] = useState<TimerPreset[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [edits, setEdits] = useState<number>(0); // bumps on every local edit
+  const [failures, setFailures] = useState<number>(0); // consecutive failed syncs, for backoff
+
+  const allRef = useRef<TimerPreset[]>([]);
+  allRef.current = all;
+  const syncingRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    (async () => {
+      setAll(await loadLocalPresets());
+      setLoaded(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (loaded) void saveLocalPresets(all);
+  }, [all, loaded]);
+
+  const sync = useCallback(async (): Promise<void> => {
+    if (!uid || syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    const startedAt = Date.now();
+    try {
+      const res = await syncPresets(uid, allRef.current);
+      // Keep anything edited locally while the sync was in flight
+      const newer = allRef.current.filter((p) => p.dirty && p.editedAt >= startedAt);
+      const newerIds = new Set(newer.map((p) => p.id));
+      setAll([...res.presets.filter((p) => !newerIds.has(p.id)), ...newer]);
+      if (res.conflicts.length) setConflicts((c) => [...c, ...res.conflicts]);
+      setError(res.error == null ? null : String(res.error));
+      setFailures((n) => (res.error == null ? 0 : n + 1));
+    } catch (e) {
+      console.warn('[presets] sync error:', e);
+      setError(String(e));
+      setFailures((n) => n + 1);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [uid]);
+
+  // Initial pull once both local data and auth are ready
+  useEffect(() => {
+    if (loaded && uid) void sync();
+  }, [loaded, uid, sync]);
+
+  // Push local edits shortly after they happen; while offline or rejected, back off instead of retrying every pass
+  const hasDirty = all.some((p) => p.dirty);
+  useEffect(() => {
+    if (!loaded || !uid || !hasDirty) return;
+    const delay = Math.min(PUSH_DELAY_MS * 2 ** failures, MAX_RETRY_MS);
+    const id = setTimeout(() => void sync(), delay);
+    return () => clearTimeout(id);
+  }, [loaded, uid, hasDirty, edits, failures, sync]);
+
+  // Coming back to the app is a good moment to try again right away
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', (s: AppStateStatus) => {
+      if (s === 'active') setFailures(0);
+    });
+    return () => sub.remove();
+  }, []);
+
+  const edit = useCallback((fn: (presets: TimerPreset[]) => TimerPreset[]) => {
+    setAll(fn);
+    setEdits((n) => n + 1);
+    setFailures(0);
+  }, []);
+
+  const save = useCallback(
+    (name: string, settings: Settings, program: Program | null) => edit((p) => createPreset(p, name, settings, program)),
+    [edit]
+  );
+  const rename = useCallback(
+    (id: string, name: string) => edit((p) => updatePreset(p, id, { name: name.trim() || 'Untitled' })),
+    [edit]
+  );
+  const overwrite = useCallback(
+    (id: string, settings: Settings, program: Program | null) => edit((p) => updatePreset(p, id, { settings, program })),
+    [edit]
+  );
+  const remove = useCallback((id: string) => edit((p) => deletePreset(p, id)), [edit]);
+  const move = useCallback((id: string, delta: number) => edit((p) => movePreset(p, id, delta)), [edit]);
+  const dismissConflicts = useCallback(() => setConflicts([]), []);
+
+  return {
+    presets: visiblePresets(all),
+    syncing,
+    conflicts,
+    error,
+    save,
+    rename,
+    overwrite,
+    remove,
+    move,
+    sync,
+    dismissConflicts,
+  };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+
+import { useAuthUid } from '@/hooks/useAuthUid';
+import { TimerSession, activeProgram, elapsedMs, summarizeSession } from '@/lib/timerEngine';
+import { MIN_ABANDONED_MS, WorkoutStatus, logWorkout, runEndedAtMs } from '@/lib/workouts';
+
+type UseWorkoutLog = {
+  canLog: boolean; // signed in; runs are only recorded for accounts
+  logRun: (session: TimerSession, status: WorkoutStatus, now: number) => Promise<void>;
+  reflectionId: string | null; // just-logged completed workout awaiting notes / RPE
+  closeReflection: () => void;
+};
+
+/** Writes finished or abandoned timer runs to users/{uid}/workouts when signed in. */
+export function useWorkoutLog(): UseWorkoutLog {
+  const { uid } = useAuthUid();
+  const [reflectionId, setReflectionId] = useState<string | null>(null);
+
+  const logRun = useCallback(
+    async (session: TimerSession, status: WorkoutStatus, now: number): Promise<void> => {
+      if (!uid || session.startedAt == null || session.logged) return;
+      if (status === 'abandoned' && elapsedMs(session, now) < MIN_ABANDONED_MS) return;
+
+      const program = activeProgram(session);
+      try {
+        const id = await logWorkout(uid, {
+          ...summarizeSession(session, now),
+          status,
+          programName: program.name,
+          settings: session.settings,
+          program: session.program,
+          startedAtMs: session.startedAt,
+          endedAtMs: runEndedAtMs(session, status, now),
+        });
+        if (status === 'completed') setReflectionId(id);
+      } catch (e) {
+        console.warn('[workouts] log error:', e);
+      }
+    },
+    [uid]
+  );
+
+  const closeReflection = useCallback(() => setReflectionId(null), []);
+
+  return { canLog: !!uid, logRun, reflectionId, closeReflection };
+}
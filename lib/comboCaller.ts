@@ -0,0 +1,210 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '../firebase';
+
+export type Stance = 'orthodox' | 'southpaw';
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+export type CallOrder = 'random' | 'sequence';
+export type CallStyle = 'numbers' | 'names';
+
+export type ComboCallerSettings = {
+  enabled: boolean;
+  difficulty: Difficulty;
+  stance: Stance;
+  order: CallOrder;
+  style: CallStyle;
+  paceSec: number; // seconds between calls
+  customOnly: boolean; // call only the user's own combos
+  custom: string[]; // raw combos as typed, e.g. "1-2-slip-2"
+};
+
+/** A parsed combo: punch numbers "1".."6" and defensive moves like "slip". */
+export type Combo = string[];
+
+export const DEFAULT_COMBO_SETTINGS: ComboCallerSettings = {
+  enabled: false,
+  difficulty: 'beginner',
+  stance: 'orthodox',
+  order: 'random',
+  style: 'numbers',
+  paceSec: 5,
+  customOnly: false,
+  custom: [],
+};
+
+export const PACE_OPTIONS = [3, 5, 8, 12];
+
+const STORAGE_KEY = 'combo_caller_settings';
+
+/* ---------- vocabulary ---------- */
+
+const PUNCH_ALIASES: Record<string, string> = {
+  jab: '1',
+  cross: '2',
+  straight: '2',
+  hook: '3',
+  'lead hook': '3',
+  'rear hook': '4',
+  uppercut: '5',
+  'lead uppercut': '5',
+  'rear uppercut': '6',
+};
+
+const MOVES = ['slip', 'roll', 'duck', 'pull', 'pivot', 'step back', 'block'];
+
+const BUILT_IN: Record<Difficulty, string[]> = {
+  beginner: ['1', '1-1', '1-2', '1-1-2', '2', '1-2-1', '1-2-3', '3-2'],
+  intermediate: [
+    '1-2-3',
+    '1-2-3-2',
+    '1-6-3-2',
+    '1-slip-2',
+    '2-3-2',
+    '1-2-roll-2',
+    '3-4-3',
+    '1-2-5-2',
+  ],
+  advanced: [
+    '1-2-3-roll-3-2',
+    '1-6-3-2-slip-2',
+    '2-3-2-pull-2-3',
+    '1-1-2-duck-3-6',
+    '5-4-3-2',
+    '1-2-slip-2-3-pivot',
+    '3-6-3-2-roll-2',
+    '1-2-3-4-5-6',
+  ],
+};
+
+function toToken(word: string): string | null {
+  if (/^[1-6]$/.test(word)) return word;
+  if (PUNCH_ALIASES[word]) return PUNCH_ALIASES[word];
+  return MOVES.includes(word) ? word : null;
+}
+
+/**
+ * Parses "1-2-3", "jab, slip, cross, hook", "1 2 slip 2" or "jab slip cross"
+ * into tokens. Two-word names like "lead hook" or "step back" win over their
+ * single words. Returns null when anything is left unrecognised.
+ */
+export function parseCombo(raw: string): Combo | null {
+  const text = raw.trim().toLowerCase();
+  if (!text) return null;
+  const tokens: string[] = [];
+  for (const part of text.split(/\s*[-,/]\s*/).filter(Boolean)) {
+    const words = part.split(/\s+/);
+    for (let i = 0; i < words.length; i++) {
+      const pair = i + 1 < words.length ? toToken(`${words[i]} ${words[i + 1]}`) : null;
+      const token = pair ?? toToken(words[i]);
+      if (!token) return null;
+      tokens.push(token);
+      if (pair) i++;
+    }
+  }
+  return tokens.length ? tokens : null;
+}
+
+function punchName(token: string, stance: Stance): string {
+  const lead = stance === 'orthodox' ? 'left' : 'right';
+  const rear = stance === 'orthodox' ? 'right' : 'left';
+  switch (token) {
+    case '1':
+      return 'jab';
+    case '2':
+      return 'cross';
+    case '3':
+      return `${lead} hook`;
+    case '4':
+      return `${rear} hook`;
+    case '5':
+      return `${lead} uppercut`;
+    case '6':
+      return `${rear} uppercut`;
+    default:
+      return token;
+  }
+}
+
+/** Text handed to the speech engine for one combo. */
+export function comboToSpeech(combo: Combo, settings: Pick<ComboCallerSettings, 'style' | 'stance'>): string {
+  if (settings.style === 'numbers') return combo.join(', ');
+  return combo.map((t) => punchName(t, settings.stance)).join(', ');
+}
+
+/** Short on-screen form, e.g. "1-2-slip-2". */
+export function comboToLabel(combo: Combo): string {
+  return combo.join('-');
+}
+
+export function comboPool(settings: ComboCallerSettings): Combo[] {
+  const custom = settings.custom.map(parseCombo).filter((c): c is Combo => c !== null);
+  if (settings.customOnly && custom.length) return custom;
+  const builtIn = BUILT_IN[settings.difficulty].map(parseCombo).filter((c): c is Combo => c !== null);
+  return [...builtIn, ...custom];
+}
+
+/**
+ * Picks the next combo index. Sequence mode cycles in order; random mode
+ * avoids repeating the previous call when there is a choice.
+ */
+export function nextComboIndex(poolSize: number, prev: number, order: CallOrder): number {
+  if (poolSize <= 0) return -1;
+  if (order === 'sequence') return (prev + 1) % poolSize;
+  if (poolSize === 1) return 0;
+  let i = Math.floor(Math.random() * poolSize);
+  if (i === prev) i = (i + 1) % poolSize;
+  return i;
+}
+
+/* ---------- persistence: local copy + users/{uid}/private/comboCaller ---------- */
+
+function normalize(v: any): ComboCallerSettings {
+  const d = DEFAULT_COMBO_SETTINGS;
+  return {
+    enabled: typeof v?.enabled === 'boolean' ? v.enabled : d.enabled,
+    difficulty: ['beginner', 'intermediate', 'advanced'].includes(v?.difficulty) ? v.difficulty : d.difficulty,
+    stance: v?.stance === 'southpaw' ? 'southpaw' : 'orthodox',
+    order: v?.order === 'sequence' ? 'sequence' : 'random',
+    style: v?.style === 'names' ? 'names' : 'numbers',
+    paceSec: typeof v?.paceSec === 'number' && v.paceSec >= 1 ? v.paceSec : d.paceSec,
+    customOnly: Boolean(v?.customOnly),
+    custom: Array.isArray(v?.custom) ? v.custom.filter((c: unknown) => typeof c === 'string') : [],
+  };
+}
+
+export async function loadComboSettings(uid: string | null): Promise<ComboCallerSettings> {
+  if (uid) {
+    try {
+      const snap = await getDoc(doc(db, 'users', uid, 'private', 'comboCaller'));
+      if (snap.exists()) return normalize(snap.data());
+    } catch (e) {
+      console.warn('[combo] remote load error:', e);
+    }
+  }
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? normalize(JSON.parse(raw)) : DEFAULT_COMBO_SETTINGS;
+  } catch (e) {
+    console.warn('[combo] local load error:', e);
+    return DEFAULT_COMBO_SETTINGS;
+  }
+}
+
+export async function saveComboSettings(uid: string | null, settings: ComboCallerSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('[combo] local save error:', e);
+  }
+  if (!uid) return;
+  try {
+    await setDoc(
+      doc(db, 'users', uid, 'private', 'comboCaller'),
+      { ...settings, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+  } catch (e) {
+    console.warn('[combo] remote save error:', e);
+  }
+}
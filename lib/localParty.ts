@@ -0,0 +1,122 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, serverTimestamp, writeBatch } from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { METRIC_LABELS, PartyScore, SCORE_METRICS, ScoreMetric, rankScores, scoresCol } from './partyScores';
+import { DEFAULT_SETTINGS, TimerSession, activeProgram, createSession, parseTimerSession } from './timerEngine';
+import { newId } from './timerProgram';
+
+const STORAGE_KEY = 'local_party';
+
+export const LOCAL_GUEST_MAX = 30;
+
+/**
+ * Pass-and-play: one phone runs the timer for a group and the host taps in
+ * each guest's numbers. Nothing touches Firestore until the host attaches the
+ * results to a cloud party.
+ */
+export type LocalGuest = { id: string; name: string };
+
+export type LocalParty = {
+  guests: LocalGuest[];
+  results: Record<string, Record<string, number>>; // guest id → round → count
+  metric: ScoreMetric;
+  session: TimerSession;
+};
+
+export function emptyLocalParty(): LocalParty {
+  return { guests: [], results: {}, metric: 'reps', session: createSession(DEFAULT_SETTINGS) };
+}
+
+export async function loadLocalParty(): Promise<LocalParty> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyLocalParty();
+    const v = JSON.parse(raw);
+    const guests: LocalGuest[] = Array.isArray(v?.guests)
+      ? v.guests.filter((g: any) => typeof g?.id === 'string' && typeof g?.name === 'string')
+      : [];
+    return {
+      guests,
+      results: v?.results && typeof v.results === 'object' ? v.results : {},
+      metric: SCORE_METRICS.includes(v?.metric) ? v.metric : 'reps',
+      session: parseTimerSession(v?.session) ?? createSession(DEFAULT_SETTINGS),
+    };
+  } catch (e) {
+    console.warn('[local-party] load error:', e);
+    return emptyLocalParty();
+  }
+}
+
+export async function saveLocalParty(party: LocalParty): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(party));
+}
+
+export function addGuest(party: LocalParty, name: string): LocalParty {
+  const trimmed = name.trim();
+  if (!trimmed || party.guests.length >= LOCAL_GUEST_MAX) return party;
+  return { ...party, guests: [...party.guests, { id: newId(), name: trimmed }] };
+}
+
+export function removeGuest(party: LocalParty, id: string): LocalParty {
+  const { [id]: _dropped, ...results } = party.results;
+  return { ...party, guests: party.guests.filter((g) => g.id !== id), results };
+}
+
+export function recordResult(party: LocalParty, guestId: string, round: number, delta: number): LocalParty {
+  const mine = party.results[guestId] ?? {};
+  const next = Math.max(0, (mine[String(round)] ?? 0) + delta);
+  return { ...party, results: { ...party.results, [guestId]: { ...mine, [String(round)]: next } } };
+}
+
+/** Guests' tallies in leaderboard shape, so the cloud ranking rules apply unchanged. */
+export function localScores(party: LocalParty): PartyScore[] {
+  return party.guests.map((g) => {
+    const byRound = party.results[g.id] ?? {};
+    return {
+      uid: g.id,
+      name: g.name,
+      runId: party.session.startedAt ?? 0,
+      byRound,
+      total: Object.values(byRound).reduce((a, b) => a + b, 0),
+    };
+  });
+}
+
+export function localPartyText(party: LocalParty): string {
+  const scores = localScores(party);
+  const rounds = [...new Set(scores.flatMap((s) => Object.keys(s.byRound).map(Number)))].sort((a, b) => a - b);
+  const lines = [
+    `🎉 POUNDRR pass & play · ${activeProgram(party.session).name}`,
+    `🏆 ${METRIC_LABELS[party.metric]}`,
+  ];
+  rankScores(scores, null).forEach((s) => {
+    const row = scores.find((x) => x.uid === s.uid)!;
+    const perRound = rounds.map((r) => `R${r} ${row.byRound[String(r)] ?? 0}`).join(' · ');
+    lines.push(`${s.rank}. ${s.name} — ${s.value}${perRound ? ` (${perRound})` : ''}`);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Copies guests with results onto a cloud party's board for run `runId`.
+ * Guest rows are written whole, so attaching twice just overwrites them.
+ */
+export async function attachLocalParty(code: string, runId: number, party: LocalParty): Promise<number> {
+  const rows = localScores(party).filter((s) => s.total > 0);
+  if (rows.length === 0) return 0;
+  const batch = writeBatch(db);
+  rows.forEach((s) =>
+    batch.set(doc(scoresCol(code), `${runId}_guest-${s.uid}`), {
+      uid: `guest-${s.uid}`,
+      name: `${s.name} (guest)`,
+      runId,
+      byRound: s.byRound,
+      total: s.total,
+      guest: true,
+      updatedAt: serverTimestamp(),
+    })
+  );
+  await batch.commit();
+  return rows.length;
+}
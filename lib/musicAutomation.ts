@@ -0,0 +1,47 @@
+/** What the music does when a rest starts (and undoes when work starts). */
+export type RestMusicAction = 'none' | 'duck' | 'pause';
+
+/** Spotify behaviour tied to timer phases; saved with the timer settings, so per preset. */
+export type MusicAutomation = {
+  enabled: boolean;
+  onRest: RestMusicAction;
+  duckVolume: number; // percent while ducked
+  workPlaylist: string | null; // spotify:playlist:… URI
+  restPlaylist: string | null;
+  skipEachRound: boolean; // new track at the start of every work round
+};
+
+export const DEFAULT_MUSIC_AUTOMATION: MusicAutomation = {
+  enabled: false,
+  onRest: 'duck',
+  duckVolume: 30,
+  workPlaylist: null,
+  restPlaylist: null,
+  skipEachRound: false,
+};
+
+export const DUCK_OPTIONS = [15, 30, 50];
+
+/**
+ * Accepts a playlist URI or a share link
+ * (https://open.spotify.com/playlist/<id>?si=…) and returns the URI.
+ */
+export function parsePlaylistUri(raw: string): string | null {
+  const s = raw.trim();
+  const m =
+    s.match(/^spotify:playlist:([A-Za-z0-9]{10,40})$/) ??
+    s.match(/^https?:\/\/open\.spotify\.com\/(?:intl-[a-z]+\/)?playlist\/([A-Za-z0-9]{10,40})/);
+  return m ? `spotify:playlist:${m[1]}` : null;
+}
+
+export function isMusicAutomation(v: any): v is MusicAutomation {
+  return (
+    !!v &&
+    typeof v.enabled === 'boolean' &&
+    (v.onRest === 'none' || v.onRest === 'duck' || v.onRest === 'pause') &&
+    typeof v.duckVolume === 'number' &&
+    (v.workPlaylist === null || typeof v.workPlaylist === 'string') &&
+    (v.restPlaylist === null || typeof v.restPlaylist === 'string') &&
+    typeof v.skipEachRound === 'boolean'
+  );
+}
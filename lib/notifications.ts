@@ -0,0 +1,11 @@
+// Safe optional loader for expo-notifications.
+// Avoids compile-time module resolution by using eval-based dynamic import.
+export async function tryLoadNotifications(): Promise<any | null> {
+  try {
+    // eslint-disable-next-line no-eval
+    const mod = await (eval('import("expo-notifications")') as Promise<any>);
+    return mod ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,195 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  Firestore,
+  Timestamp,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+
+import { db } from '../firebase';
+import type { ScoreMetric } from './partyScores';
+import { DEFAULT_SETTINGS, TimerSession, createSession } from './timerEngine';
+
+export const PARTY_CODE_LENGTH = 6;
+// No 0/O, 1/I/L — codes get read out across a gym
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_ATTEMPTS = 5;
+/** Heartbeating members a room holds; people who've gone don't count. */
+export const PARTY_MAX_MEMBERS = 30;
+
+export const HEARTBEAT_MS = 20 * 1000;
+/** Three missed heartbeats and someone counts as gone. */
+export const GONE_AFTER_MS = 3 * HEARTBEAT_MS;
+const PRUNE_BATCH = 10;
+const STORAGE_KEY = 'party_room';
+
+/** A room with no activity for this long is treated as gone and may be reused. */
+export const PARTY_TTL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * The room's one authoritative clock. Times are server-epoch ms, so every
+ * phone derives the same phase and second from it using its own clock
+ * offset; nothing is written while a round simply runs. `logged` and `reps`
+ * stay per device.
+ */
+export type PartyTimerRecord = Pick<TimerSession, 'settings' | 'program' | 'startedAt' | 'pausedAt' | 'pausedMs' | 'edits'>;
+
+/**
+ * parties/{code} — one room. Timer state lives on the room doc, people in
+ * parties/{code}/participants/{uid}. `expiresAt` is pushed forward on
+ * activity; a Firestore TTL policy on it (or `pruneExpiredParties`) clears
+ * dead rooms.
+ */
+export type PartyDoc = {
+  code: string;
+  createdBy: string;
+  hostUid: string; // only the host drives the timer and manages people
+  kicked: string[]; // uids the host removed; they can't rejoin
+  createdAt?: Timestamp | any;
+  lastActiveAt?: Timestamp | any;
+  expiresAt: Timestamp;
+  timer: PartyTimerRecord;
+  scoreMetric?: ScoreMetric; // what the leaderboard counts; reps when unset
+  updatedAt?: Timestamp | any;
+};
+
+export function partyRef(code: string) {
+  return doc(db, 'parties', code);
+}
+
+export function participantsCol(code: string) {
+  return collection(db, 'parties', code, 'participants');
+}
+
+export function toPartyTimer(session: TimerSession): PartyTimerRecord {
+  const { settings, program, startedAt, pausedAt, pausedMs, edits } = session;
+  return { settings, program, startedAt, pausedAt, pausedMs, edits };
+}
+
+export function normalizePartyCode(raw: string): string {
+  return (raw || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function isValidPartyCode(code: string): boolean {
+  return code.length === PARTY_CODE_LENGTH && [...code].every((c) => CODE_ALPHABET.includes(c));
+}
+
+export function generatePartyCode(): string {
+  let code = '';
+  for (let i = 0; i < PARTY_CODE_LENGTH; i++) code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  return code;
+}
+
+export function isPartyExpired(party: Pick<PartyDoc, 'expiresAt'>, now = Date.now()): boolean {
+  return !party.expiresAt || party.expiresAt.toMillis() <= now;
+}
+
+function nextExpiry() {
+  return Timestamp.fromMillis(Date.now() + PARTY_TTL_MS);
+}
+
+/** Creates a room under a fresh code, hosted by `uid`; an expired room's code can be taken over. */
+export async function createParty(uid: string): Promise<string> {
+  void pruneExpiredParties();
+  for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+    const code = generatePartyCode();
+    const ref = partyRef(code);
+    const created = await runTransaction(db as Firestore, async (tx) => {
+      const snap = await tx.get(ref);
+      if (snap.exists() && !isPartyExpired(snap.data() as PartyDoc)) return false;
+      tx.set(ref, {
+        code,
+        createdBy: uid,
+        hostUid: uid,
+        kicked: [],
+        createdAt: serverTimestamp(),
+        lastActiveAt: serverTimestamp(),
+        expiresAt: nextExpiry(),
+        timer: toPartyTimer(createSession(DEFAULT_SETTINGS)),
+        updatedAt: serverTimestamp(),
+      });
+      return true;
+    });
+    if (created) return code;
+  }
+  throw new Error('Could not create a party, try again');
+}
+
+/** Resolves a typed code to a live room; throws with a user-facing reason otherwise. */
+export async function joinParty(raw: string, uid: string): Promise<string> {
+  const code = normalizePartyCode(raw);
+  if (!isValidPartyCode(code)) throw new Error(`Codes are ${PARTY_CODE_LENGTH} letters and numbers`);
+  const snap = await getDoc(partyRef(code));
+  if (!snap.exists()) throw new Error('No party with that code');
+  const party = snap.data() as PartyDoc;
+  if (isPartyExpired(party)) throw new Error('That party has ended');
+  if (party.kicked?.includes(uid)) throw new Error('The host removed you from this party');
+  const members = await getDocs(participantsCol(code));
+  const here = members.docs.filter((d) => {
+    const seen = d.data().lastSeen as Timestamp | null | undefined;
+    return d.id !== uid && (!seen || Date.now() - seen.toMillis() <= GONE_AFTER_MS);
+  });
+  if (!members.docs.some((d) => d.id === uid) && here.length >= PARTY_MAX_MEMBERS) {
+    throw new Error('That party is full');
+  }
+  await touchParty(code);
+  return code;
+}
+
+/** Keeps a room alive while it's being used. */
+export async function touchParty(code: string): Promise<void> {
+  await updateDoc(partyRef(code), { lastActiveAt: serverTimestamp(), expiresAt: nextExpiry() });
+}
+
+/**
+ * Best-effort cleanup for projects without a TTL policy: deletes a few
+ * expired rooms with their participants, scores and clock probes. TTL deletes skip
+ * subcollections, so this also catches what they leave behind.
+ */
+export async function pruneExpiredParties(): Promise<void> {
+  try {
+    const expired = await getDocs(
+      query(collection(db, 'parties'), where('expiresAt', '<=', Timestamp.now()), limit(PRUNE_BATCH))
+    );
+    for (const room of expired.docs) {
+      const people = await getDocs(participantsCol(room.id));
+      const scores = await getDocs(collection(db, 'parties', room.id, 'scores'));
+      const clocks = await getDocs(collection(db, 'parties', room.id, 'clocks'));
+      const batch = writeBatch(db);
+      [...people.docs, ...scores.docs, ...clocks.docs].forEach((d) => batch.delete(d.ref));
+      batch.delete(room.ref);
+      await batch.commit();
+    }
+  } catch (e) {
+    console.warn('[party] prune error:', e);
+  }
+}
+
+/* ---------- last room, so reopening the tab rejoins ---------- */
+
+export async function loadLastPartyCode(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn('[party] load room error:', e);
+    return null;
+  }
+}
+
+export async function saveLastPartyCode(code: string | null): Promise<void> {
+  try {
+    if (code) await AsyncStorage.setItem(STORAGE_KEY, code);
+    else await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn('[party] save room error:', e);
+  }
+}
@@ -0,0 +1,39 @@
+import * as Linking from 'expo-linking';
+
+import { isValidPartyCode, normalizePartyCode } from './party';
+
+/*
+ * Invite links: poundrr://party/join/<CODE> (Expo Go / dev builds get the
+ * matching exp:// form from createURL). The same link is what the invite QR
+ * encodes, so scanning with the system camera or the in-app scanner both land
+ * on the party tab with `?join=<CODE>`.
+ */
+
+export function createPartyLink(code: string): string {
+  return Linking.createURL(`party/join/${code}`);
+}
+
+function codeFromLink(url: string): string | null {
+  const { hostname, path, queryParams } = Linking.parse(url);
+  const segments = [hostname, ...(path ?? '').split('/')].filter(Boolean) as string[];
+  const at = segments.indexOf('party');
+  if (at < 0) return null;
+  const fromPath = segments[at + 1] === 'join' ? segments[at + 2] : undefined;
+  const fromQuery = typeof queryParams?.code === 'string' ? queryParams.code : undefined;
+  const code = normalizePartyCode(fromPath ?? fromQuery ?? '');
+  return isValidPartyCode(code) ? code : null;
+}
+
+/** Accepts an invite link or a bare code (QR codes printed by hand may just hold the code). */
+export function partyCodeFromText(text: string): string | null {
+  const raw = text.trim();
+  if (/[:/]/.test(raw)) return codeFromLink(raw);
+  const code = normalizePartyCode(raw);
+  return isValidPartyCode(code) ? code : null;
+}
+
+export function partyRouteFromUrl(url: string): string | null {
+  const code = codeFromLink(url);
+  if (!code) return null;
+  return `/party?${new URLSearchParams({ join: code, nonce: String(Date.now()) }).toString()}`;
+}
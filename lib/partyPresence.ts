@@ -0,0 +1,119 @@
+import {
+  FieldValue,
+  Firestore,
+  Timestamp,
+  arrayUnion,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { GONE_AFTER_MS, PartyDoc, participantsCol, partyRef, touchParty } from './party';
+
+export type PresenceStatus = 'online' | 'gone';
+
+/** parties/{code}/participants/{uid} — a signed-in member and their last heartbeat. */
+export type PartyParticipant = {
+  uid: string;
+  name: string;
+  photoURL: string | null;
+  joinedAt?: Timestamp | any;
+  lastSeen?: Timestamp | null; // null for a moment while our own write is pending
+};
+
+function participantRef(code: string, uid: string) {
+  return doc(participantsCol(code), uid);
+}
+
+/** `serverNow` is the caller's server-clock estimate, so skewed phones agree on who's gone. */
+export function presenceStatus(p: PartyParticipant, serverNow: number): PresenceStatus {
+  if (!p.lastSeen?.toMillis) return 'online';
+  return serverNow - p.lastSeen.toMillis() > GONE_AFTER_MS ? 'gone' : 'online';
+}
+
+/** Adds (or refreshes) the signed-in user with the name and avatar from users/{uid}. */
+export async function enterParty(code: string, uid: string): Promise<void> {
+  const [profile, existing] = await Promise.all([getDoc(doc(db, 'users', uid)), getDoc(participantRef(code, uid))]);
+  const u = (profile.data() ?? {}) as { displayName?: string | null; username?: string | null; photoURL?: string | null };
+  await setDoc(
+    participantRef(code, uid),
+    {
+      uid,
+      name: u.displayName || u.username || 'Fighter',
+      photoURL: u.photoURL ?? null,
+      lastSeen: serverTimestamp(),
+      ...(existing.exists() ? {} : { joinedAt: serverTimestamp() }),
+    },
+    { merge: true }
+  );
+}
+
+export async function heartbeat(code: string, uid: string): Promise<void> {
+  await updateDoc(participantRef(code, uid), { lastSeen: serverTimestamp() });
+}
+
+/**
+ * Removes the user; a leaving host hands the room to whoever still online was
+ * seen most recently. With nobody left online the room stays claimable.
+ */
+export async function leaveParty(code: string, uid: string, serverNow: number): Promise<void> {
+  const people = await getDocs(participantsCol(code));
+  const successor = people.docs
+    .map((d) => d.data() as PartyParticipant)
+    .filter((p) => p.uid !== uid && presenceStatus(p, serverNow) === 'online')
+    .sort((a, b) => (b.lastSeen?.toMillis?.() ?? 0) - (a.lastSeen?.toMillis?.() ?? 0))[0];
+
+  await runTransaction(db as Firestore, async (tx) => {
+    const snap = await tx.get(partyRef(code));
+    if (snap.exists() && (snap.data() as PartyDoc).hostUid === uid && successor) {
+      tx.update(partyRef(code), { hostUid: successor.uid });
+    }
+    tx.delete(participantRef(code, uid));
+  });
+}
+
+/** Writes room fields only if `uid` is still the host when the transaction runs. */
+export async function updateAsHost(
+  code: string,
+  uid: string,
+  patch: Record<string, FieldValue | string>
+): Promise<void> {
+  await runTransaction(db as Firestore, async (tx) => {
+    const snap = await tx.get(partyRef(code));
+    if (!snap.exists()) throw new Error('That party has ended');
+    if ((snap.data() as PartyDoc).hostUid !== uid) throw new Error('Only the host can do that');
+    tx.update(partyRef(code), patch);
+  });
+  await touchParty(code);
+}
+
+export async function kickParticipant(code: string, hostUid: string, target: string): Promise<void> {
+  if (target === hostUid) return;
+  await updateAsHost(code, hostUid, { kicked: arrayUnion(target) });
+  await deleteDoc(participantRef(code, target));
+}
+
+export async function transferHost(code: string, hostUid: string, target: string): Promise<void> {
+  await updateAsHost(code, hostUid, { hostUid: target });
+}
+
+/** Lets anyone take over a room whose host has dropped off. */
+export async function claimHost(code: string, uid: string, serverNow: number): Promise<void> {
+  await runTransaction(db as Firestore, async (tx) => {
+    const room = await tx.get(partyRef(code));
+    if (!room.exists()) throw new Error('That party has ended');
+    const hostUid = (room.data() as PartyDoc).hostUid;
+    if (hostUid === uid) return;
+    const host = await tx.get(participantRef(code, hostUid));
+    if (host.exists() && presenceStatus(host.data() as PartyParticipant, serverNow) === 'online') {
+      throw new Error('The host is still here');
+    }
+    tx.update(partyRef(code), { hostUid: uid });
+  });
+}
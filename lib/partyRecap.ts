@@ -0,0 +1,212 @@
+import {
+  Timestamp,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+} from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { METRIC_LABELS, PartyScore, ScoreMetric, Standing, rankScores, scoresCol } from './partyScores';
+import { TimerSession, activeProgram, summarizeSession } from './timerEngine';
+import { Program, Settings } from './timerProgram';
+import { WorkoutStatus, fmtMinutes, logWorkout, runEndedAtMs } from './workouts';
+
+export type Attendee = { uid: string; name: string };
+
+/**
+ * partyRecaps/{code}_{runId} — one finished party run, shared by everyone who
+ * was in it. The first phone to see the run end creates it; later ones add
+ * themselves and refresh the standings with whatever scores have landed.
+ * Attendees who weren't there at the end pick their history entry up from
+ * here the next time they open the room.
+ */
+export type PartyRecapDoc = {
+  code: string;
+  runId: number;
+  hostUid: string;
+  hostName: string;
+  status: WorkoutStatus;
+  programName: string;
+  settings: Settings;
+  program: Program | null;
+  startedAt: Timestamp;
+  endedAt: Timestamp;
+  totalSec: number;
+  workSec?: number; // missing on recaps written before history backfill
+  restSec?: number;
+  reps?: number;
+  roundsCompleted: number;
+  roundsTotal: number;
+  attendees: Attendee[];
+  attendeeUids?: string[]; // for finding a person's recaps
+  metric: ScoreMetric;
+  standings: Standing[]; // whole run
+  roundWinners: { round: number; names: string[] }[];
+  createdAt?: Timestamp | any;
+  updatedAt?: Timestamp | any;
+};
+
+export type PartyRun = {
+  code: string;
+  session: TimerSession; // the run as it stood when it ended
+  status: WorkoutStatus;
+  now: number; // server time
+  hostUid: string;
+  hostName: string;
+  present: Attendee[]; // members online when it ended
+  metric: ScoreMetric;
+};
+
+export function partyRecapsCol() {
+  return collection(db, 'partyRecaps');
+}
+
+export function partyRecapUrl(id: string): string {
+  return `https://poundrr.app/party-recap/${id}`;
+}
+
+function roundWinners(scores: PartyScore[]): PartyRecapDoc['roundWinners'] {
+  const rounds = new Set<number>();
+  scores.forEach((s) => Object.keys(s.byRound ?? {}).forEach((r) => rounds.add(Number(r))));
+  return [...rounds]
+    .sort((a, b) => a - b)
+    .map((round) => ({ round, names: rankScores(scores, round).filter((s) => s.rank === 1).map((s) => s.name) }))
+    .filter((w) => w.names.length > 0);
+}
+
+function mergeAttendees(a: Attendee[], b: Attendee[]): Attendee[] {
+  const byUid = new Map<string, Attendee>();
+  [...a, ...b].forEach((p) => byUid.set(p.uid, p));
+  return [...byUid.values()].sort((x, y) => x.name.localeCompare(y.name));
+}
+
+/** Adds the run to `uid`'s own history from the shared recap; a no-op if it's already there. */
+async function logRecapEntry(uid: string, id: string, recap: PartyRecapDoc): Promise<void> {
+  const mine = recap.standings.find((s) => s.uid === uid);
+  await logWorkout(uid, {
+    roundsCompleted: recap.roundsCompleted,
+    roundsTotal: recap.roundsTotal,
+    workSec: recap.workSec ?? 0,
+    restSec: recap.restSec ?? 0,
+    totalSec: recap.totalSec,
+    reps: recap.metric === 'reps' ? mine?.value ?? 0 : recap.reps ?? 0,
+    status: recap.status,
+    programName: recap.programName,
+    settings: recap.settings,
+    program: recap.program,
+    startedAtMs: recap.startedAt.toMillis(),
+    endedAtMs: recap.endedAt.toMillis(),
+    party: {
+      recapId: id,
+      code: recap.code,
+      hostName: recap.hostName,
+      attendees: recap.attendees.length,
+      metric: METRIC_LABELS[recap.metric],
+      rank: mine?.rank ?? null,
+      value: mine?.value ?? 0,
+    },
+  });
+}
+
+/**
+ * Writes (or tops up) the shared recap for a run, then logs it to `me`'s own
+ * history. Each person records their own entry, so nobody writes into someone
+ * else's account. Returns the recap id.
+ */
+export async function recordPartyRun(run: PartyRun, me: Attendee): Promise<string> {
+  const { session } = run;
+  const runId = session.startedAt;
+  if (runId == null) throw new Error('Run never started');
+  const id = `${run.code}_${runId}`;
+  const ref = doc(partyRecapsCol(), id);
+
+  const snap = await getDocs(query(scoresCol(run.code), where('runId', '==', runId)));
+  const scores = snap.docs.map((d) => d.data() as PartyScore);
+  const standings = rankScores(scores, null);
+  const scorers = scores.map((s) => ({ uid: s.uid, name: s.name }));
+
+  const summary = summarizeSession(session, run.now);
+  const endedAtMs = runEndedAtMs(session, run.status, run.now);
+
+  const recap = await runTransaction(db, async (tx) => {
+    const existing = await tx.get(ref);
+    const prev = existing.exists() ? (existing.data() as PartyRecapDoc) : null;
+    const merged = mergeAttendees(prev?.attendees ?? [], [...run.present, ...scorers, me]);
+    const shared = {
+      attendees: merged,
+      attendeeUids: merged.map((a) => a.uid),
+      standings,
+      roundWinners: roundWinners(scores),
+      updatedAt: serverTimestamp(),
+    };
+    if (prev) {
+      tx.update(ref, shared);
+      // Recaps from before backfill lack the work / rest split; this phone's summary fills it in
+      return { workSec: summary.workSec, restSec: summary.restSec, reps: summary.reps, ...prev, ...shared };
+    }
+    const created = {
+      ...shared,
+      code: run.code,
+      runId,
+      hostUid: run.hostUid,
+      hostName: run.hostName,
+      status: run.status,
+      programName: activeProgram(session).name,
+      settings: session.settings,
+      program: session.program,
+      startedAt: Timestamp.fromMillis(runId),
+      endedAt: Timestamp.fromMillis(endedAtMs),
+      totalSec: summary.totalSec,
+      workSec: summary.workSec,
+      restSec: summary.restSec,
+      reps: summary.reps,
+      roundsCompleted: summary.roundsCompleted,
+      roundsTotal: summary.roundsTotal,
+      metric: run.metric,
+      createdAt: serverTimestamp(),
+    };
+    tx.set(ref, created);
+    return created as PartyRecapDoc;
+  });
+
+  await logRecapEntry(me.uid, id, recap);
+  return id;
+}
+
+/**
+ * Logs runs from this room that `uid` is on the recap for but has no history
+ * entry of, e.g. because they had backgrounded the app or left before the end.
+ */
+export async function backfillPartyHistory(code: string, uid: string): Promise<void> {
+  const snap = await getDocs(
+    query(partyRecapsCol(), where('code', '==', code), where('attendeeUids', 'array-contains', uid))
+  );
+  for (const d of snap.docs) {
+    await logRecapEntry(uid, d.id, d.data() as PartyRecapDoc);
+  }
+}
+
+export async function loadPartyRecap(id: string): Promise<PartyRecapDoc | null> {
+  const snap = await getDoc(doc(partyRecapsCol(), id));
+  return snap.exists() ? (snap.data() as PartyRecapDoc) : null;
+}
+
+export function partyRecapText(recap: PartyRecapDoc): string {
+  const lines = [
+    `🎉 POUNDRR party · ${recap.programName}`,
+    `${recap.roundsCompleted}/${recap.roundsTotal} rounds · ${fmtMinutes(recap.totalSec)} · hosted by ${recap.hostName}`,
+    `${recap.attendees.length} ${recap.attendees.length === 1 ? 'person' : 'people'}: ${recap.attendees
+      .map((a) => a.name)
+      .join(', ')}`,
+  ];
+  if (recap.standings.length > 0) {
+    lines.push('', `🏆 ${METRIC_LABELS[recap.metric]}`);
+    recap.standings.slice(0, 5).forEach((s) => lines.push(`${s.rank}. ${s.name} — ${s.value}`));
+  }
+  return lines.join('\n');
+}
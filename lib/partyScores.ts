@@ -0,0 +1,85 @@
+import { collection, doc, increment, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { updateAsHost } from './partyPresence';
+
+export type ScoreMetric = 'reps' | 'punches' | 'rounds';
+
+export const SCORE_METRICS: ScoreMetric[] = ['reps', 'punches', 'rounds'];
+
+export const METRIC_LABELS: Record<ScoreMetric, string> = {
+  reps: 'Reps',
+  punches: 'Punches',
+  rounds: 'Rounds done',
+};
+
+/** Buttons each phone gets for logging; rounds are counted one at a time. */
+export const METRIC_STEPS: Record<ScoreMetric, number[]> = {
+  reps: [1, 5, 10],
+  punches: [10, 25, 50],
+  rounds: [1],
+};
+
+/**
+ * parties/{code}/scores/{runId}_{uid} — one person's tally for one run.
+ * `runId` is the run's shared `startedAt`, so a restart starts a fresh board
+ * without deleting anything. Counts are incremented server-side so quick taps
+ * from several phones never lose updates.
+ */
+export type PartyScore = {
+  uid: string;
+  name: string;
+  runId: number;
+  byRound: Record<string, number>; // round number → count
+  total: number;
+  guest?: boolean; // attached from a pass-and-play session; no account behind it
+  updatedAt?: any;
+};
+
+export type Standing = {
+  uid: string;
+  name: string;
+  value: number;
+  rank: number; // 1-based; ties share a rank
+};
+
+export function scoresCol(code: string) {
+  return collection(db, 'parties', code, 'scores');
+}
+
+export async function logScore(
+  code: string,
+  runId: number,
+  who: { uid: string; name: string },
+  round: number,
+  delta: number
+): Promise<void> {
+  await setDoc(
+    doc(scoresCol(code), `${runId}_${who.uid}`),
+    {
+      uid: who.uid,
+      name: who.name,
+      runId,
+      byRound: { [String(round)]: increment(delta) },
+      total: increment(delta),
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+export async function setScoreMetric(code: string, hostUid: string, metric: ScoreMetric): Promise<void> {
+  await updateAsHost(code, hostUid, { scoreMetric: metric });
+}
+
+/** Ranks a round (or, with `round` null, the whole run); people with nothing logged are left out. */
+export function rankScores(scores: PartyScore[], round: number | null): Standing[] {
+  const rows = scores
+    .map((s) => ({ uid: s.uid, name: s.name, value: round == null ? s.total : s.byRound?.[String(round)] ?? 0 }))
+    .filter((r) => r.value > 0)
+    .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name));
+  return rows.map((r, i) => ({
+    ...r,
+    rank: i > 0 && rows[i - 1].value === r.value ? rows.findIndex((x) => x.value === r.value) + 1 : i + 1,
+  }));
+}
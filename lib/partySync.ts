@@ -0,0 +1,53 @@
+import { Firestore, doc, getDoc, runTransaction, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { PartyDoc, partyRef, toPartyTimer, touchParty } from './party';
+import { TimerSession, parseTimerSession } from './timerEngine';
+
+const CLOCK_SAMPLES = 3;
+
+/**
+ * Applies a host's control action (start, pause, reset…) to the latest record
+ * in a transaction, so a stale view or a host change mid-tap can't overwrite
+ * newer state. `serverNow` is the caller's server-clock estimate.
+ */
+export async function updatePartyTimer(
+  code: string,
+  uid: string,
+  serverNow: number,
+  fn: (session: TimerSession, serverNow: number) => TimerSession
+): Promise<void> {
+  const ref = partyRef(code);
+  await runTransaction(db as Firestore, async (tx) => {
+    const snap = await tx.get(ref);
+    if ((snap.data() as PartyDoc | undefined)?.hostUid !== uid) throw new Error('Only the host can control the timer');
+    const current = parseTimerSession(snap.data()?.timer);
+    if (!current) throw new Error('Party timer is missing');
+    tx.update(ref, {
+      timer: toPartyTimer(fn(current, serverNow)),
+      updatedAt: serverTimestamp(),
+    });
+  });
+  await touchParty(code);
+}
+
+/**
+ * Estimates `server time − local time` by writing a server timestamp and
+ * assuming it landed halfway through the round trip. Keeps the sample with
+ * the shortest round trip; error is at most half of it.
+ */
+export async function estimateServerOffset(code: string, clientId: string): Promise<{ offsetMs: number; rttMs: number }> {
+  const ref = doc(db, 'parties', code, 'clocks', clientId);
+  let best: { offsetMs: number; rttMs: number } | null = null;
+  for (let i = 0; i < CLOCK_SAMPLES; i++) {
+    const t0 = Date.now();
+    await setDoc(ref, { at: serverTimestamp() });
+    const t1 = Date.now();
+    const at = (await getDoc(ref)).data()?.at;
+    if (!at?.toMillis) continue;
+    const sample = { offsetMs: at.toMillis() - (t0 + t1) / 2, rttMs: t1 - t0 };
+    if (!best || sample.rttMs < best.rttMs) best = sample;
+  }
+  if (!best) throw new Error('No clock sample');
+  return best;
+}
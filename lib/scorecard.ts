@@ -0,0 +1,168 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp, addDoc, collection, doc, getDoc, serverTimestamp } from 'firebase/firestore';
+
+import { db } from '../firebase';
+
+export type Corner = 'red' | 'blue';
+
+/** Who judges and who fights; persisted between smokers. */
+export type JudgingSettings = {
+  enabled: boolean;
+  red: string; // fighter in the red corner
+  blue: string;
+  judges: string[]; // 1–3 names
+};
+
+/** One judge's call for one round, before it is turned into points. */
+export type RoundCall = {
+  winner: Corner | 'even';
+  dominant: boolean; // 10-8 round without a knockdown
+  redKd: number; // times red was knocked down
+  blueKd: number;
+  redDed: number; // points deducted from red by the referee
+  blueDed: number;
+};
+
+export type RoundScore = RoundCall & {
+  judge: number; // index into judges
+  round: number; // 1-based
+  red: number; // points after knockdowns and deductions
+  blue: number;
+};
+
+export type DecisionResult = 'UD' | 'SD' | 'MD' | 'draw';
+
+export type Decision = {
+  result: DecisionResult;
+  winner: Corner | null;
+  label: string; // e.g. "Red wins by split decision"
+};
+
+/** scorecards/{id} — readable by link so it can be shared. */
+export type ScorecardDoc = {
+  ownerUid: string;
+  red: string;
+  blue: string;
+  judges: string[];
+  rounds: number;
+  scores: RoundScore[];
+  totals: { red: number; blue: number }[]; // per judge
+  decision: Decision;
+  createdAt?: Timestamp | any;
+};
+
+export const DEFAULT_JUDGING_SETTINGS: JudgingSettings = {
+  enabled: false,
+  red: 'Red',
+  blue: 'Blue',
+  judges: ['Judge 1'],
+};
+
+export const EMPTY_CALL: RoundCall = { winner: 'even', dominant: false, redKd: 0, blueKd: 0, redDed: 0, blueDed: 0 };
+
+const STORAGE_KEY = 'judging_settings';
+const MIN_SCORE = 6;
+
+/* ---------- scoring ---------- */
+
+/** 10-point must: the round winner gets 10, the loser 9 less a point per knockdown (or 8 if dominant). */
+export function scoreRound(call: RoundCall): { red: number; blue: number } {
+  const loserScore = (kd: number) => Math.max(MIN_SCORE, (call.dominant ? 8 : 9) - kd);
+  let red = 10;
+  let blue = 10;
+  if (call.winner === 'red') blue = loserScore(call.blueKd);
+  if (call.winner === 'blue') red = loserScore(call.redKd);
+  if (call.winner === 'even') {
+    red = Math.max(MIN_SCORE, 10 - call.redKd);
+    blue = Math.max(MIN_SCORE, 10 - call.blueKd);
+  }
+  return { red: red - call.redDed, blue: blue - call.blueDed };
+}
+
+export function judgeTotals(scores: RoundScore[], judges: number): { red: number; blue: number }[] {
+  return Array.from({ length: judges }, (_, j) =>
+    scores
+      .filter((s) => s.judge === j)
+      .reduce((t, s) => ({ red: t.red + s.red, blue: t.blue + s.blue }), { red: 0, blue: 0 })
+  );
+}
+
+/**
+ * Unanimous when every judge has the same winner, split when a judge scores
+ * it the other way, majority when the only dissent is a draw card. Level
+ * cards or a majority of draw cards make it a draw.
+ */
+export function decide(totals: { red: number; blue: number }[], names: { red: string; blue: string }): Decision {
+  const red = totals.filter((t) => t.red > t.blue).length;
+  const blue = totals.filter((t) => t.blue > t.red).length;
+  const draws = totals.length - red - blue;
+
+  if (red === blue || draws * 2 > totals.length) {
+    const kind = draws === totals.length ? 'Unanimous' : draws * 2 > totals.length ? 'Majority' : 'Split';
+    return { result: 'draw', winner: null, label: totals.length > 1 ? `${kind} draw` : 'Draw' };
+  }
+  const winner: Corner = red > blue ? 'red' : 'blue';
+  const loserCards = Math.min(red, blue);
+  const result: DecisionResult = loserCards > 0 ? 'SD' : draws > 0 ? 'MD' : 'UD';
+  const how = { UD: 'unanimous decision', SD: 'split decision', MD: 'majority decision', draw: '' }[result];
+  const who = winner === 'red' ? names.red : names.blue;
+  return { result, winner, label: totals.length > 1 ? `${who} wins by ${how}` : `${who} wins on points` };
+}
+
+/* ---------- sharing ---------- */
+
+export function scorecardText(card: Omit<ScorecardDoc, 'ownerUid' | 'createdAt'>): string {
+  const lines = [`${card.red} (red) vs ${card.blue} (blue) — ${card.rounds} rounds`, card.decision.label, ''];
+  card.judges.forEach((name, j) => {
+    const rows = card.scores
+      .filter((s) => s.judge === j)
+      .sort((a, b) => a.round - b.round)
+      .map((s) => `R${s.round} ${s.red}-${s.blue}`);
+    lines.push(`${name}: ${card.totals[j].red}-${card.totals[j].blue}  (${rows.join(', ')})`);
+  });
+  return lines.join('\n');
+}
+
+/* ---------- Firestore ---------- */
+
+export function scorecardsCol() {
+  return collection(db, 'scorecards');
+}
+
+export async function saveScorecard(uid: string, card: Omit<ScorecardDoc, 'ownerUid' | 'createdAt'>): Promise<string> {
+  const ref = await addDoc(scorecardsCol(), { ...card, ownerUid: uid, createdAt: serverTimestamp() });
+  return ref.id;
+}
+
+export async function loadScorecard(id: string): Promise<ScorecardDoc | null> {
+  const snap = await getDoc(doc(scorecardsCol(), id));
+  return snap.exists() ? (snap.data() as ScorecardDoc) : null;
+}
+
+/* ---------- local settings ---------- */
+
+export async function loadJudgingSettings(): Promise<JudgingSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_JUDGING_SETTINGS;
+    const v = JSON.parse(raw);
+    const judges = Array.isArray(v?.judges) ? v.judges.filter((j: unknown) => typeof j === 'string').slice(0, 3) : [];
+    return {
+      enabled: Boolean(v?.enabled),
+      red: typeof v?.red === 'string' ? v.red : DEFAULT_JUDGING_SETTINGS.red,
+      blue: typeof v?.blue === 'string' ? v.blue : DEFAULT_JUDGING_SETTINGS.blue,
+      judges: judges.length ? judges : DEFAULT_JUDGING_SETTINGS.judges,
+    };
+  } catch (e) {
+    console.warn('[scorecard] load settings error:', e);
+    return DEFAULT_JUDGING_SETTINGS;
+  }
+}
+
+export async function saveJudgingSettings(settings: JudgingSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('[scorecard] save settings error:', e);
+  }
+}
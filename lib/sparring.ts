@@ -0,0 +1,200 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { collection, doc, getDoc, getDocs, limit, query, where } from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { newId } from './timerProgram';
+
+export const WEIGHT_BANDS = ['Light', 'Welter', 'Middle', 'Heavy'];
+
+export type Fighter = {
+  id: string;
+  name: string;
+  band: number | null; // index into WEIGHT_BANDS; null pairs with anyone
+  uid?: string | null; // set when picked from people the user follows
+};
+
+export type SparringSettings = {
+  enabled: boolean;
+  roster: Fighter[];
+  useBands: boolean; // only pair fighters at most one band apart when possible
+  seed: number; // reshuffles the whole rotation when changed
+};
+
+/** One pair for a round; `b` is null when `a` sits the round out. */
+export type Pairing = { a: Fighter; b: Fighter | null };
+
+export const DEFAULT_SPARRING_SETTINGS: SparringSettings = {
+  enabled: false,
+  roster: [],
+  useBands: false,
+  seed: 1,
+};
+
+const STORAGE_KEY = 'sparring_rotation';
+const BYE = '__bye__';
+const SEARCH_BUDGET = 4000; // matching nodes explored per round
+
+// Pairing costs; a repeat always beats a mismatched weight band, and an extra bye beats neither
+const COST_REPEAT = 100;
+const COST_BAND = 1000;
+const COST_BYE = 10;
+
+export function makeFighter(name: string, band: number | null = null, uid: string | null = null): Fighter {
+  return { id: newId(), name: name.trim(), band, uid };
+}
+
+/** Deterministic shuffle so the same roster and seed always give the same rotation. */
+function shuffled<T>(items: T[], seed: number): T[] {
+  let a = seed >>> 0 || 1;
+  const rand = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/** Round-robin "circle" pairing: everyone meets everyone once over ids.length - 1 rounds. */
+function circleRound(ids: string[], round: number): [string, string][] {
+  const rest = ids.slice(1);
+  const shift = round % rest.length;
+  const order = [ids[0], ...rest.slice(rest.length - shift), ...rest.slice(0, rest.length - shift)];
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < order.length / 2; i++) pairs.push([order[i], order[order.length - 1 - i]]);
+  return pairs;
+}
+
+/**
+ * Pairs everyone for every round. Each round starts from the round-robin
+ * schedule and only deviates when a cheaper matching exists (repeat pairings,
+ * band mismatches and repeated byes all cost), so without weight bands nobody
+ * meets the same partner twice until everyone has met.
+ */
+export function planRotation(settings: SparringSettings, rounds: number): Pairing[][] {
+  const fighters = shuffled(
+    settings.roster.filter((f) => f.name),
+    settings.seed
+  );
+  if (fighters.length < 2 || rounds <= 0) return [];
+
+  const byId = new Map(fighters.map((f) => [f.id, f]));
+  const ids = fighters.map((f) => f.id);
+  if (ids.length % 2 === 1) ids.push(BYE);
+
+  const met = new Map<string, number>();
+  const byes = new Map<string, number>();
+
+  const cost = (x: string, y: string): number => {
+    if (x === BYE || y === BYE) return COST_BYE * (1 + (byes.get(x === BYE ? y : x) ?? 0));
+    let c = COST_REPEAT * (met.get(pairKey(x, y)) ?? 0);
+    const bx = byId.get(x)!.band;
+    const by = byId.get(y)!.band;
+    if (settings.useBands && bx != null && by != null && Math.abs(bx - by) > 1) c += COST_BAND;
+    return c;
+  };
+
+  const plan: Pairing[][] = [];
+  for (let r = 0; r < rounds; r++) {
+    let best = circleRound(ids, r);
+    let bestCost = best.reduce((sum, [x, y]) => sum + cost(x, y), 0);
+    let budget = SEARCH_BUDGET;
+
+    const search = (open: string[], acc: [string, string][], total: number) => {
+      if (total >= bestCost || budget-- <= 0) return;
+      if (open.length === 0) {
+        best = acc.slice();
+        bestCost = total;
+        return;
+      }
+      const [x, ...rest] = open;
+      const options = rest.map((y) => ({ y, c: cost(x, y) })).sort((p, q) => p.c - q.c);
+      for (const { y, c } of options) {
+        acc.push([x, y]);
+        search(
+          rest.filter((id) => id !== y),
+          acc,
+          total + c
+        );
+        acc.pop();
+      }
+    };
+    search(ids, [], 0);
+
+    const round: Pairing[] = [];
+    for (const [x, y] of best) {
+      if (x === BYE || y === BYE) {
+        const sitting = x === BYE ? y : x;
+        byes.set(sitting, (byes.get(sitting) ?? 0) + 1);
+        round.push({ a: byId.get(sitting)!, b: null });
+      } else {
+        met.set(pairKey(x, y), (met.get(pairKey(x, y)) ?? 0) + 1);
+        round.push({ a: byId.get(x)!, b: byId.get(y)! });
+      }
+    }
+    // Byes last so the list reads as "who's sparring" first
+    round.sort((p, q) => Number(p.b === null) - Number(q.b === null));
+    plan.push(round);
+  }
+  return plan;
+}
+
+/** Names of the people `uid` follows, for quick roster entry. */
+export async function loadFollowingFighters(uid: string, max = 50): Promise<Fighter[]> {
+  const snap = await getDocs(query(collection(db, 'follows'), where('followerUid', '==', uid), limit(max)));
+  const ids = Array.from(new Set(snap.docs.map((d) => d.data().followeeUid as string).filter(Boolean)));
+  const out: Fighter[] = [];
+  await Promise.all(
+    ids.map(async (id) => {
+      try {
+        const s = await getDoc(doc(db, 'users', id));
+        const u = s.exists() ? (s.data() as { displayName?: string | null; username?: string | null }) : {};
+        const name = u.displayName || u.username;
+        if (name) out.push(makeFighter(name, null, id));
+      } catch {
+        // skip unreadable profiles
+      }
+    })
+  );
+  return out.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function isFighter(v: any): v is Fighter {
+  return !!v && typeof v.id === 'string' && typeof v.name === 'string' && (v.band === null || typeof v.band === 'number');
+}
+
+export async function loadSparringSettings(): Promise<SparringSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SPARRING_SETTINGS;
+    const v = JSON.parse(raw);
+    return {
+      ...DEFAULT_SPARRING_SETTINGS,
+      enabled: Boolean(v?.enabled),
+      roster: Array.isArray(v?.roster) ? v.roster.filter(isFighter) : [],
+      useBands: Boolean(v?.useBands),
+      seed: typeof v?.seed === 'number' ? v.seed : DEFAULT_SPARRING_SETTINGS.seed,
+    };
+  } catch (e) {
+    console.warn('[sparring] load error:', e);
+    return DEFAULT_SPARRING_SETTINGS;
+  }
+}
+
+export async function saveSparringSettings(settings: SparringSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('[sparring] save error:', e);
+  }
+}
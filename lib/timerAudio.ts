@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio';
+
+export type SoundPack = 'classic' | 'digital';
+
+export type CueSound = 'bell' | 'clapper' | 'beep';
+
+export type AudioCueSettings = {
+  enabled: boolean;
+  pack: SoundPack;
+  volume: number; // 0..1
+  clapperSec: number; // "time almost up" warning before a work phase ends, 0 = off
+  countdown: boolean; // 3-2-1 lead-in before the first phase
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioCueSettings = {
+  enabled: true,
+  pack: 'classic',
+  volume: 1,
+  clapperSec: 10,
+  countdown: true,
+};
+
+export const SOUND_PACKS: { id: SoundPack; label: string }[] = [
+  { id: 'classic', label: 'Classic Bell' },
+  { id: 'digital', label: 'Digital' },
+];
+
+export const CLAPPER_OPTIONS = [0, 5, 10, 15, 30];
+
+export const COUNTDOWN_SEC = 3;
+
+const STORAGE_KEY = 'timer_audio_settings';
+
+const SOURCES: Record<SoundPack, Record<CueSound, number>> = {
+  classic: {
+    bell: require('../assets/sounds/classic/bell.wav'),
+    clapper: require('../assets/sounds/classic/clapper.wav'),
+    beep: require('../assets/sounds/classic/beep.wav'),
+  },
+  digital: {
+    bell: require('../assets/sounds/digital/bell.wav'),
+    clapper: require('../assets/sounds/digital/clapper.wav'),
+    beep: require('../assets/sounds/digital/beep.wav'),
+  },
+};
+
+/**
+ * Cues mix with (and briefly duck) other audio so a Spotify session keeps
+ * playing, and keep working in silent mode and with the screen locked.
+ */
+export async function configureCueAudioSession(): Promise<void> {
+  try {
+    await setAudioModeAsync({
+      playsInSilentMode: true,
+      shouldPlayInBackground: true,
+      interruptionMode: 'duckOthers',
+      interruptionModeAndroid: 'duckOthers',
+    });
+  } catch (e) {
+    console.warn('[audio] set mode error:', e);
+  }
+}
+
+export type CuePlayer = {
+  play: (sound: CueSound, times?: number) => void;
+  setVolume: (volume: number) => void;
+  release: () => void;
+};
+
+/** Preloads one player per sound of a pack so cues start without latency. */
+export function createCuePlayer(pack: SoundPack, volume: number): CuePlayer {
+  const players = {} as Record<CueSound, AudioPlayer>;
+  (Object.keys(SOURCES[pack]) as CueSound[]).forEach((k) => {
+    const p = createAudioPlayer(SOURCES[pack][k]);
+    p.volume = volume;
+    players[k] = p;
+  });
+  const timers: ReturnType<typeof setTimeout>[] = [];
+
+  const fire = (sound: CueSound) => {
+    try {
+      const p = players[sound];
+      void p.seekTo(0);
+      p.play();
+    } catch (e) {
+      console.warn('[audio] play error:', e);
+    }
+  };
+
+  return {
+    play: (sound, times = 1) => {
+      for (let i = 0; i < times; i++) {
+        if (i === 0) fire(sound);
+        else timers.push(setTimeout(() => fire(sound), i * 380));
+      }
+    },
+    setVolume: (volume) => {
+      Object.values(players).forEach((p) => {
+        p.volume = volume;
+      });
+    },
+    release: () => {
+      timers.forEach(clearTimeout);
+      Object.values(players).forEach((p) => p.remove());
+    },
+  };
+}
+
+/* ---------- persistence ---------- */
+
+export async function loadAudioSettings(): Promise<AudioCueSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_AUDIO_SETTINGS;
+    const v = JSON.parse(raw) ?? {};
+    return {
+      enabled: typeof v.enabled === 'boolean' ? v.enabled : DEFAULT_AUDIO_SETTINGS.enabled,
+      pack: v.pack === 'digital' ? 'digital' : 'classic',
+      volume: typeof v.volume === 'number' ? Math.max(0, Math.min(1, v.volume)) : DEFAULT_AUDIO_SETTINGS.volume,
+      clapperSec: CLAPPER_OPTIONS.includes(v.clapperSec) ? v.clapperSec : DEFAULT_AUDIO_SETTINGS.clapperSec,
+      countdown: typeof v.countdown === 'boolean' ? v.countdown : DEFAULT_AUDIO_SETTINGS.countdown,
+    };
+  } catch (e) {
+    console.warn('[audio] load settings error:', e);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export async function saveAudioSettings(settings: AudioCueSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('[audio] save settings error:', e);
+  }
+}
@@ -0,0 +1,353 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  Program,
+  ProgramStep,
+  SegmentKind,
+  Settings,
+  expandProgram,
+  isProgram,
+  isSettings,
+  programFromSettings,
+} from './timerProgram';
+
+export type Phase = 'idle' | SegmentKind | 'done';
+
+export type TimerState = {
+  phase: Phase;
+  label: string; // segment label, e.g. "Bag" or "Warm-up"
+  currentRound: number; // 1-based
+  roundsTotal: number;
+  remaining: number; // whole seconds left in current phase
+  remainingMs: number; // exact time left in current phase, for sub-second displays
+  phaseLengthSec: number; // full length of current phase
+  stepIndex: number; // index into the schedule (edits included), -1 while idle
+  next: ProgramStep | null; // upcoming step, if any
+  countdown: number; // whole seconds of pre-start lead-in left, 0 once running
+};
+
+/**
+ * Wall-clock session. Nothing here ticks: phase, round and remaining time are
+ * derived from `startedAt` minus accumulated pauses, so a session survives
+ * backgrounding, screen lock and app restarts without drifting.
+ */
+export type TimerSession = {
+  settings: Settings;
+  program: Program | null; // custom program; null runs `settings` as plain rounds
+  startedAt: number | null; // epoch ms, null while idle; in the future during a lead-in
+  pausedAt: number | null; // epoch ms while paused
+  pausedMs: number; // paused time accumulated before `pausedAt`
+  logged: boolean; // this run has been written to workout history
+  reps: number; // AMRAP rep counter, tapped in by the athlete
+  edits: TimerEdit[]; // in-session adjustments, oldest first; undo pops the last
+};
+
+/**
+ * A coach's adjustment to a running session, pinned to the elapsed time it was
+ * made at so the schedule can be rebuilt from the program plus the edit list.
+ */
+export type TimerEdit =
+  | { type: 'skip'; at: number } // end the current step now
+  | { type: 'add'; at: number; sec: number } // lengthen (or shorten) the current step
+  | { type: 'restart'; at: number } // run the current step again from the top
+  | { type: 'jump'; at: number; to: number }; // continue from program step `to`
+
+/** A step as actually run: `cut` steps were ended early by an edit. */
+export type ScheduledStep = ProgramStep & { cut: boolean };
+
+/** What a run amounted to, for the workout log. */
+export type SessionSummary = {
+  roundsCompleted: number;
+  roundsTotal: number;
+  workSec: number;
+  restSec: number;
+  totalSec: number; // everything elapsed, warm-up and cool-down included
+  reps: number;
+};
+
+const STORAGE_KEY = 'timer_session';
+
+export const DEFAULT_SETTINGS: Settings = {
+  mode: 'rounds',
+  roundsTotal: 3,
+  roundLengthSec: 3 * 60,
+  restLengthSec: 60,
+};
+
+export function activeProgram(session: TimerSession): Program {
+  return session.program ?? programFromSettings(session.settings);
+}
+
+/** Ordered list of phases the session walks through, with in-session edits applied. */
+export function buildSchedule(session: TimerSession): ScheduledStep[] {
+  const base = expandProgram(activeProgram(session));
+  let steps: ScheduledStep[] = base.map((step) => ({ ...step, cut: false }));
+
+  for (const edit of session.edits) {
+    // Find the step the edit landed in
+    let start = 0;
+    let k = 0;
+    while (k < steps.length && start + steps[k].lengthSec * 1000 <= edit.at) {
+      start += steps[k].lengthSec * 1000;
+      k++;
+    }
+    if (k >= steps.length) continue; // made after the end; nothing to change
+    const offsetSec = (edit.at - start) / 1000;
+    const current = steps[k];
+
+    if (edit.type === 'add') {
+      steps[k] = { ...current, lengthSec: Math.max(offsetSec + 1, current.lengthSec + edit.sec) };
+      continue;
+    }
+    const ended: ScheduledStep = { ...current, lengthSec: offsetSec, cut: true };
+    if (edit.type === 'skip') steps[k] = ended;
+    if (edit.type === 'restart') {
+      const again = base.find((b) => b.kind === current.kind && b.round === current.round && b.label === current.label);
+      steps = [...steps.slice(0, k), ended, { ...(again ?? current), cut: false }, ...steps.slice(k + 1)];
+    }
+    if (edit.type === 'jump') {
+      steps = [...steps.slice(0, k), ended, ...base.slice(edit.to).map((step) => ({ ...step, cut: false }))];
+    }
+  }
+  return steps;
+}
+
+function countProgramRounds(session: TimerSession): number {
+  return expandProgram(activeProgram(session)).filter((s) => s.kind === 'work').length;
+}
+
+export function totalLengthSec(session: TimerSession): number {
+  return buildSchedule(session).reduce((sum, s) => sum + s.lengthSec, 0);
+}
+
+export function createSession(settings: Settings, program: Program | null = null): TimerSession {
+  return { settings, program, startedAt: null, pausedAt: null, pausedMs: 0, logged: false, reps: 0, edits: [] };
+}
+
+export function elapsedMs(session: TimerSession, now: number): number {
+  if (session.startedAt == null) return 0;
+  const end = session.pausedAt ?? now;
+  return Math.max(0, end - session.startedAt - session.pausedMs);
+}
+
+export function deriveTimerState(session: TimerSession, now: number): TimerState {
+  const schedule = buildSchedule(session);
+  const roundsTotal = countProgramRounds(session);
+  if (session.startedAt == null || (session.pausedAt == null && now < session.startedAt)) {
+    const first = schedule[0];
+    return {
+      phase: 'idle',
+      label: 'Ready',
+      currentRound: 1,
+      roundsTotal,
+      remaining: first?.lengthSec ?? 0,
+      remainingMs: (first?.lengthSec ?? 0) * 1000,
+      phaseLengthSec: first?.lengthSec ?? 0,
+      stepIndex: -1,
+      next: first ?? null,
+      countdown: session.startedAt == null ? 0 : Math.ceil((session.startedAt - now) / 1000),
+    };
+  }
+
+  let t = elapsedMs(session, now);
+  for (let i = 0; i < schedule.length; i++) {
+    const step = schedule[i];
+    const lengthMs = step.lengthSec * 1000;
+    if (t < lengthMs) {
+      return {
+        phase: step.kind,
+        label: step.label,
+        currentRound: step.round,
+        roundsTotal,
+        remaining: Math.ceil((lengthMs - t) / 1000),
+        remainingMs: lengthMs - t,
+        phaseLengthSec: step.lengthSec,
+        stepIndex: i,
+        next: schedule[i + 1] ?? null,
+        countdown: 0,
+      };
+    }
+    t -= lengthMs;
+  }
+  return {
+    phase: 'done',
+    label: 'Done',
+    currentRound: roundsTotal,
+    roundsTotal,
+    remaining: 0,
+    remainingMs: 0,
+    phaseLengthSec: 0,
+    stepIndex: schedule.length,
+    next: null,
+    countdown: 0,
+  };
+}
+
+export function summarizeSession(session: TimerSession, now: number): SessionSummary {
+  const schedule = buildSchedule(session);
+  const summary: SessionSummary = {
+    roundsCompleted: 0,
+    roundsTotal: countProgramRounds(session),
+    workSec: 0,
+    restSec: 0,
+    totalSec: 0,
+    reps: session.reps,
+  };
+  const completed = new Set<number>(); // a restarted or repeated round still counts once
+  let t = elapsedMs(session, now) / 1000;
+  for (const step of schedule) {
+    if (t <= 0) break;
+    const spent = Math.min(step.lengthSec, t);
+    t -= spent;
+    summary.totalSec += spent;
+    if (step.kind === 'work') {
+      summary.workSec += spent;
+      if (!step.cut && spent >= step.lengthSec) completed.add(step.round);
+    } else if (step.kind === 'rest') {
+      summary.restSec += spent;
+    }
+  }
+  summary.roundsCompleted = completed.size;
+  summary.workSec = Math.round(summary.workSec);
+  summary.restSec = Math.round(summary.restSec);
+  summary.totalSec = Math.round(summary.totalSec);
+  return summary;
+}
+
+/** A future moment where the session moves into `step` (null = session done). */
+export type PhaseBoundary = {
+  at: number; // epoch ms
+  step: ProgramStep | null;
+};
+
+/** Wall-clock times of all phase changes still ahead of a running session. */
+export function upcomingBoundaries(session: TimerSession, now: number): PhaseBoundary[] {
+  if (session.startedAt == null || session.pausedAt != null) return [];
+  const schedule = buildSchedule(session);
+  const origin = session.startedAt + session.pausedMs;
+  const out: PhaseBoundary[] = [];
+  let t = origin;
+  schedule.forEach((step, i) => {
+    if (i > 0 && t > now && step.lengthSec > 0) out.push({ at: t, step });
+    t += step.lengthSec * 1000;
+  });
+  if (t > now) out.push({ at: t, step: null });
+  return out;
+}
+
+/** True while the clock is advancing (started, not paused, not finished). */
+export function isSessionRunning(session: TimerSession, now: number): boolean {
+  if (session.startedAt == null || session.pausedAt != null) return false;
+  return deriveTimerState(session, now).phase !== 'done';
+}
+
+/** Starts the clock, optionally after a `leadInMs` countdown. */
+export function startSession(session: TimerSession, now: number, leadInMs = 0): TimerSession {
+  return { ...createSession(session.settings, session.program), startedAt: now + leadInMs };
+}
+
+/** Starts an idle or finished session, resumes a paused one and leaves a running one alone. */
+export function startOrResumeSession(session: TimerSession, now: number, leadInMs = 0): TimerSession {
+  if (session.pausedAt != null) return resumeSession(session, now);
+  if (session.startedAt == null || !isSessionRunning(session, now)) return startSession(session, now, leadInMs);
+  return session;
+}
+
+export function pauseSession(session: TimerSession, now: number): TimerSession {
+  if (!isSessionRunning(session, now) || now < (session.startedAt ?? 0)) return session;
+  return { ...session, pausedAt: now };
+}
+
+export function resumeSession(session: TimerSession, now: number): TimerSession {
+  if (session.startedAt == null || session.pausedAt == null) return session;
+  return { ...session, pausedAt: null, pausedMs: session.pausedMs + Math.max(0, now - session.pausedAt) };
+}
+
+export function resetSession(session: TimerSession): TimerSession {
+  return createSession(session.settings, session.program);
+}
+
+/** Adjusts the rep counter; never goes below zero. */
+export function addReps(session: TimerSession, delta: number): TimerSession {
+  return { ...session, reps: Math.max(0, session.reps + delta) };
+}
+
+/* ---------- in-session edits ---------- */
+
+function withEdit(session: TimerSession, now: number, edit: TimerEdit): TimerSession {
+  if (session.startedAt == null || now < session.startedAt) return session;
+  if (deriveTimerState(session, now).phase === 'done') return session;
+  return { ...session, edits: [...session.edits, edit] };
+}
+
+/** Ends the current rest (or warm-up / cool-down) early. */
+export function skipStep(session: TimerSession, now: number): TimerSession {
+  return withEdit(session, now, { type: 'skip', at: elapsedMs(session, now) });
+}
+
+/** Adds `sec` (negative to take time off) to the current step; at least a second always remains. */
+export function addTime(session: TimerSession, now: number, sec: number): TimerSession {
+  return withEdit(session, now, { type: 'add', at: elapsedMs(session, now), sec });
+}
+
+/** Runs the current step again from the top; time already spent still counts. */
+export function restartStep(session: TimerSession, now: number): TimerSession {
+  return withEdit(session, now, { type: 'restart', at: elapsedMs(session, now) });
+}
+
+/** Moves to the start of work round `round` (1-based), forwards or back. */
+export function jumpToRound(session: TimerSession, now: number, round: number): TimerSession {
+  const to = expandProgram(activeProgram(session)).findIndex((s) => s.kind === 'work' && s.round === round);
+  if (to < 0) return session;
+  return withEdit(session, now, { type: 'jump', at: elapsedMs(session, now), to });
+}
+
+/** Drops the most recent edit; time keeps flowing against the schedule without it. */
+export function undoEdit(session: TimerSession): TimerSession {
+  if (session.edits.length === 0) return session;
+  return { ...session, edits: session.edits.slice(0, -1) };
+}
+
+function isEdit(v: any): v is TimerEdit {
+  if (!v || typeof v.at !== 'number') return false;
+  if (v.type === 'skip' || v.type === 'restart') return true;
+  if (v.type === 'add') return typeof v.sec === 'number';
+  if (v.type === 'jump') return typeof v.to === 'number';
+  return false;
+}
+
+/* ---------- persistence ---------- */
+
+/** Validates a stored or synced session; missing optional fields get their defaults. */
+export function parseTimerSession(v: any): TimerSession | null {
+  if (!isSettings(v?.settings)) return null;
+  return {
+    settings: v.settings,
+    program: isProgram(v.program) ? v.program : null,
+    startedAt: typeof v.startedAt === 'number' ? v.startedAt : null,
+    pausedAt: typeof v.pausedAt === 'number' ? v.pausedAt : null,
+    pausedMs: typeof v.pausedMs === 'number' ? v.pausedMs : 0,
+    logged: Boolean(v.logged),
+    reps: typeof v.reps === 'number' ? v.reps : 0,
+    edits: Array.isArray(v.edits) ? v.edits.filter(isEdit) : [],
+  };
+}
+
+export async function loadTimerSession(): Promise<TimerSession | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    return parseTimerSession(JSON.parse(raw));
+  } catch (e) {
+    console.warn('[timer] load session error:', e);
+    return null;
+  }
+}
+
+export async function saveTimerSession(session: TimerSession): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (e) {
+    console.warn('[timer] save session error:', e);
+  }
+}
@@ -0,0 +1,208 @@
+import * as Linking from 'expo-linking';
+
+import { TimerPreset } from './timerPresets';
+import {
+  MODE_DEFAULTS,
+  Program,
+  ProgramItem,
+  QUICK_PRESETS,
+  SEGMENT_KINDS,
+  Segment,
+  SegmentKind,
+  Settings,
+  TIMER_MODES,
+  TimerMode,
+  isProgram,
+  makeRepeat,
+  makeSegment,
+  programLengthSec,
+} from './timerProgram';
+
+/**
+ * Timer deep links:
+ *   poundrr://timer/start?preset=boxing
+ *   poundrr://timer/load?mode=tabata&rounds=8&work=20&rest=10
+ *   poundrr://timer/start?program=<packed program>
+ *   poundrr://timer/pause · poundrr://timer/reset
+ * `preset` matches a built-in id or the name of a saved preset.
+ */
+export type TimerLinkAction = 'open' | 'load' | 'start' | 'pause' | 'reset';
+
+export type TimerLink = {
+  action: TimerLinkAction;
+  setup: { settings: Settings; program: Program | null } | null; // null keeps the current setup
+};
+
+export type ParsedTimerLink = { ok: true; link: TimerLink } | { ok: false; error: string };
+
+type Params = Record<string, string | string[] | undefined>;
+
+const ACTIONS: TimerLinkAction[] = ['open', 'load', 'start', 'pause', 'reset'];
+const SETUP_KEYS = ['preset', 'program', 'mode', 'rounds', 'work', 'rest', 'reps'];
+const MAX_ITEMS = 60;
+const MAX_TIMES = 50;
+const MAX_SEGMENT_SEC = 4 * 60 * 60;
+const MAX_PROGRAM_SEC = 6 * 60 * 60;
+
+/* ---------- program packing ---------- */
+
+// Compact JSON so a whole program fits on an NFC tag:
+// [name, items] with segments as [kind, label, sec] and repeats as [times, skipLastRest, label, segments]
+type PackedSegment = [SegmentKind, string, number];
+type PackedRepeat = [number, 0 | 1, string, PackedSegment[]];
+type PackedProgram = [string, (PackedSegment | PackedRepeat)[]];
+
+function packSegment(s: Segment): PackedSegment {
+  return [s.kind, s.label, s.durationSec];
+}
+
+export function packProgram(program: Program): string {
+  const packed: PackedProgram = [
+    program.name,
+    program.items.map((it) =>
+      it.type === 'segment'
+        ? packSegment(it)
+        : [it.times, it.skipLastRest ? 1 : 0, it.label, it.segments.map(packSegment)]
+    ),
+  ];
+  return JSON.stringify(packed);
+}
+
+function unpackSegment(v: unknown): Segment | null {
+  if (!Array.isArray(v) || v.length !== 3) return null;
+  const [kind, label, sec] = v;
+  if (!SEGMENT_KINDS.includes(kind) || typeof label !== 'string' || !Number.isInteger(sec)) return null;
+  if (sec < 0 || sec > MAX_SEGMENT_SEC) return null;
+  return makeSegment(kind, sec, label.slice(0, 40));
+}
+
+export function unpackProgram(raw: string): Program | null {
+  let v: unknown;
+  try {
+    v = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(v) || v.length !== 2 || typeof v[0] !== 'string' || !Array.isArray(v[1])) return null;
+  if (v[1].length === 0 || v[1].length > MAX_ITEMS) return null;
+
+  const items: ProgramItem[] = [];
+  for (const it of v[1]) {
+    if (Array.isArray(it) && typeof it[0] === 'string') {
+      const seg = unpackSegment(it);
+      if (!seg) return null;
+      items.push(seg);
+      continue;
+    }
+    if (!Array.isArray(it) || it.length !== 4) return null;
+    const [times, skip, label, segs] = it;
+    if (!Number.isInteger(times) || times < 1 || times > MAX_TIMES) return null;
+    if (typeof label !== 'string' || !Array.isArray(segs) || segs.length === 0 || segs.length > MAX_ITEMS) return null;
+    const segments = segs.map(unpackSegment);
+    if (segments.some((s) => !s)) return null;
+    const block = makeRepeat(label.slice(0, 40), times, segments as Segment[]);
+    items.push({ ...block, skipLastRest: skip === 1 });
+  }
+
+  const program: Program = { name: v[0].slice(0, 60) || 'Shared program', items };
+  const total = programLengthSec(program);
+  if (!isProgram(program) || total <= 0 || total > MAX_PROGRAM_SEC) return null;
+  return program;
+}
+
+/* ---------- parsing ---------- */
+
+function first(v: string | string[] | undefined): string | undefined {
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function intParam(params: Params, key: string, min: number, max: number): number | null | undefined {
+  const raw = first(params[key]);
+  if (raw === undefined || raw === '') return undefined;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= min && n <= max ? n : null;
+}
+
+function settingsFromParams(params: Params): { settings: Settings } | { error: string } {
+  const rawMode = first(params.mode) ?? 'rounds';
+  if (!TIMER_MODES.includes(rawMode as TimerMode)) return { error: `Unknown mode "${rawMode}".` };
+  const mode = rawMode as TimerMode;
+  const settings: Settings = { ...MODE_DEFAULTS[mode] };
+
+  const rounds = intParam(params, 'rounds', 1, 60);
+  const work = intParam(params, 'work', 5, 60 * 60);
+  const rest = intParam(params, 'rest', 0, 10 * 60);
+  const reps = intParam(params, 'reps', 1, 100);
+  if (rounds === null) return { error: 'Rounds must be a whole number from 1 to 60.' };
+  if (work === null) return { error: 'Work must be a whole number of seconds from 5 to 3600.' };
+  if (rest === null) return { error: 'Rest must be a whole number of seconds from 0 to 600.' };
+  if (reps === null) return { error: 'Reps must be a whole number from 1 to 100.' };
+
+  if (rounds !== undefined) settings.roundsTotal = rounds;
+  if (work !== undefined) settings.roundLengthSec = work;
+  if (rest !== undefined) settings.restLengthSec = rest;
+  if (reps !== undefined) settings.targetReps = reps;
+  return { settings };
+}
+
+/** Turns the params the timer route receives into a validated action. */
+export function parseTimerLinkParams(params: Params, saved: TimerPreset[]): ParsedTimerLink {
+  const action = (first(params.link) ?? 'open') as TimerLinkAction;
+  if (!ACTIONS.includes(action)) return { ok: false, error: `Unknown timer action "${action}".` };
+  if (!SETUP_KEYS.some((k) => first(params[k]) !== undefined)) return { ok: true, link: { action, setup: null } };
+  if (action === 'pause') return { ok: false, error: 'A pause link cannot change the timer setup.' };
+
+  const packed = first(params.program);
+  if (packed !== undefined) {
+    const program = unpackProgram(packed);
+    if (!program) return { ok: false, error: 'The program in this link is damaged or too long.' };
+    return { ok: true, link: { action, setup: { settings: MODE_DEFAULTS.rounds, program } } };
+  }
+
+  const presetName = first(params.preset);
+  if (presetName !== undefined) {
+    const key = presetName.trim().toLowerCase();
+    const builtIn = Object.values(QUICK_PRESETS)
+      .flat()
+      .find((p) => p.id === key);
+    if (builtIn) return { ok: true, link: { action, setup: { settings: builtIn.settings, program: null } } };
+    const mine = saved.find((p) => !p.deleted && (p.id === presetName || p.name.trim().toLowerCase() === key));
+    if (mine) return { ok: true, link: { action, setup: { settings: mine.settings, program: mine.program } } };
+    return { ok: false, error: `No preset called "${presetName}".` };
+  }
+
+  const res = settingsFromParams(params);
+  if ('error' in res) return { ok: false, error: res.error };
+  return { ok: true, link: { action, setup: { settings: res.settings, program: null } } };
+}
+
+/**
+ * Maps an incoming URL onto the timer tab, e.g. poundrr://timer/start?preset=mma
+ * becomes /timer?link=start&preset=mma. Returns null for anything that isn't a timer link.
+ */
+export function timerRouteFromUrl(url: string): string | null {
+  const { hostname, path, queryParams } = Linking.parse(url);
+  const segments = [hostname, ...(path ?? '').split('/')].filter(Boolean) as string[];
+  const at = segments.indexOf('timer');
+  if (at < 0) return null;
+
+  const action = segments[at + 1];
+  const query = Object.entries(queryParams ?? {}).filter(([, v]) => typeof v === 'string') as [string, string][];
+  if (!action && query.length === 0) return null; // plain tab link, nothing to do
+
+  const params = new URLSearchParams([...query, ['link', action ?? 'open'], ['nonce', String(Date.now())]]);
+  return `/timer?${params.toString()}`;
+}
+
+/** A link that loads the given setup on another phone (or starts it, for wall tags). */
+export function createTimerLink(action: 'load' | 'start', settings: Settings, program: Program | null): string {
+  if (program) return Linking.createURL(`timer/${action}`, { queryParams: { program: packProgram(program) } });
+  const queryParams: Record<string, string> = {
+    mode: settings.mode ?? 'rounds',
+    rounds: String(settings.roundsTotal),
+    work: String(settings.roundLengthSec),
+    rest: String(settings.restLengthSec),
+  };
+  if (settings.targetReps != null) queryParams.reps = String(settings.targetReps);
+  return Linking.createURL(`timer/${action}`, { queryParams });
+}
@@ -0,0 +1,98 @@
+import { Platform } from 'react-native';
+
+import { tryLoadNotifications } from './notifications';
+import { TimerSession, upcomingBoundaries } from './timerEngine';
+import { KIND_LABELS } from './timerProgram';
+
+const DATA_KIND = 'timer-phase';
+const CHANNEL_ID = 'timer';
+const MAX_SCHEDULED = 60; // iOS keeps at most 64 pending local notifications
+
+let loaded: Promise<any | null> | null = null;
+let asked = false; // the permission prompt is shown at most once per app run
+let channelReady = false;
+
+function load(): Promise<any | null> {
+  if (!loaded) loaded = Platform.OS === 'web' ? Promise.resolve(null) : tryLoadNotifications();
+  return loaded;
+}
+
+/**
+ * Loads expo-notifications and checks permission. Only `ask` (a session is
+ * actually starting) may show the system prompt, so opening the tab never does.
+ */
+async function prepare(ask: boolean): Promise<any | null> {
+  const Notifications = await load();
+  if (!Notifications) return null;
+  try {
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted' && ask && !asked) {
+      asked = true;
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') return null;
+    if (Platform.OS === 'android' && !channelReady) {
+      await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Timer',
+        importance: Notifications.AndroidImportance?.HIGH ?? 4,
+        vibrationPattern: [0, 180, 80, 180],
+      });
+      channelReady = true;
+    }
+    return Notifications;
+  } catch (e) {
+    console.warn('[timer-notifications] setup error:', e);
+    return null;
+  }
+}
+
+function fmtLength(sec: number): string {
+  const m = Math.floor(sec / 60);
+  const s = sec % 60;
+  return s ? `${m}:${String(s).padStart(2, '0')}` : `${m} min`;
+}
+
+/** Removes every pending phase notification this app scheduled. */
+export async function cancelTimerNotifications(): Promise<void> {
+  const Notifications = await prepare(false);
+  if (!Notifications) return;
+  try {
+    const pending: any[] = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      pending
+        .filter((n) => n?.content?.data?.kind === DATA_KIND)
+        .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier))
+    );
+  } catch (e) {
+    console.warn('[timer-notifications] cancel error:', e);
+  }
+}
+
+/**
+ * Replaces pending phase notifications with one per upcoming phase change of
+ * `session`. Paused, idle or finished sessions just clear them.
+ */
+export async function scheduleTimerNotifications(session: TimerSession, now: number): Promise<void> {
+  await cancelTimerNotifications();
+  const boundaries = upcomingBoundaries(session, now).slice(0, MAX_SCHEDULED);
+  if (boundaries.length === 0) return;
+  const Notifications = await prepare(true);
+  if (!Notifications) return;
+
+  try {
+    for (const b of boundaries) {
+      const { title, body } = b.step
+        ? {
+            title: b.step.kind === 'work' ? `${b.step.label} ${b.step.round}` : KIND_LABELS[b.step.kind],
+            body: `${fmtLength(b.step.lengthSec)} ${b.step.kind === 'work' ? 'round' : b.step.label.toLowerCase()} starting now`,
+          }
+        : { title: 'Session complete', body: 'Nice work — time is up.' };
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body, sound: true, data: { kind: DATA_KIND } },
+        trigger: { type: 'date', date: new Date(b.at), channelId: CHANNEL_ID },
+      });
+    }
+  } catch (e) {
+    console.warn('[timer-notifications] schedule error:', e);
+  }
+}
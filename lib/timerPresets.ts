@@ -0,0 +1,253 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  collection,
+  doc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+} from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { Program, Settings, isProgram, isSettings, newId } from './timerProgram';
+
+/**
+ * Saved timer configuration. Stored locally for offline use and mirrored to
+ * users/{uid}/timerPresets/{id}. `rev` is the cloud revision this copy is based
+ * on; a push only succeeds if the cloud is still at that revision.
+ */
+export type TimerPreset = {
+  id: string;
+  name: string;
+  settings: Settings;
+  program: Program | null;
+  order: number;
+  rev: number;
+  editedAt: number; // epoch ms of the last local edit
+  dirty: boolean; // local changes not pushed yet
+  deleted: boolean; // tombstone kept until the delete is pushed
+};
+
+type PresetDoc = {
+  name: string;
+  settings: Settings;
+  program: Program | null;
+  order: number;
+  rev: number;
+  editedAt: number;
+};
+
+export type PushOutcome = 'pushed' | 'conflict' | 'failed';
+
+export type SyncResult = {
+  presets: TimerPreset[];
+  conflicts: string[]; // names of presets that were edited on another device
+  outcomes: Record<string, PushOutcome>; // by preset id, for every dirty preset and conflict copy
+  error: unknown; // first push or pull failure, null when everything went through
+};
+
+const STORAGE_KEY = 'timer_presets';
+
+function presetsCol(uid: string) {
+  return collection(db, 'users', uid, 'timerPresets');
+}
+
+export function sortPresets(presets: TimerPreset[]): TimerPreset[] {
+  return presets.slice().sort((a, b) => a.order - b.order || a.editedAt - b.editedAt);
+}
+
+/** Presets the UI should show (tombstones hidden), in display order. */
+export function visiblePresets(presets: TimerPreset[]): TimerPreset[] {
+  return sortPresets(presets.filter((p) => !p.deleted));
+}
+
+/* ---------- local edits (pure) ---------- */
+
+export function createPreset(
+  presets: TimerPreset[],
+  name: string,
+  settings: Settings,
+  program: Program | null
+): TimerPreset[] {
+  const order = presets.reduce((max, p) => Math.max(max, p.order), -1) + 1;
+  const preset: TimerPreset = {
+    id: newId(),
+    name: name.trim() || 'Untitled',
+    settings,
+    program,
+    order,
+    rev: 0,
+    editedAt: Date.now(),
+    dirty: true,
+    deleted: false,
+  };
+  return [...presets, preset];
+}
+
+export function updatePreset(
+  presets: TimerPreset[],
+  id: string,
+  patch: Partial<Pick<TimerPreset, 'name' | 'settings' | 'program'>>
+): TimerPreset[] {
+  return presets.map((p) => (p.id === id ? { ...p, ...patch, editedAt: Date.now(), dirty: true } : p));
+}
+
+export function deletePreset(presets: TimerPreset[], id: string): TimerPreset[] {
+  return presets
+    .map((p) => (p.id === id ? { ...p, deleted: true, editedAt: Date.now(), dirty: true } : p))
+    .filter((p) => !(p.deleted && p.rev === 0)); // never synced: nothing to delete remotely
+}
+
+export function movePreset(presets: TimerPreset[], id: string, delta: number): TimerPreset[] {
+  const visible = visiblePresets(presets);
+  const from = visible.findIndex((p) => p.id === id);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= visible.length) return presets;
+  const reordered = visible.slice();
+  const [it] = reordered.splice(from, 1);
+  reordered.splice(to, 0, it);
+  const orderById = new Map(reordered.map((p, i) => [p.id, i]));
+  return presets.map((p) => {
+    const order = orderById.get(p.id);
+    if (order === undefined || order === p.order) return p;
+    return { ...p, order, editedAt: Date.now(), dirty: true };
+  });
+}
+
+/* ---------- local storage ---------- */
+
+function isPreset(v: any): v is TimerPreset {
+  return (
+    !!v &&
+    typeof v.id === 'string' &&
+    typeof v.name === 'string' &&
+    isSettings(v.settings) &&
+    (v.program === null || isProgram(v.program)) &&
+    typeof v.order === 'number' &&
+    typeof v.rev === 'number'
+  );
+}
+
+export async function loadLocalPresets(): Promise<TimerPreset[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const arr = JSON.parse(raw);
+    if (!Array.isArray(arr)) return [];
+    return arr.filter(isPreset).map((p) => ({
+      ...p,
+      editedAt: typeof p.editedAt === 'number' ? p.editedAt : 0,
+      dirty: Boolean(p.dirty),
+      deleted: Boolean(p.deleted),
+    }));
+  } catch (e) {
+    console.warn('[presets] load error:', e);
+    return [];
+  }
+}
+
+export async function saveLocalPresets(presets: TimerPreset[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn('[presets] save error:', e);
+  }
+}
+
+/* ---------- cloud sync ---------- */
+
+function fromDoc(id: string, d: PresetDoc): TimerPreset | null {
+  const candidate = { id, ...d, program: d.program ?? null, dirty: false, deleted: false };
+  return isPreset(candidate) ? { ...candidate, editedAt: Number(d.editedAt ?? 0) } : null;
+}
+
+function toDoc(p: TimerPreset, rev: number) {
+  return {
+    name: p.name,
+    settings: p.settings,
+    program: p.program,
+    order: p.order,
+    rev,
+    editedAt: p.editedAt,
+    updatedAt: serverTimestamp(),
+  };
+}
+
+async function pushPreset(uid: string, p: TimerPreset): Promise<boolean> {
+  const ref = doc(presetsCol(uid), p.id);
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(ref);
+    const remoteRev = snap.exists() ? Number((snap.data() as PresetDoc).rev ?? 0) : 0;
+    if (remoteRev !== p.rev) return false;
+    if (p.deleted) tx.delete(ref);
+    else tx.set(ref, toDoc(p, p.rev + 1));
+    return true;
+  });
+}
+
+/** Local copy after a push attempt: pushed edits are clean at the new revision, failed ones stay queued. */
+function settle(p: TimerPreset, outcome: PushOutcome): TimerPreset[] {
+  if (outcome === 'failed') return [p];
+  if (outcome === 'pushed') return p.deleted ? [] : [{ ...p, rev: p.rev + 1, dirty: false }];
+  // Conflict: the cloud copy replaces this one on the next pull
+  return [{ ...p, dirty: false, deleted: false }];
+}
+
+/**
+ * Pushes dirty local presets one by one, then pulls the cloud copy.
+ * A push whose base revision is stale is a conflict: the cloud version wins
+ * and the local edit is kept as a separate "(conflict)" copy, so neither
+ * device loses work. Deleting a preset that was edited elsewhere keeps the edit.
+ * A failed push or pull doesn't undo the pushes that went through.
+ */
+export async function syncPresets(uid: string, local: TimerPreset[]): Promise<SyncResult> {
+  const conflicts: string[] = [];
+  const outcomes: Record<string, PushOutcome> = {};
+  const copies: TimerPreset[] = [];
+  let error: unknown = null;
+
+  for (const p of local.filter((p) => p.dirty)) {
+    try {
+      outcomes[p.id] = (await pushPreset(uid, p)) ? 'pushed' : 'conflict';
+    } catch (e) {
+      console.warn('[presets] push error:', e);
+      outcomes[p.id] = 'failed';
+      error ??= e;
+      continue;
+    }
+    if (outcomes[p.id] === 'conflict' && !p.deleted) {
+      conflicts.push(p.name);
+      copies.push({ ...p, id: newId(), name: `${p.name} (conflict)`, rev: 0, dirty: true });
+    }
+  }
+
+  // Conflict copies are brand new documents, so they cannot conflict again
+  for (const c of copies) {
+    try {
+      await setDoc(doc(presetsCol(uid), c.id), toDoc(c, 1));
+      outcomes[c.id] = 'pushed';
+    } catch (e) {
+      console.warn('[presets] push error:', e);
+      outcomes[c.id] = 'failed';
+      error ??= e;
+    }
+  }
+
+  const settled = [...local, ...copies].flatMap((p) => (outcomes[p.id] ? settle(p, outcomes[p.id]) : [p]));
+  const queued = settled.filter((p) => p.dirty);
+  const queuedIds = new Set(queued.map((p) => p.id));
+
+  let presets = settled;
+  try {
+    const snap = await getDocs(presetsCol(uid));
+    const cloud = snap.docs
+      .map((d) => fromDoc(d.id, d.data() as PresetDoc))
+      .filter((p): p is TimerPreset => p !== null && !queuedIds.has(p.id));
+    presets = [...cloud, ...queued];
+  } catch (e) {
+    console.warn('[presets] pull error:', e);
+    error ??= e;
+  }
+
+  return { presets: sortPresets(presets), conflicts, outcomes, error };
+}
@@ -0,0 +1,255 @@
+import { MusicAutomation, isMusicAutomation } from './musicAutomation';
+
+/** `rounds` is classic boxing rounds; the others are conditioning formats. */
+export type TimerMode = 'rounds' | 'tabata' | 'emom' | 'amrap';
+
+export type Settings = {
+  mode?: TimerMode; // missing on sessions / presets saved before modes existed
+  roundsTotal: number; // EMOM: minutes; unused by AMRAP
+  roundLengthSec: number; // work; AMRAP: the time cap
+  restLengthSec: number; // unused by EMOM and AMRAP
+  targetReps?: number; // EMOM: reps to finish inside each minute
+  music?: MusicAutomation; // Spotify follows the phases when enabled
+};
+
+export type SegmentKind = 'warmup' | 'work' | 'rest' | 'cooldown';
+
+export type Segment = {
+  type: 'segment';
+  id: string;
+  kind: SegmentKind;
+  label: string;
+  durationSec: number;
+};
+
+/** Runs `segments` `times` times; trailing rests are dropped on the last pass when `skipLastRest`. */
+export type RepeatBlock = {
+  type: 'repeat';
+  id: string;
+  label: string;
+  times: number;
+  segments: Segment[];
+  skipLastRest: boolean;
+};
+
+export type ProgramItem = Segment | RepeatBlock;
+
+export type Program = {
+  name: string;
+  items: ProgramItem[];
+};
+
+/** One concrete phase of an expanded program. `round` counts work steps, 1-based. */
+export type ProgramStep = {
+  kind: SegmentKind;
+  label: string;
+  round: number;
+  lengthSec: number;
+};
+
+export const SEGMENT_KINDS: SegmentKind[] = ['warmup', 'work', 'rest', 'cooldown'];
+
+export const KIND_LABELS: Record<SegmentKind, string> = {
+  warmup: 'Warm-up',
+  work: 'Work',
+  rest: 'Rest',
+  cooldown: 'Cool-down',
+};
+
+export const TIMER_MODES: TimerMode[] = ['rounds', 'tabata', 'emom', 'amrap'];
+
+export const MODE_LABELS: Record<TimerMode, string> = {
+  rounds: 'Rounds',
+  tabata: 'Tabata',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
+/** Starting point when switching to a mode. */
+export const MODE_DEFAULTS: Record<TimerMode, Settings> = {
+  rounds: { mode: 'rounds', roundsTotal: 3, roundLengthSec: 3 * 60, restLengthSec: 60 },
+  tabata: { mode: 'tabata', roundsTotal: 8, roundLengthSec: 20, restLengthSec: 10 },
+  emom: { mode: 'emom', roundsTotal: 10, roundLengthSec: 60, restLengthSec: 0, targetReps: 10 },
+  amrap: { mode: 'amrap', roundsTotal: 1, roundLengthSec: 12 * 60, restLengthSec: 0 },
+};
+
+/** Built-in setups per mode; `id` is what deep links use (`?preset=mma`). */
+export type QuickPreset = { id: string; label: string; settings: Settings };
+
+export const QUICK_PRESETS: Record<TimerMode, QuickPreset[]> = {
+  rounds: [
+    { id: 'boxing', label: 'Boxing', settings: { mode: 'rounds', roundsTotal: 3, roundLengthSec: 3 * 60, restLengthSec: 60 } },
+    { id: 'mma', label: 'MMA', settings: { mode: 'rounds', roundsTotal: 5, roundLengthSec: 5 * 60, restLengthSec: 60 } },
+    { id: 'short', label: 'Short', settings: { mode: 'rounds', roundsTotal: 3, roundLengthSec: 60, restLengthSec: 20 } },
+  ],
+  tabata: [
+    { id: 'tabata', label: '20/10 × 8', settings: MODE_DEFAULTS.tabata },
+    { id: 'tabata-30', label: '30/15 × 8', settings: { mode: 'tabata', roundsTotal: 8, roundLengthSec: 30, restLengthSec: 15 } },
+    { id: 'tabata-40', label: '40/20 × 6', settings: { mode: 'tabata', roundsTotal: 6, roundLengthSec: 40, restLengthSec: 20 } },
+  ],
+  emom: [
+    { id: 'emom', label: '10 min', settings: MODE_DEFAULTS.emom },
+    { id: 'emom-15', label: '15 min', settings: { ...MODE_DEFAULTS.emom, roundsTotal: 15, targetReps: 8 } },
+    { id: 'emom-20', label: '20 min', settings: { ...MODE_DEFAULTS.emom, roundsTotal: 20, targetReps: 6 } },
+  ],
+  amrap: [
+    { id: 'amrap-8', label: '8 min', settings: { ...MODE_DEFAULTS.amrap, roundLengthSec: 8 * 60 } },
+    { id: 'amrap', label: '12 min', settings: MODE_DEFAULTS.amrap },
+    { id: 'amrap-20', label: '20 min', settings: { ...MODE_DEFAULTS.amrap, roundLengthSec: 20 * 60 } },
+  ],
+};
+
+export function settingsMode(settings: Settings): TimerMode {
+  return settings.mode ?? 'rounds';
+}
+
+/** Swaps in a new setup; music automation carries over unless the new setup has its own. */
+export function keepMusic(next: Settings, from: Settings): Settings {
+  return next.music || !from.music ? next : { ...next, music: from.music };
+}
+
+export function newId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function makeSegment(kind: SegmentKind, durationSec: number, label = KIND_LABELS[kind]): Segment {
+  return { type: 'segment', id: newId(), kind, label, durationSec };
+}
+
+export function makeRepeat(label: string, times: number, segments: Segment[]): RepeatBlock {
+  return { type: 'repeat', id: newId(), label, times, segments, skipLastRest: true };
+}
+
+/** The quick settings of any mode as a program. */
+export function programFromSettings(settings: Settings): Program {
+  const mode = settingsMode(settings);
+  if (mode === 'tabata') {
+    return {
+      name: `Tabata ${settings.roundLengthSec}/${settings.restLengthSec} × ${settings.roundsTotal}`,
+      items: [
+        makeRepeat('Tabata', settings.roundsTotal, [
+          makeSegment('work', settings.roundLengthSec),
+          makeSegment('rest', settings.restLengthSec),
+        ]),
+      ],
+    };
+  }
+  if (mode === 'emom') {
+    return {
+      name: `EMOM ${settings.roundsTotal} min`,
+      items: [makeRepeat('EMOM', settings.roundsTotal, [makeSegment('work', settings.roundLengthSec, 'Minute')])],
+    };
+  }
+  if (mode === 'amrap') {
+    return {
+      name: `AMRAP ${Math.round(settings.roundLengthSec / 60)} min`,
+      items: [makeSegment('work', settings.roundLengthSec, 'AMRAP')],
+    };
+  }
+
+  const segments = [makeSegment('work', settings.roundLengthSec, 'Round')];
+  if (settings.restLengthSec > 0) segments.push(makeSegment('rest', settings.restLengthSec));
+  return {
+    name: `${settings.roundsTotal} × ${Math.round(settings.roundLengthSec / 60)} min`,
+    items: [makeRepeat('Rounds', settings.roundsTotal, segments)],
+  };
+}
+
+/** Starter template: warm-up, bag rounds, pad rounds, cool-down. */
+export function exampleProgram(): Program {
+  return {
+    name: 'Gym Session',
+    items: [
+      makeSegment('warmup', 5 * 60),
+      makeRepeat('Bag', 6, [makeSegment('work', 3 * 60, 'Bag'), makeSegment('rest', 45)]),
+      makeSegment('rest', 60),
+      makeRepeat('Pads', 3, [makeSegment('work', 2 * 60, 'Pads'), makeSegment('rest', 60)]),
+      makeSegment('cooldown', 5 * 60),
+    ],
+  };
+}
+
+export function expandProgram(program: Program): ProgramStep[] {
+  const steps: ProgramStep[] = [];
+  let round = 0;
+
+  const push = (seg: Segment) => {
+    if (seg.durationSec <= 0) return;
+    if (seg.kind === 'work') round += 1;
+    steps.push({ kind: seg.kind, label: seg.label, round: Math.max(1, round), lengthSec: seg.durationSec });
+  };
+
+  for (const item of program.items) {
+    if (item.type === 'segment') {
+      push(item);
+      continue;
+    }
+    for (let pass = 1; pass <= item.times; pass++) {
+      let segs = item.segments;
+      if (pass === item.times && item.skipLastRest) {
+        let end = segs.length;
+        while (end > 0 && segs[end - 1].kind === 'rest') end--;
+        segs = segs.slice(0, end);
+      }
+      segs.forEach(push);
+    }
+  }
+  return steps;
+}
+
+export function countRounds(program: Program): number {
+  return expandProgram(program).filter((s) => s.kind === 'work').length;
+}
+
+export function programLengthSec(program: Program): number {
+  return expandProgram(program).reduce((sum, s) => sum + s.lengthSec, 0);
+}
+
+/* ---------- validation (persisted / external input) ---------- */
+
+function isSegment(v: any): v is Segment {
+  return (
+    !!v &&
+    v.type === 'segment' &&
+    typeof v.id === 'string' &&
+    SEGMENT_KINDS.includes(v.kind) &&
+    typeof v.label === 'string' &&
+    typeof v.durationSec === 'number' &&
+    v.durationSec >= 0
+  );
+}
+
+function isRepeat(v: any): v is RepeatBlock {
+  return (
+    !!v &&
+    v.type === 'repeat' &&
+    typeof v.id === 'string' &&
+    typeof v.label === 'string' &&
+    typeof v.times === 'number' &&
+    v.times >= 1 &&
+    Array.isArray(v.segments) &&
+    v.segments.every(isSegment) &&
+    typeof v.skipLastRest === 'boolean'
+  );
+}
+
+export function isSettings(v: any): v is Settings {
+  return (
+    !!v &&
+    typeof v.roundsTotal === 'number' &&
+    typeof v.roundLengthSec === 'number' &&
+    typeof v.restLengthSec === 'number' &&
+    (v.mode === undefined || TIMER_MODES.includes(v.mode)) &&
+    (v.targetReps === undefined || typeof v.targetReps === 'number') &&
+    (v.music === undefined || isMusicAutomation(v.music))
+  );
+}
+
+export function isProgram(v: any): v is Program {
+  return (
+    !!v &&
+    typeof v.name === 'string' &&
+    Array.isArray(v.items) &&
+    v.items.every((it: unknown) => isSegment(it) || isRepeat(it))
+  );
+}
@@ -0,0 +1,168 @@
+import { WorkoutRow } from './workouts';
+
+/** The slice of a logged workout the stats need. */
+export type StatsEntry = {
+  at: number; // session start, epoch ms
+  rounds: number;
+  workSec: number;
+};
+
+export type PeriodTotal = {
+  key: string; // YYYY-MM-DD of the period start
+  label: string; // short axis label
+  sessions: number;
+  rounds: number;
+  workMin: number;
+};
+
+export type PersonalBests = {
+  mostRounds: number;
+  longestWorkMin: number;
+  bestWeekWorkMin: number;
+  bestWeekSessions: number;
+  longestStreak: number;
+};
+
+export type TrainingStats = {
+  weekly: PeriodTotal[]; // oldest first
+  monthly: PeriodTotal[]; // oldest first
+  currentStreak: number; // consecutive days up to today (or yesterday)
+  longestStreak: number;
+  heatmap: { date: string; count: number }[];
+  bests: PersonalBests;
+  totalSessions: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const HEATMAP_DAYS = 105; // 15 weeks
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Runs with no work time (started by accident, stopped straight away) aren't sessions; the profile count uses the same rule. */
+export function toStatsEntries(rows: WorkoutRow[]): StatsEntry[] {
+  return rows
+    .filter((r) => r.workSec > 0 && r.startedAt)
+    .map((r) => ({ at: r.startedAt.toMillis(), rounds: r.roundsCompleted ?? 0, workSec: r.workSec ?? 0 }));
+}
+
+export function dayKey(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** Monday-based weeks. */
+function startOfWeek(d: Date): Date {
+  const day = startOfDay(d);
+  const offset = (day.getDay() + 6) % 7;
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - offset);
+}
+
+function startOfMonth(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), 1);
+}
+
+function bucket(
+  entries: StatsEntry[],
+  starts: Date[],
+  startOf: (d: Date) => Date,
+  label: (d: Date) => string
+): PeriodTotal[] {
+  const byKey = new Map<string, PeriodTotal>(
+    starts.map((s) => [dayKey(s), { key: dayKey(s), label: label(s), sessions: 0, rounds: 0, workMin: 0 }])
+  );
+  for (const e of entries) {
+    const t = byKey.get(dayKey(startOf(new Date(e.at))));
+    if (!t) continue;
+    t.sessions += 1;
+    t.rounds += e.rounds;
+    t.workMin += e.workSec / 60;
+  }
+  return starts.map((s) => {
+    const t = byKey.get(dayKey(s))!;
+    return { ...t, workMin: Math.round(t.workMin) };
+  });
+}
+
+/** Lengths of runs of consecutive training days; `current` only counts if it reaches today or yesterday. */
+function streaks(entries: StatsEntry[], now: Date): { current: number; longest: number } {
+  const days = Array.from(new Set(entries.map((e) => startOfDay(new Date(e.at)).getTime()))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  let prev: number | null = null;
+  for (const d of days) {
+    // Round to whole days so DST shifts don't break a run
+    run = prev !== null && Math.round((d - prev) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    prev = d;
+  }
+  const today = startOfDay(now).getTime();
+  const last = days[days.length - 1];
+  const current = last !== undefined && Math.round((today - last) / DAY_MS) <= 1 ? run : 0;
+  return { current, longest };
+}
+
+export function computeTrainingStats(
+  entries: StatsEntry[],
+  now: Date = new Date(),
+  opts: { weeks?: number; months?: number; heatmapDays?: number } = {}
+): TrainingStats {
+  const weeks = opts.weeks ?? 8;
+  const months = opts.months ?? 6;
+  const heatmapDays = opts.heatmapDays ?? HEATMAP_DAYS;
+
+  const thisWeek = startOfWeek(now);
+  const weekStarts = Array.from(
+    { length: weeks },
+    (_, i) => new Date(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() - 7 * (weeks - 1 - i))
+  );
+  const thisMonth = startOfMonth(now);
+  const monthStarts = Array.from(
+    { length: months },
+    (_, i) => new Date(thisMonth.getFullYear(), thisMonth.getMonth() - (months - 1 - i), 1)
+  );
+
+  const weekly = bucket(entries, weekStarts, startOfWeek, (d) => `${d.getDate()}/${d.getMonth() + 1}`);
+  const monthly = bucket(entries, monthStarts, startOfMonth, (d) => MONTHS[d.getMonth()]);
+
+  const since = startOfDay(now).getTime() - (heatmapDays - 1) * DAY_MS;
+  const perDay = new Map<string, number>();
+  for (const e of entries) {
+    if (e.at < since) continue;
+    const k = dayKey(new Date(e.at));
+    perDay.set(k, (perDay.get(k) ?? 0) + 1);
+  }
+  const heatmap = Array.from(perDay, ([date, count]) => ({ date, count }));
+
+  // All-time weekly totals for the "best week" records
+  const allWeeks = new Map<string, { sessions: number; workSec: number }>();
+  for (const e of entries) {
+    const k = dayKey(startOfWeek(new Date(e.at)));
+    const w = allWeeks.get(k) ?? { sessions: 0, workSec: 0 };
+    w.sessions += 1;
+    w.workSec += e.workSec;
+    allWeeks.set(k, w);
+  }
+
+  const { current, longest } = streaks(entries, now);
+  const bests: PersonalBests = {
+    mostRounds: entries.reduce((m, e) => Math.max(m, e.rounds), 0),
+    longestWorkMin: Math.round(entries.reduce((m, e) => Math.max(m, e.workSec), 0) / 60),
+    bestWeekWorkMin: Math.round(Math.max(0, ...Array.from(allWeeks.values(), (w) => w.workSec)) / 60),
+    bestWeekSessions: Math.max(0, ...Array.from(allWeeks.values(), (w) => w.sessions)),
+    longestStreak: longest,
+  };
+
+  return {
+    weekly,
+    monthly,
+    currentStreak: current,
+    longestStreak: longest,
+    heatmap,
+    bests,
+    totalSessions: entries.length,
+  };
+}
@@ -0,0 +1,107 @@
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+} from 'firebase/firestore';
+
+import { db } from '../firebase';
+import { SessionSummary, TimerSession, totalLengthSec } from './timerEngine';
+import { Program, Settings } from './timerProgram';
+
+export type WorkoutStatus = 'completed' | 'abandoned';
+
+export const MIN_ABANDONED_MS = 15 * 1000; // don't log accidental starts
+
+export type WorkoutKind = 'solo' | 'party';
+
+/** What a party run looked like from this person's side; the full recap is partyRecaps/{recapId}. */
+export type PartyWorkoutRef = {
+  recapId: string;
+  code: string;
+  hostName: string;
+  attendees: number;
+  metric: string; // leaderboard metric label, e.g. "Reps"
+  rank: number | null; // null when nothing was logged
+  value: number;
+};
+
+/** users/{uid}/workouts/{id} — one finished or abandoned timer session. */
+export type WorkoutDoc = SessionSummary & {
+  ownerUid: string;
+  status: WorkoutStatus;
+  kind?: WorkoutKind; // older entries have none and are solo
+  party?: PartyWorkoutRef | null;
+  programName: string;
+  settings: Settings;
+  program: Program | null;
+  startedAt: Timestamp;
+  endedAt: Timestamp;
+  notes?: string | null;
+  rpe?: number | null; // rate of perceived exertion, 1–10
+  createdAt?: Timestamp | any;
+};
+
+export type WorkoutRow = WorkoutDoc & { id: string };
+
+export type NewWorkout = SessionSummary & {
+  status: WorkoutStatus;
+  programName: string;
+  settings: Settings;
+  program: Program | null;
+  startedAtMs: number;
+  endedAtMs: number;
+  party?: PartyWorkoutRef;
+};
+
+export function workoutsCol(uid: string) {
+  return collection(db, 'users', uid, 'workouts');
+}
+
+export async function logWorkout(uid: string, w: NewWorkout): Promise<string> {
+  const { startedAtMs, endedAtMs, ...rest } = w;
+  const data = {
+    ...rest,
+    kind: rest.party ? 'party' : 'solo',
+    ownerUid: uid,
+    startedAt: Timestamp.fromMillis(startedAtMs),
+    endedAt: Timestamp.fromMillis(endedAtMs),
+    notes: null,
+    rpe: null,
+    createdAt: serverTimestamp(),
+  };
+  // One entry per party run, however many times (or from wherever) it gets recorded
+  if (rest.party) {
+    const ref = doc(workoutsCol(uid), `party_${rest.party.recapId}`);
+    await runTransaction(db, async (tx) => {
+      if (!(await tx.get(ref)).exists()) tx.set(ref, data);
+    });
+    return ref.id;
+  }
+  const ref = await addDoc(workoutsCol(uid), data);
+  return ref.id;
+}
+
+/** When a run stopped: the scheduled end if it ran out, otherwise the pause or the moment it was stopped. */
+export function runEndedAtMs(session: TimerSession, status: WorkoutStatus, now: number): number {
+  const startedAt = session.startedAt ?? now;
+  return status === 'completed'
+    ? Math.min(now, startedAt + session.pausedMs + totalLengthSec(session) * 1000)
+    : session.pausedAt ?? now;
+}
+
+export async function updateWorkoutReflection(
+  uid: string,
+  id: string,
+  patch: { notes?: string | null; rpe?: number | null }
+): Promise<void> {
+  await updateDoc(doc(workoutsCol(uid), id), { ...patch, updatedAt: serverTimestamp() });
+}
+
+export function fmtMinutes(sec: number): string {
+  const m = Math.round(sec / 60);
+  return m < 1 && sec > 0 ? `${Math.round(sec)}s` : `${m} min`;
+}